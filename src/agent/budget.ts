@@ -0,0 +1,105 @@
+/**
+ * Budget - Token, cost and time limits for a run.
+ *
+ * A BudgetTracker adds up the usage of every request a run makes. Workers
+ * spawned by the run are handed the same tracker, so their requests count
+ * toward the same limits and they stop when the budget runs out.
+ */
+
+import type { UsageRecord } from './usage.js';
+
+export interface BudgetConfig {
+  /** Input tokens, including cache writes and reads */
+  maxInputTokens?: number;
+  maxOutputTokens?: number;
+  /** Dollar-equivalent cost, from the usage ledger's price table */
+  maxCostUSD?: number;
+  /** Wall-clock time since the run started; requests and tool calls still running when it's up are aborted */
+  maxDurationMs?: number;
+  /** Percentage of a limit at which a warning is emitted (default: 80) */
+  warnPercent?: number;
+  /** Model to switch to once a warning is emitted */
+  downgradeModel?: string;
+}
+
+export type BudgetLimit = 'inputTokens' | 'outputTokens' | 'costUSD' | 'durationMs';
+
+export interface BudgetUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+  durationMs: number;
+}
+
+export interface BudgetCrossing {
+  limit: BudgetLimit;
+  used: number;
+  max: number;
+}
+
+export interface BudgetStatus {
+  /** Limits used past the warning percentage but not exhausted */
+  warnings: BudgetCrossing[];
+  /** First exhausted limit, or null */
+  exceeded: BudgetCrossing | null;
+}
+
+const LIMITS: Array<[BudgetLimit, keyof BudgetConfig]> = [
+  ['inputTokens', 'maxInputTokens'],
+  ['outputTokens', 'maxOutputTokens'],
+  ['costUSD', 'maxCostUSD'],
+  ['durationMs', 'maxDurationMs'],
+];
+
+export class BudgetTracker {
+  readonly config: BudgetConfig;
+  private startTime = Date.now();
+  private inputTokens = 0;
+  private outputTokens = 0;
+  private costUSD = 0;
+
+  constructor(config: BudgetConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Count a request's usage against the budget.
+   */
+  add(record: UsageRecord): void {
+    this.inputTokens += record.inputTokens + record.cacheWriteTokens + record.cacheReadTokens;
+    this.outputTokens += record.outputTokens;
+    this.costUSD += record.costUSD;
+  }
+
+  getUsage(): BudgetUsage {
+    return {
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+      costUSD: this.costUSD,
+      durationMs: Date.now() - this.startTime,
+    };
+  }
+
+  /**
+   * Compare usage so far with the configured limits.
+   */
+  check(): BudgetStatus {
+    const usage = this.getUsage();
+    const warnAt = (this.config.warnPercent ?? 80) / 100;
+    const status: BudgetStatus = { warnings: [], exceeded: null };
+
+    for (const [limit, key] of LIMITS) {
+      const max = this.config[key] as number | undefined;
+      if (max === undefined) continue;
+
+      const crossing = { limit, used: usage[limit], max };
+      if (crossing.used >= max) {
+        status.exceeded ??= crossing;
+      } else if (crossing.used >= max * warnAt) {
+        status.warnings.push(crossing);
+      }
+    }
+
+    return status;
+  }
+}
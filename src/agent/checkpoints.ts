@@ -0,0 +1,228 @@
+/**
+ * Checkpoints - Snapshots of files changed by the agent, per session and turn.
+ *
+ * A checkpoint is created at the start of every agent turn. Before a file
+ * tool first changes a file during a turn, the file's current content (or
+ * its absence) is backed up. Rewinding to a turn restores every file changed
+ * in that turn or later to its state before the turn. Backups live outside
+ * the working directory, so this works without git.
+ *
+ * Layout: {dir}/{sessionId}/manifest.json plus one backup file per snapshot.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { homedir } from 'node:os';
+import { createLimiter, type Limiter } from '../utils/concurrency.js';
+
+export interface CheckpointOptions {
+  /** Whether to snapshot files before changes (default: true when options are given) */
+  enabled?: boolean;
+  /** Directory for checkpoint data (default: ~/.claude/checkpoints) */
+  dir?: string;
+}
+
+export interface FileSnapshot {
+  /** Absolute path of the file */
+  path: string;
+  /** Backup file name, or null if the file didn't exist before the turn */
+  backup: string | null;
+}
+
+export interface Checkpoint {
+  /** Session-wide turn number (1-based) */
+  turn: number;
+  /** Conversation messages before the turn's request was sent */
+  messageCount: number;
+  /** ISO timestamp of the start of the turn */
+  createdAt: string;
+  /** Files changed during the turn, with their content from before it */
+  files: FileSnapshot[];
+  /** Set when compaction summarized messages from before the turn; it can no longer be rewound to */
+  compacted?: boolean;
+}
+
+export interface RewindResult {
+  /** The turn rewound to; the conversation continues as if it never happened */
+  turn: number;
+  /** Conversation messages kept */
+  messageCount: number;
+  /** Files written back to their earlier content */
+  restoredFiles: string[];
+  /** Files removed because they didn't exist before */
+  deletedFiles: string[];
+}
+
+/**
+ * Default location for checkpoint data.
+ */
+export function getDefaultCheckpointDir(): string {
+  return path.join(homedir(), '.claude', 'checkpoints');
+}
+
+export class CheckpointStore {
+  private sessionDir: string;
+  private manifestPath: string;
+  private checkpoints: Checkpoint[] | null = null;
+  // Manifest updates and backups must not interleave
+  private serialize: Limiter = createLimiter(1);
+
+  constructor(
+    readonly sessionId: string,
+    dir: string = getDefaultCheckpointDir()
+  ) {
+    this.sessionDir = path.join(dir, sessionId);
+    this.manifestPath = path.join(this.sessionDir, 'manifest.json');
+  }
+
+  /**
+   * List checkpoints, oldest first.
+   */
+  async list(): Promise<Checkpoint[]> {
+    return this.serialize(async () => structuredClone(await this.load()));
+  }
+
+  /**
+   * Start a checkpoint for a turn. Replaces any checkpoints from that turn on.
+   */
+  async create(turn: number, messageCount: number): Promise<Checkpoint> {
+    return this.serialize(async () => {
+      const checkpoints = await this.load();
+      await this.discard(checkpoints.filter((c) => c.turn >= turn));
+
+      const checkpoint: Checkpoint = { turn, messageCount, createdAt: new Date().toISOString(), files: [] };
+      this.checkpoints = [...checkpoints.filter((c) => c.turn < turn), checkpoint];
+      await this.save();
+      return structuredClone(checkpoint);
+    });
+  }
+
+  /**
+   * Back up a file before it is first changed during a turn.
+   * Later calls for the same file in the same turn are no-ops.
+   */
+  async snapshot(turn: number, filePath: string): Promise<void> {
+    const absolutePath = path.resolve(filePath);
+
+    await this.serialize(async () => {
+      const checkpoints = await this.load();
+      const checkpoint = checkpoints.find((c) => c.turn === turn);
+      if (!checkpoint) {
+        throw new Error(`No checkpoint for turn ${turn}`);
+      }
+      if (checkpoint.files.some((f) => f.path === absolutePath)) return;
+
+      let backup: string | null = null;
+      try {
+        const content = await fs.readFile(absolutePath);
+        backup = `${turn}-${checkpoint.files.length}.bak`;
+        await fs.mkdir(this.sessionDir, { recursive: true });
+        await fs.writeFile(path.join(this.sessionDir, backup), content);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+
+      checkpoint.files.push({ path: absolutePath, backup });
+      await this.save();
+    });
+  }
+
+  /**
+   * Restore files changed in `turn` or later to their state before `turn`,
+   * and drop those checkpoints. Returns the checkpoint that was rewound to.
+   */
+  async restore(turn: number): Promise<{ checkpoint: Checkpoint; restoredFiles: string[]; deletedFiles: string[] }> {
+    return this.serialize(async () => {
+      const checkpoints = await this.load();
+      const checkpoint = checkpoints.find((c) => c.turn === turn);
+      if (!checkpoint) {
+        throw new Error(`No checkpoint for turn ${turn}`);
+      }
+
+      // The earliest snapshot of each file is its state before `turn`
+      const undone = checkpoints.filter((c) => c.turn >= turn);
+      const earliest = new Map<string, FileSnapshot>();
+      for (const c of undone) {
+        for (const file of c.files) {
+          if (!earliest.has(file.path)) earliest.set(file.path, file);
+        }
+      }
+
+      const restoredFiles: string[] = [];
+      const deletedFiles: string[] = [];
+      for (const file of earliest.values()) {
+        if (file.backup === null) {
+          await fs.rm(file.path, { force: true });
+          deletedFiles.push(file.path);
+        } else {
+          await fs.mkdir(path.dirname(file.path), { recursive: true });
+          await fs.copyFile(path.join(this.sessionDir, file.backup), file.path);
+          restoredFiles.push(file.path);
+        }
+      }
+
+      await this.discard(undone);
+      this.checkpoints = checkpoints.filter((c) => c.turn < turn);
+      await this.save();
+
+      return { checkpoint: structuredClone(checkpoint), restoredFiles, deletedFiles };
+    });
+  }
+
+  /**
+   * Update message counts after compaction replaced the first `removed`
+   * conversation messages with `inserted` new ones (e.g. a summary).
+   * Checkpoints whose messages were summarized are marked as compacted.
+   */
+  async rebase(removed: number, inserted: number): Promise<void> {
+    await this.serialize(async () => {
+      const checkpoints = await this.load();
+      for (const checkpoint of checkpoints) {
+        if (checkpoint.compacted) continue;
+        if (checkpoint.messageCount >= removed) {
+          checkpoint.messageCount = checkpoint.messageCount - removed + inserted;
+        } else {
+          checkpoint.compacted = true;
+        }
+      }
+      await this.save();
+    });
+  }
+
+  /**
+   * Delete all checkpoint data for the session.
+   */
+  async clear(): Promise<void> {
+    await this.serialize(async () => {
+      this.checkpoints = [];
+      await fs.rm(this.sessionDir, { recursive: true, force: true });
+    });
+  }
+
+  private async load(): Promise<Checkpoint[]> {
+    if (this.checkpoints) return this.checkpoints;
+
+    try {
+      this.checkpoints = JSON.parse(await fs.readFile(this.manifestPath, 'utf-8')) as Checkpoint[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.checkpoints = [];
+    }
+    return this.checkpoints;
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(this.sessionDir, { recursive: true });
+    await fs.writeFile(this.manifestPath, JSON.stringify(this.checkpoints, null, 2));
+  }
+
+  private async discard(checkpoints: Checkpoint[]): Promise<void> {
+    for (const checkpoint of checkpoints) {
+      for (const file of checkpoint.files) {
+        if (file.backup) {
+          await fs.rm(path.join(this.sessionDir, file.backup), { force: true });
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Command hooks - Hooks that run external commands, configured in a settings file.
+ *
+ * Settings file format:
+ *
+ *   {
+ *     "hooks": {
+ *       "PreToolUse": [
+ *         { "matcher": "Bash|Write", "command": "python3 policy.py", "timeout": 10000 }
+ *       ]
+ *     }
+ *   }
+ *
+ * The command runs in bash with the hook input as JSON on stdin (plus an
+ * `event` field). It answers through its exit code and stdout:
+ * - exit 0: allowed; stdout may hold a JSON object with `decision` ('allow' or
+ *   'deny'), `reason`, `modified`, `appendToResult` and `isError`
+ * - exit 2: denied; the reason is taken from stdout JSON or stderr
+ * - any other exit code, invalid JSON or a timeout: a hook error
+ */
+
+import { spawn } from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Hook, HookErrorPolicy, HookEvent, HookResult } from './hooks.js';
+
+export interface CommandHookConfig {
+  event: HookEvent;
+  /**
+   * Tool names the hook runs for (PreToolUse and PostToolUse only): `*` is a
+   * wildcard and `|` separates alternatives (default: every tool)
+   */
+  matcher?: string;
+  /** Shell command to run */
+  command: string;
+  /** Time limit in milliseconds (default: 60000) */
+  timeout?: number;
+  /** Working directory for the command (default: the process working directory) */
+  cwd?: string;
+  /** Name for unregistering */
+  name?: string;
+  /** Hooks with higher priority run first (default: 0) */
+  priority?: number;
+  /** Failure policy; 'block' makes a failing policy script deny (default: the registry's) */
+  onError?: HookErrorPolicy;
+}
+
+interface CommandOutput {
+  decision?: 'allow' | 'deny';
+  reason?: string;
+  modified?: unknown;
+  appendToResult?: string;
+  isError?: boolean;
+}
+
+const DEFAULT_TIMEOUT = 60_000;
+
+// Exit code a command uses to deny
+const DENY_EXIT_CODE = 2;
+
+const HOOK_EVENTS = new Set<string>([
+  'PreToolUse',
+  'PostToolUse',
+  'WorkerStart',
+  'WorkerStop',
+  'UserPromptSubmit',
+  'PreRequest',
+  'PostResponse',
+  'Stop',
+  'PreCompact',
+  'SessionStart',
+  'SessionEnd',
+]);
+
+/**
+ * Compile a matcher like `Bash|mcp__github__*` into a tool-name test.
+ */
+function compileMatcher(matcher: string | undefined): (tool: string) => boolean {
+  if (matcher === undefined || matcher.trim() === '' || matcher.trim() === '*') {
+    return () => true;
+  }
+  const alternatives = matcher
+    .split('|')
+    .map((part) => part.trim().replace(/[.+?^${}()[\]\\]/g, '\\$&').replace(/\*/g, '.*'));
+  const pattern = new RegExp(`^(?:${alternatives.join('|')})$`);
+  return (tool) => pattern.test(tool);
+}
+
+/**
+ * Create a hook that runs a command.
+ */
+export function createCommandHook(config: CommandHookConfig): Hook {
+  const matches = compileMatcher(config.matcher);
+
+  return {
+    event: config.event,
+    name: config.name,
+    priority: config.priority,
+    onError: config.onError,
+    handler: async (input) => {
+      const tool = (input as { tool?: unknown }).tool;
+      if (typeof tool === 'string' && !matches(tool)) {
+        return { allow: true };
+      }
+      return runCommandHook(config, { event: config.event, ...input });
+    },
+  };
+}
+
+/**
+ * Run a hook command and translate its exit code and output into a HookResult.
+ */
+async function runCommandHook(config: CommandHookConfig, payload: object): Promise<HookResult> {
+  const timeout = config.timeout ?? DEFAULT_TIMEOUT;
+  const { exitCode, stdout, stderr } = await new Promise<{ exitCode: number | null; stdout: string; stderr: string }>(
+    (resolve, reject) => {
+      let stdout = '';
+      let stderr = '';
+      let settled = false;
+
+      // Detached, so a timeout can kill the command's children too
+      const proc = spawn('bash', ['-c', config.command], {
+        cwd: config.cwd,
+        env: process.env,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        detached: true,
+      });
+
+      // A child that outlives the kill may hold the pipes open, so the
+      // timeout settles without waiting for them to close
+      const timeoutId = setTimeout(() => {
+        settled = true;
+        try {
+          process.kill(-proc.pid!, 'SIGKILL');
+        } catch {
+          proc.kill('SIGKILL');
+        }
+        proc.stdout.destroy();
+        proc.stderr.destroy();
+        reject(new Error(`Hook command '${config.command}' timed out after ${timeout}ms`));
+      }, timeout);
+
+      proc.stdout.on('data', (data: Buffer) => (stdout += data.toString()));
+      proc.stderr.on('data', (data: Buffer) => (stderr += data.toString()));
+      // Commands that exit without reading stdin close the pipe early
+      proc.stdin.on('error', () => {});
+
+      proc.on('error', (error) => {
+        clearTimeout(timeoutId);
+        if (settled) return;
+        settled = true;
+        reject(new Error(`Hook command '${config.command}' failed to start: ${error.message}`));
+      });
+
+      proc.on('close', (code) => {
+        clearTimeout(timeoutId);
+        if (settled) return;
+        settled = true;
+        resolve({ exitCode: code, stdout, stderr });
+      });
+
+      proc.stdin.end(JSON.stringify(payload));
+    }
+  );
+
+  if (exitCode !== 0 && exitCode !== DENY_EXIT_CODE) {
+    const detail = stderr.trim() ? `: ${stderr.trim()}` : '';
+    throw new Error(`Hook command '${config.command}' exited with code ${exitCode}${detail}`);
+  }
+
+  let output: CommandOutput = {};
+  if (stdout.trim()) {
+    try {
+      output = JSON.parse(stdout) as CommandOutput;
+    } catch {
+      throw new Error(`Hook command '${config.command}' printed invalid JSON: ${stdout.trim().slice(0, 200)}`);
+    }
+    if (typeof output !== 'object' || output === null || Array.isArray(output)) {
+      throw new Error(`Hook command '${config.command}' must print a JSON object`);
+    }
+  }
+
+  if (exitCode === DENY_EXIT_CODE || output.decision === 'deny') {
+    return { allow: false, reason: output.reason ?? (stderr.trim() || undefined) };
+  }
+  return {
+    allow: true,
+    reason: output.reason,
+    modified: output.modified,
+    appendToResult: output.appendToResult,
+    isError: output.isError,
+  };
+}
+
+/**
+ * Read command hook configs from a JSON settings file. Commands run in the
+ * file's directory unless an entry sets `cwd`, so policy scripts can sit next
+ * to it.
+ */
+export async function loadCommandHooks(filePath: string): Promise<CommandHookConfig[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code === 'ENOENT') {
+      throw new Error(`Hook settings file not found: ${filePath}`);
+    }
+    throw error;
+  }
+
+  const settings = JSON.parse(content) as { hooks?: Record<string, Array<Omit<CommandHookConfig, 'event'>>> };
+  const baseDir = path.dirname(path.resolve(filePath));
+  const configs: CommandHookConfig[] = [];
+
+  for (const [event, entries] of Object.entries(settings.hooks ?? {})) {
+    if (!HOOK_EVENTS.has(event)) {
+      throw new Error(`Unknown hook event '${event}' in ${filePath}`);
+    }
+    for (const entry of entries) {
+      if (typeof entry.command !== 'string' || !entry.command.trim()) {
+        throw new Error(`Hook for ${event} in ${filePath} has no command`);
+      }
+      configs.push({
+        ...entry,
+        event: event as HookEvent,
+        cwd: entry.cwd ? path.resolve(baseDir, entry.cwd) : baseDir,
+      });
+    }
+  }
+
+  return configs;
+}
@@ -0,0 +1,200 @@
+/**
+ * Compaction - Summarize older turns so long sessions fit the context window.
+ *
+ * The built-in compactor asks the model for a structured summary of everything
+ * before the most recent turns, then replaces those messages with a single
+ * user message holding the summary. Recent turns are kept verbatim, starting at
+ * an assistant message so no tool_use is separated from its tool_result and
+ * thinking blocks (with their signatures) are passed back untouched.
+ */
+
+import type { AnthropicClient } from '../client/api-client.js';
+import type { ContentBlock, Message, Usage } from '../client/types.js';
+
+export interface CompactorOptions {
+  /** Most recent turns (assistant responses and their tool results) kept verbatim (default: 4) */
+  keepRecentTurns?: number;
+  /** Model that writes the summary */
+  model: string;
+  /** Maximum tokens for the summary (default: 4096) */
+  maxSummaryTokens?: number;
+  /** Extra guidance appended to the summarization prompt */
+  instructions?: string;
+  /** Called with the token usage of the summarization request */
+  onUsage?: (usage: Usage, model: string) => void;
+}
+
+export type Compactor = (messages: Message[], sessionId: string) => Promise<Message[]>;
+
+/** Tool inputs and results longer than this are cut when shown to the summarizer */
+const MAX_BLOCK_CHARS = 2000;
+
+const SUMMARY_SYSTEM_PROMPT =
+  'You summarize conversations between a user and an AI coding agent so the agent can continue the work ' +
+  'without the original messages. Be specific: keep file paths, names, commands, error messages and decisions. ' +
+  'Do not invent details.';
+
+const SUMMARY_INSTRUCTIONS = `Summarize the conversation above. The most recent turns are kept separately, so focus on what they depend on. Use these sections:
+
+## Goals
+What the user asked for, including constraints and preferences.
+
+## Decisions
+Approaches chosen or ruled out, and why.
+
+## Files touched
+Each file read, created or modified, with what changed or what was learned.
+
+## Open todos
+Work that was planned or started but is not finished.
+
+## Current state
+Where the work stood at the end of the conversation above.`;
+
+export const SUMMARY_PREFIX =
+  'This session continues from an earlier conversation that was compacted to save context. Summary of the earlier part:';
+
+/**
+ * Find where the verbatim tail begins: the assistant message that starts the
+ * `keepRecentTurns`-th most recent turn. Returns null when there is too little
+ * before it to be worth summarizing.
+ */
+export function findCompactionSplit(messages: Message[], keepRecentTurns: number): number | null {
+  let turns = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role !== 'assistant') continue;
+    turns++;
+    if (turns === Math.max(1, keepRecentTurns)) {
+      // The summary replaces everything before i; with only one message
+      // there, compaction would save nothing
+      return i >= 2 ? i : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Render messages as plain text for the summarizer. Sending the transcript as
+ * text avoids tool and thinking pairing rules in the summarization request.
+ */
+export function renderConversation(messages: Message[]): string {
+  return messages
+    .map((message) => {
+      const label = message.role === 'user' ? 'User' : 'Assistant';
+      const body =
+        typeof message.content === 'string'
+          ? message.content
+          : message.content.map(renderBlock).filter((text) => text).join('\n');
+      return `${label}:\n${body}`;
+    })
+    .join('\n\n');
+}
+
+function renderBlock(block: ContentBlock): string {
+  switch (block.type) {
+    case 'text':
+      return block.text;
+    case 'thinking':
+      // Reasoning is private to the turn; its conclusions show up in the text
+      return '';
+    case 'image':
+      return '[image]';
+    case 'tool_use':
+    case 'server_tool_use':
+      return `[Tool call ${block.name}: ${clip(JSON.stringify(block.input))}]`;
+    case 'tool_result': {
+      const content =
+        typeof block.content === 'string' ? block.content : block.content.map(renderBlock).join('\n');
+      return `[Tool result${block.is_error ? ' (error)' : ''}: ${clip(content)}]`;
+    }
+    case 'web_search_tool_result':
+      return Array.isArray(block.content)
+        ? `[Web search results: ${block.content.map((r) => r.title).join('; ')}]`
+        : `[Web search failed: ${block.content.error_code}]`;
+    default:
+      return '';
+  }
+}
+
+function clip(text: string): string {
+  if (text.length <= MAX_BLOCK_CHARS) return text;
+  return `${text.slice(0, MAX_BLOCK_CHARS)}... [${text.length - MAX_BLOCK_CHARS} more characters]`;
+}
+
+/**
+ * Ask the model for a structured summary of the given messages.
+ */
+export async function summarizeConversation(
+  client: AnthropicClient,
+  messages: Message[],
+  options: Omit<CompactorOptions, 'keepRecentTurns'>
+): Promise<string> {
+  const prompt = options.instructions
+    ? `${SUMMARY_INSTRUCTIONS}\n\nAdditional instructions:\n${options.instructions}`
+    : SUMMARY_INSTRUCTIONS;
+
+  let summary = '';
+  let usage: Usage = { input_tokens: 0, output_tokens: 0 };
+  for await (const event of client.streamMessage({
+    model: options.model,
+    max_tokens: options.maxSummaryTokens ?? 4096,
+    system: SUMMARY_SYSTEM_PROMPT,
+    messages: [
+      {
+        role: 'user',
+        content: `<conversation>\n${renderConversation(messages)}\n</conversation>\n\n${prompt}`,
+      },
+    ],
+  })) {
+    if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+      summary += event.delta.text;
+    } else if (event.type === 'message_start') {
+      usage = { ...event.message.usage };
+    } else if (event.type === 'message_delta') {
+      usage.output_tokens = event.usage.output_tokens;
+    }
+  }
+  options.onUsage?.(usage, options.model);
+
+  summary = summary.trim();
+  if (!summary) {
+    throw new Error('Compaction produced an empty summary');
+  }
+  return summary;
+}
+
+/**
+ * Create the built-in compactor used by autoCompact when no `onCompact` is
+ * given. Returns the messages unchanged when there is nothing old enough to
+ * summarize. Kept messages are the same objects as in the input.
+ */
+export function createCompactor(client: AnthropicClient, options: CompactorOptions): Compactor {
+  const keepRecentTurns = options.keepRecentTurns ?? 4;
+
+  return async (messages) => {
+    const split = findCompactionSplit(messages, keepRecentTurns);
+    if (split === null) {
+      return messages;
+    }
+
+    const summary = await summarizeConversation(client, messages.slice(0, split), options);
+    return [{ role: 'user', content: `${SUMMARY_PREFIX}\n\n${summary}` }, ...messages.slice(split)];
+  };
+}
+
+/**
+ * Count trailing messages that compaction carried over unchanged (the same
+ * objects, in the same order). Lets callers map positions in the old history
+ * to the compacted one, whichever compactor produced it.
+ */
+export function countKeptMessages(before: Message[], after: Message[]): number {
+  let kept = 0;
+  while (
+    kept < before.length &&
+    kept < after.length &&
+    before[before.length - 1 - kept] === after[after.length - 1 - kept]
+  ) {
+    kept++;
+  }
+  return kept;
+}
@@ -3,6 +3,7 @@
  */
 
 import type { Usage } from '../client/types.js';
+import { estimateTextTokens } from '../utils/tokens.js';
 
 export interface ContextThresholds {
   /** Warning threshold (e.g., 0.7 = 70%) */
@@ -40,6 +41,7 @@ const DEFAULT_THRESHOLDS: ContextThresholds = {
 export class ContextTracker {
   private inputTokens = 0;
   private outputTokens = 0;
+  private lastOutputTokens = 0;
   private cacheReadTokens = 0;
   private cacheCreationTokens = 0;
   private contextWindow: number;
@@ -59,6 +61,7 @@ export class ContextTracker {
   update(usage: Usage): void {
     this.inputTokens = usage.input_tokens;
     this.outputTokens += usage.output_tokens;
+    this.lastOutputTokens = usage.output_tokens;
     this.cacheReadTokens = usage.cache_read_input_tokens ?? 0;
     this.cacheCreationTokens = usage.cache_creation_input_tokens ?? 0;
   }
@@ -74,11 +77,11 @@ export class ContextTracker {
    * Get current context status.
    */
   getStatus(): ContextStatus {
-    // Estimate total context usage
-    // Input tokens includes cache_read, but cache_read doesn't count toward context limit
-    // So effective input = input_tokens - cache_read_input_tokens
-    const effectiveInput = this.inputTokens - this.cacheReadTokens;
-    const totalTokens = effectiveInput + this.outputTokens;
+    // Estimate context usage of the next request
+    // input_tokens excludes cached prompt tokens, which still fill the window,
+    // and the latest response becomes part of the next request's prompt
+    const totalTokens =
+      this.inputTokens + this.cacheReadTokens + this.cacheCreationTokens + this.lastOutputTokens;
     const percentUsed = (totalTokens / this.contextWindow) * 100;
 
     return {
@@ -98,6 +101,7 @@ export class ContextTracker {
   reset(): void {
     this.inputTokens = 0;
     this.outputTokens = 0;
+    this.lastOutputTokens = 0;
     this.cacheReadTokens = 0;
     this.cacheCreationTokens = 0;
   }
@@ -143,10 +147,11 @@ export class ContextTracker {
 
 /**
  * Estimate token count for a string (rough approximation).
- * Uses ~4 characters per token as a rough estimate.
+ * Uses ~4 ASCII characters per token, and one token per other character.
+ * See utils/tokens.ts for whole-request estimates.
  */
 export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+  return estimateTextTokens(text);
 }
 
 /**
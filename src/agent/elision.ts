@@ -0,0 +1,170 @@
+/**
+ * Elision - Replace stale, large tool results with short placeholders.
+ *
+ * A cheaper alternative to compaction: old Read, Grep and Bash outputs are
+ * swapped for a one-line note saying what the call was and how to get the
+ * output back. Only the content of tool_result blocks changes, so tool_use
+ * pairing and the position of cache breakpoints stay the same. Elided results
+ * stay elided, so later requests share the same (cacheable) prefix.
+ */
+
+import * as path from 'node:path';
+import type { ContentBlock, Message, ToolResultContent, ToolUseContent } from '../client/types.js';
+import { diffPath } from '../utils/diff.js';
+
+export interface ElisionOptions {
+  /** Tool results from this many most recent turns are never elided (default: 3) */
+  keepRecentTurns?: number;
+  /** Results shorter than this many characters are left alone (default: 2000) */
+  minChars?: number;
+  /** Tools whose results may be elided (default: Read, Grep, Glob, Bash, WebFetch) */
+  tools?: string[];
+  /** Working directory, for showing paths relative to it */
+  workingDir?: string;
+}
+
+export interface ElisionResult {
+  /** The messages with stale results elided; unchanged messages are the same objects */
+  messages: Message[];
+  /** Number of tool results elided by this pass */
+  elided: number;
+  /** Characters of tool output removed */
+  charsSaved: number;
+}
+
+export const ELIDED_PREFIX = '[elided: ';
+
+const DEFAULT_ELIDABLE_TOOLS = ['Read', 'Grep', 'Glob', 'Bash', 'WebFetch'];
+
+/**
+ * Elide tool results that are old and large, or Read results superseded by a
+ * later Read of the same file. Error results and those in the last two user
+ * messages are always kept.
+ */
+export function elideToolResults(messages: Message[], options: ElisionOptions = {}): ElisionResult {
+  const keepRecentTurns = Math.max(1, options.keepRecentTurns ?? 3);
+  const minChars = options.minChars ?? 2000;
+  const tools = new Set(options.tools ?? DEFAULT_ELIDABLE_TOOLS);
+  const workingDir = options.workingDir ?? process.cwd();
+
+  // Locate every tool call, and the last Read of each file region
+  const toolUses = new Map<string, { block: ToolUseContent; index: number }>();
+  const lastRead = new Map<string, number>();
+  messages.forEach((message, index) => {
+    if (message.role !== 'assistant' || typeof message.content === 'string') return;
+    for (const block of message.content) {
+      if (block.type !== 'tool_use') continue;
+      toolUses.set(block.id, { block, index });
+      if (block.name === 'Read') {
+        lastRead.set(readKey(block.input, workingDir), index);
+      }
+    }
+  });
+
+  // Never touch the last two user messages: the newest results, and the one
+  // carrying the cache breakpoint
+  let protectedFrom = messages.length;
+  for (let users = 0; protectedFrom > 0 && users < 2; ) {
+    if (messages[--protectedFrom].role === 'user') users++;
+  }
+
+  const result: ElisionResult = { messages, elided: 0, charsSaved: 0 };
+  let turnsAfter = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === 'assistant') {
+      turnsAfter++;
+      continue;
+    }
+    if (i >= protectedFrom || typeof message.content === 'string') continue;
+
+    let content: ContentBlock[] | null = null;
+    for (const [b, block] of message.content.entries()) {
+      if (block.type !== 'tool_result' || block.is_error) continue;
+
+      const toolUse = toolUses.get(block.tool_use_id);
+      if (!toolUse || !tools.has(toolUse.block.name)) continue;
+
+      const size = resultSize(block);
+      if (size.chars < minChars || isElided(block)) continue;
+
+      const superseded =
+        toolUse.block.name === 'Read' &&
+        (lastRead.get(readKey(toolUse.block.input, workingDir)) ?? -1) > toolUse.index;
+      if (turnsAfter < keepRecentTurns && !superseded) continue;
+
+      const placeholder = describeElided(toolUse.block, size, workingDir);
+      content ??= [...message.content];
+      content[b] = { ...block, content: placeholder };
+      result.elided++;
+      result.charsSaved += size.chars - placeholder.length;
+    }
+
+    if (content) {
+      if (result.messages === messages) result.messages = [...messages];
+      result.messages[i] = { ...message, content };
+    }
+  }
+
+  return result;
+}
+
+function readKey(input: unknown, workingDir: string): string {
+  const { file_path, offset, limit } = (input ?? {}) as { file_path?: string; offset?: number; limit?: number };
+  return `${path.resolve(workingDir, file_path ?? '')}:${offset ?? ''}:${limit ?? ''}`;
+}
+
+function isElided(block: ToolResultContent): boolean {
+  return typeof block.content === 'string' && block.content.startsWith(ELIDED_PREFIX);
+}
+
+function resultSize(block: ToolResultContent): { chars: number; lines: number; images: number } {
+  const blocks = typeof block.content === 'string' ? [{ type: 'text' as const, text: block.content }] : block.content;
+  let chars = 0;
+  let lines = 0;
+  let images = 0;
+  for (const item of blocks) {
+    if (item.type === 'text') {
+      chars += item.text.length;
+      lines += item.text.split('\n').length;
+    } else if (item.type === 'image') {
+      chars += item.source.data.length;
+      images++;
+    }
+  }
+  return { chars, lines, images };
+}
+
+function describeElided(
+  toolUse: ToolUseContent,
+  size: { lines: number; images: number },
+  workingDir: string
+): string {
+  const input = (toolUse.input ?? {}) as Record<string, unknown>;
+  const str = (value: unknown) => (typeof value === 'string' ? value : '');
+  const clip = (text: string) => (text.length > 80 ? `${text.slice(0, 77)}...` : text);
+
+  let subject: string;
+  switch (toolUse.name) {
+    case 'Read':
+      subject = diffPath(path.resolve(workingDir, str(input.file_path)), workingDir);
+      break;
+    case 'Grep':
+    case 'Glob':
+      subject = JSON.stringify(str(input.pattern));
+      break;
+    case 'Bash':
+      subject = `\`${clip(str(input.command))}\``;
+      break;
+    case 'WebFetch':
+      subject = str(input.url);
+      break;
+    default:
+      subject = '';
+  }
+
+  const extent = size.images > 0 ? `${size.images} image(s)` : `${size.lines} lines`;
+  const action = toolUse.name === 'Read' ? 're-read' : 're-run';
+  return `${ELIDED_PREFIX}${[toolUse.name, subject].filter((s) => s).join(' ')}, ${extent}, ${action} if needed]`;
+}
@@ -2,7 +2,21 @@
  * Hook system for intercepting agent events.
  */
 
-export type HookEvent = 'PreToolUse' | 'PostToolUse' | 'WorkerStart' | 'WorkerStop';
+import type { Message, MessageParams, Usage } from '../client/types.js';
+import { createCommandHook, loadCommandHooks, type CommandHookConfig } from './command-hooks.js';
+
+export type HookEvent =
+  | 'PreToolUse'
+  | 'PostToolUse'
+  | 'WorkerStart'
+  | 'WorkerStop'
+  | 'UserPromptSubmit'
+  | 'PreRequest'
+  | 'PostResponse'
+  | 'Stop'
+  | 'PreCompact'
+  | 'SessionStart'
+  | 'SessionEnd';
 
 export interface PreToolUseInput {
   tool: string;
@@ -28,6 +42,53 @@ export interface WorkerStopInput {
   error?: string;
 }
 
+export interface UserPromptSubmitInput {
+  sessionId: string;
+  /** Messages passed to run(); `modified` replaces them, `allow: false` rejects the run */
+  messages: Message[];
+}
+
+export interface PreRequestInput {
+  sessionId: string;
+  turn: number;
+  /** The outgoing request; `modified` replaces it, `allow: false` stops the run */
+  params: MessageParams;
+}
+
+export interface PostResponseInput {
+  sessionId: string;
+  turn: number;
+  message: Message;
+  stopReason: string | null;
+  usage: Usage;
+}
+
+export interface StopInput {
+  sessionId: string;
+  turnCount: number;
+  messages: Message[];
+  /** True when the loop is continuing because a Stop hook blocked the previous stop */
+  stopHookActive: boolean;
+}
+
+export interface PreCompactInput {
+  sessionId: string;
+  /** 'auto' before a request that would cross the threshold, 'overflow' after the API rejected one */
+  trigger: 'auto' | 'overflow';
+  messages: Message[];
+}
+
+export interface SessionStartInput {
+  sessionId: string;
+  /** 'resume' when the session was loaded from a transcript */
+  source: 'new' | 'resume';
+}
+
+export interface SessionEndInput {
+  sessionId: string;
+  reason: 'close' | 'clear';
+}
+
 export type HookInput<E extends HookEvent> = E extends 'PreToolUse'
   ? PreToolUseInput
   : E extends 'PostToolUse'
@@ -36,36 +97,155 @@ export type HookInput<E extends HookEvent> = E extends 'PreToolUse'
       ? WorkerStartInput
       : E extends 'WorkerStop'
         ? WorkerStopInput
-        : never;
+        : E extends 'UserPromptSubmit'
+          ? UserPromptSubmitInput
+          : E extends 'PreRequest'
+            ? PreRequestInput
+            : E extends 'PostResponse'
+              ? PostResponseInput
+              : E extends 'Stop'
+                ? StopInput
+                : E extends 'PreCompact'
+                  ? PreCompactInput
+                  : E extends 'SessionStart'
+                    ? SessionStartInput
+                    : E extends 'SessionEnd'
+                      ? SessionEndInput
+                      : never;
+
+// Input field that `modified` replaces, for events whose hooks can rewrite their input
+const MODIFIABLE_FIELDS: Partial<Record<HookEvent, string>> = {
+  PreToolUse: 'input',
+  PostToolUse: 'result',
+  UserPromptSubmit: 'messages',
+  PreRequest: 'params',
+};
 
 export interface HookResult {
-  /** Whether to allow the action (for PreToolUse: block tool execution) */
+  /**
+   * Whether to allow the action: PreToolUse blocks the tool call, PostToolUse
+   * withholds the result from the model, UserPromptSubmit and PreRequest stop
+   * the run, PreCompact skips compaction, and Stop keeps the loop going with
+   * `reason` sent as a user message
+   */
   allow: boolean;
   /** Explanation if blocked */
   reason?: string;
-  /** Modified input (for PreToolUse) */
+  /**
+   * Replacement input (PreToolUse), result content (PostToolUse), messages
+   * (UserPromptSubmit) or request params (PreRequest)
+   */
   modified?: unknown;
   /** Content to append to tool result (for PostToolUse) */
   appendToResult?: string;
+  /** Replacement error flag for the tool result (for PostToolUse) */
+  isError?: boolean;
 }
 
+/**
+ * What to do when a hook throws: 'continue' logs the error and runs the
+ * remaining hooks, 'block' treats the failure as a denial.
+ */
+export type HookErrorPolicy = 'continue' | 'block';
+
 export interface Hook<E extends HookEvent = HookEvent> {
   event: E;
   handler: (input: HookInput<E>) => Promise<HookResult> | HookResult;
+  /** Name for unregistering; unique within a registry */
+  name?: string;
+  /** Hooks with higher priority run first; equal priorities run in registration order (default: 0) */
+  priority?: number;
+  /** Failure policy for this hook (default: the registry's) */
+  onError?: HookErrorPolicy;
+}
+
+export interface HookRegistryOptions {
+  /** Failure policy for hooks that don't set their own (default: 'continue') */
+  onError?: HookErrorPolicy;
+}
+
+export interface HookConfig extends HookRegistryOptions {
+  /** JSON settings file with command hooks (`{ "hooks": { "PreToolUse": [{ "matcher", "command" }] } }`) */
+  settingsFile?: string;
+  /** Command hooks given inline */
+  commands?: CommandHookConfig[];
 }
 
 export class HookRegistry {
   private hooks: Map<HookEvent, Array<Hook<HookEvent>>> = new Map();
+  private onError: HookErrorPolicy;
+
+  constructor(options: HookRegistryOptions = {}) {
+    this.onError = options.onError ?? 'continue';
+  }
+
+  /**
+   * Create a registry from config, loading the settings file if one is given.
+   */
+  static async fromConfig(config: HookConfig): Promise<HookRegistry> {
+    const registry = new HookRegistry(config);
+    for (const command of config.commands ?? []) {
+      registry.register(createCommandHook(command));
+    }
+    if (config.settingsFile) {
+      await registry.loadSettingsFile(config.settingsFile);
+    }
+    return registry;
+  }
+
+  /**
+   * Register the command hooks from a JSON settings file.
+   */
+  async loadSettingsFile(filePath: string): Promise<void> {
+    for (const command of await loadCommandHooks(filePath)) {
+      this.register(createCommandHook(command));
+    }
+  }
 
   /**
    * Register a hook for an event.
    */
   register<E extends HookEvent>(hook: Hook<E>): void {
+    if (hook.name !== undefined && this.find(hook.name)) {
+      throw new Error(`Hook '${hook.name}' is already registered`);
+    }
+
     const eventHooks = this.hooks.get(hook.event) ?? [];
-    eventHooks.push(hook as Hook<HookEvent>);
+    const priority = hook.priority ?? 0;
+    // Insert after every hook with the same or higher priority
+    const index = eventHooks.findIndex((existing) => (existing.priority ?? 0) < priority);
+    eventHooks.splice(index === -1 ? eventHooks.length : index, 0, hook as Hook<HookEvent>);
     this.hooks.set(hook.event, eventHooks);
   }
 
+  /**
+   * Unregister a named hook. Returns false if no hook has that name.
+   */
+  unregister(name: string): boolean {
+    const hook = this.find(name);
+    if (!hook) {
+      return false;
+    }
+    const eventHooks = this.hooks.get(hook.event)!;
+    eventHooks.splice(eventHooks.indexOf(hook), 1);
+    return true;
+  }
+
+  /**
+   * Get the hooks for an event, in the order they run.
+   */
+  getHooks(event: HookEvent): Hook[] {
+    return [...(this.hooks.get(event) ?? [])];
+  }
+
+  private find(name: string): Hook | undefined {
+    for (const eventHooks of this.hooks.values()) {
+      const hook = eventHooks.find((h) => h.name === name);
+      if (hook) return hook;
+    }
+    return undefined;
+  }
+
   /**
    * Unregister all hooks for an event.
    */
@@ -78,8 +258,9 @@ export class HookRegistry {
   }
 
   /**
-   * Run all hooks for an event.
-   * Returns combined result - if any hook disallows, the result is disallowed.
+   * Run all hooks for an event, highest priority first.
+   * Returns combined result - the first hook that disallows stops the run and
+   * the result is disallowed. Later hooks see earlier hooks' modifications.
    */
   async run<E extends HookEvent>(event: E, input: HookInput<E>): Promise<HookResult> {
     const eventHooks = this.hooks.get(event) ?? [];
@@ -87,6 +268,7 @@ export class HookRegistry {
     let currentInput = input;
     const reasons: string[] = [];
     const appendParts: string[] = [];
+    let isError: boolean | undefined;
 
     for (const hook of eventHooks) {
       try {
@@ -99,13 +281,18 @@ export class HookRegistry {
           };
         }
 
-        // Apply modifications for PreToolUse
-        if (event === 'PreToolUse' && result.modified !== undefined) {
+        // Later hooks see earlier modifications
+        const field = MODIFIABLE_FIELDS[event];
+        if (field && result.modified !== undefined) {
           currentInput = {
             ...currentInput,
-            input: result.modified,
+            [field]: result.modified,
           } as HookInput<E>;
         }
+        if (event === 'PostToolUse' && result.isError !== undefined) {
+          currentInput = { ...currentInput, is_error: result.isError };
+          isError = result.isError;
+        }
 
         if (result.reason) {
           reasons.push(result.reason);
@@ -116,16 +303,23 @@ export class HookRegistry {
           appendParts.push(result.appendToResult);
         }
       } catch (error) {
-        // Hook error - log and continue (don't block on hook errors)
+        if ((hook.onError ?? this.onError) === 'block') {
+          return {
+            allow: false,
+            reason: `Hook ${hook.name ? `'${hook.name}'` : `for ${event}`} failed: ${(error as Error).message}`,
+          };
+        }
         console.error(`Hook error for ${event}:`, error);
       }
     }
 
+    const field = MODIFIABLE_FIELDS[event];
     return {
       allow: true,
       reason: reasons.length > 0 ? reasons.join('; ') : undefined,
-      modified: event === 'PreToolUse' ? (currentInput as PreToolUseInput).input : undefined,
+      modified: field ? (currentInput as unknown as Record<string, unknown>)[field] : undefined,
       appendToResult: appendParts.length > 0 ? appendParts.join('\n') : undefined,
+      isError,
     };
   }
 
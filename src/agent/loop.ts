@@ -8,17 +8,95 @@ import { randomUUID } from 'node:crypto';
 import { AnthropicClient, type AnthropicClientOptions } from '../client/api-client.js';
 import type {
   Message,
+  MessageParams,
   ContentBlock,
   Usage,
   StreamEvent,
   ThinkingConfig,
 } from '../client/types.js';
+import { PromptTooLongError } from '../client/types.js';
 import { ToolRegistry } from '../tools/registry.js';
-import { toAPIToolDefinition, type ToolDefinition, type ToolContext, type ToolResultContent } from '../tools/types.js';
+import {
+  toAPIToolDefinition,
+  type ToolDefinition,
+  type ToolContext,
+  type ToolResult,
+  type ToolResultContent,
+} from '../tools/types.js';
 import { getWebSearchAPITool } from '../tools/builtin/web-search.js';
+import { closeShellSession } from '../tools/builtin/shell-session.js';
+import { clearFileState } from '../tools/builtin/file-state.js';
+import { createLimiter } from '../utils/concurrency.js';
+import { estimateRequestTokens } from '../utils/tokens.js';
 import { HookRegistry } from './hooks.js';
+import { countKeptMessages, createCompactor } from './compaction.js';
+import { ContextTracker } from './context.js';
+import { elideToolResults, type ElisionOptions } from './elision.js';
+import {
+  CheckpointStore,
+  getDefaultCheckpointDir,
+  type Checkpoint,
+  type CheckpointOptions,
+  type RewindResult,
+} from './checkpoints.js';
+import { PermissionManager } from './permissions.js';
+import { ProgressChannel, createProgressReporter, type ProgressReporterOptions } from './progress.js';
 import { TranscriptWriter, type TruncationInfo } from './transcript.js';
-import type { RunParams, AgentEvent, AccumulatedContent } from './types.js';
+import { UsageLedger, type PriceTable, type UsageEntry, type UsageRecord, type UsageReport } from './usage.js';
+import { BudgetTracker } from './budget.js';
+import { SecretRedactor } from './redaction.js';
+import {
+  OUTPUT_REMINDER,
+  OUTPUT_TOOL_NAME,
+  createOutputTool,
+  type OutputTool,
+  type OutputValidation,
+} from './structured-output.js';
+import type {
+  RunParams,
+  AgentEvent,
+  AccumulatedContent,
+  ToolResultEvent,
+  ToolProgressEvent,
+  CompactEvent,
+  ElideEvent,
+  BudgetEvent,
+} from './types.js';
+
+type AccumulatedToolUse = AccumulatedContent & { type: 'tool_use' };
+
+interface ToolExecutionScope {
+  registry: ToolRegistry;
+  context: ToolContext;
+  hooks: HookRegistry;
+  /** Permission rules, or null when every call is allowed */
+  permissions: PermissionManager | null;
+  /** Redactor applied to tool results, or null when redaction is off */
+  redactor: SecretRedactor | null;
+  /** Destination for tool_progress events, or null when disabled */
+  progress: ProgressChannel<ToolProgressEvent> | null;
+  progressOptions: ProgressReporterOptions;
+}
+
+interface ToolExecutionOutcome {
+  /** Event yielded to the caller */
+  event: ToolResultEvent;
+  /** tool_result block sent back to the API */
+  block: ContentBlock;
+}
+
+/**
+ * Parse the streamed JSON input of a tool call. Calls without parameters
+ * stream no input at all.
+ */
+function parseToolInput(json: string | undefined): { input: unknown } | { error: string } {
+  if (!json) return { input: {} };
+  try {
+    return { input: JSON.parse(json) };
+  } catch (error) {
+    return { error: `Invalid JSON in tool input: ${(error as Error).message}` };
+  }
+}
 
 export interface AgentLoopOptions extends AnthropicClientOptions {
   /** Default working directory */
@@ -27,6 +105,14 @@ export interface AgentLoopOptions extends AnthropicClientOptions {
   toolTimeout?: number;
   /** Enable JSONL transcript writing (default: true) */
   transcripts?: boolean;
+  /** Snapshot files before Write/Edit changes so turns can be rewound; `true` or options enable it (default: off) */
+  checkpoints?: boolean | CheckpointOptions;
+  /** Ledger recording token usage and cost per request; share one to combine loops in a report */
+  usageLedger?: UsageLedger;
+  /** Price table for the loop's own ledger (ignored when usageLedger is given) */
+  prices?: PriceTable;
+  /** Set when the loop runs as a worker: usage is tagged with its ID and counted in the parent session */
+  worker?: { id: string; parentSessionId?: string };
 }
 
 /**
@@ -44,10 +130,19 @@ export class AgentLoop {
   private defaultWorkingDir: string;
   private cancelled = false;
   private transcriptWriter: TranscriptWriter;
+  private checkpointDir: string | null;
+  private checkpointStore: CheckpointStore | null = null;
+  private usageLedger: UsageLedger;
+  private clientOptions: AnthropicClientOptions;
+  private worker: { id: string; parentSessionId?: string } | null;
 
   // Conversation state - persists across run() calls
   private conversationHistory: Message[] = [];
   private currentSessionId: string | null = null;
+  // Turns taken in the current session, across run() calls
+  private sessionTurn = 0;
+  // Hooks of the session's latest run, or null before its first run (SessionStart not yet fired)
+  private sessionHooks: HookRegistry | null = null;
 
   constructor(options: AgentLoopOptions = {}) {
     this.client = new AnthropicClient(options);
@@ -57,14 +152,48 @@ export class AgentLoop {
       cwd: this.defaultWorkingDir,
       enabled: options.transcripts ?? true,
     });
+
+    // Opt-in: backups are kept under the checkpoint directory with no pruning
+    const checkpoints =
+      typeof options.checkpoints === 'object' ? options.checkpoints : { enabled: options.checkpoints ?? false };
+    this.checkpointDir = checkpoints.enabled === false ? null : (checkpoints.dir ?? getDefaultCheckpointDir());
+
+    this.usageLedger = options.usageLedger ?? new UsageLedger({ prices: options.prices });
+    const { credentialsPath, tokenRefreshUrl, additionalBetas, timeout, retry, auth, baseUrl } = options;
+    this.clientOptions = { credentialsPath, tokenRefreshUrl, additionalBetas, timeout, retry, auth, baseUrl };
+    this.worker = options.worker ?? null;
   }
 
   /**
    * Clear conversation history and start fresh.
    */
   clearHistory(): void {
+    this.endSession('clear');
     this.conversationHistory = [];
     this.currentSessionId = null;
+    this.sessionTurn = 0;
+  }
+
+  /**
+   * Release per-session resources (the persistent Bash shell and file read
+   * state). History is kept; a later run() starts a fresh shell, and files
+   * must be read again before they can be edited.
+   */
+  close(): void {
+    this.endSession('close');
+  }
+
+  /**
+   * Release per-session resources and fire SessionEnd. A later run() fires
+   * SessionStart again.
+   */
+  private endSession(reason: 'close' | 'clear'): void {
+    if (this.currentSessionId) {
+      closeShellSession(this.currentSessionId);
+      clearFileState(this.currentSessionId);
+      void this.sessionHooks?.run('SessionEnd', { sessionId: this.currentSessionId, reason });
+    }
+    this.sessionHooks = null;
   }
 
   /**
@@ -81,6 +210,58 @@ export class AgentLoop {
     return this.currentSessionId;
   }
 
+  /**
+   * Aggregate token usage and cost recorded by this loop's ledger (including
+   * workers sharing it), optionally for one session.
+   */
+  getUsageReport(sessionId?: string): UsageReport {
+    return this.usageLedger.getReport(sessionId);
+  }
+
+  /**
+   * Get the usage ledger, e.g. to share it with other loops.
+   */
+  getUsageLedger(): UsageLedger {
+    return this.usageLedger;
+  }
+
+  /**
+   * List the checkpoints of the current session, oldest first.
+   * Each one marks the start of an agent turn and the files that turn changed.
+   */
+  async listCheckpoints(): Promise<Checkpoint[]> {
+    return (await this.getCheckpointStore()?.list()) ?? [];
+  }
+
+  /**
+   * Undo a turn and everything after it: files changed since the start of
+   * the turn are restored (or removed if they were created), and the
+   * conversation history and transcript are cut back to the messages sent
+   * with that turn's request.
+   */
+  async rewindTo(turn: number): Promise<RewindResult> {
+    const store = this.getCheckpointStore();
+    if (!store || !this.currentSessionId) {
+      throw new Error(this.checkpointDir ? 'No active session to rewind' : 'Checkpoints are disabled');
+    }
+
+    const checkpoint = (await store.list()).find((c) => c.turn === turn);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint for turn ${turn}`);
+    }
+    if (checkpoint.compacted || checkpoint.messageCount > this.conversationHistory.length) {
+      throw new Error(`Cannot rewind to turn ${turn}: the conversation has been compacted since`);
+    }
+
+    const { restoredFiles, deletedFiles } = await store.restore(turn);
+
+    this.conversationHistory = this.conversationHistory.slice(0, checkpoint.messageCount);
+    this.sessionTurn = turn - 1;
+    await this.transcriptWriter.truncateTranscript(this.currentSessionId, checkpoint.messageCount);
+
+    return { turn, messageCount: checkpoint.messageCount, restoredFiles, deletedFiles };
+  }
+
   /**
    * Register tools with the agent.
    */
@@ -104,6 +285,13 @@ export class AgentLoop {
 
     this.conversationHistory = result.messages;
     this.currentSessionId = sessionId;
+    this.sessionHooks = null;
+    const checkpoints = (await this.getCheckpointStore()?.list()) ?? [];
+    this.sessionTurn = checkpoints.length > 0 ? checkpoints[checkpoints.length - 1].turn : 0;
+    const usage = await this.transcriptWriter.loadUsageSummary(sessionId);
+    if (usage) {
+      this.usageLedger.restore(sessionId, usage);
+    }
     console.log(`[AgentLoop] Loaded session ${sessionId} with ${result.messages.length} messages`);
     
     if (result.truncation.truncated) {
@@ -133,14 +321,24 @@ export class AgentLoop {
    * The conversation history is updated after each run completes.
    */
   async *run(params: RunParams): AsyncGenerator<AgentEvent> {
+    for await (const event of this.runTurns(params)) {
+      // Transcript writes are queued; the run isn't done until they land
+      if (event.type === 'done') {
+        await this.transcriptWriter.flush();
+      }
+      yield event;
+    }
+  }
+
+  private async *runTurns(params: RunParams): AsyncGenerator<AgentEvent> {
     this.cancelled = false;
 
     const {
-      messages: newMessages,
+      messages: submittedMessages,
       system,
       model = 'claude-sonnet-4-5-20250929',
       tools = [],
-      hooks = new HookRegistry(),
+      hooks: hookConfig = new HookRegistry(),
       maxTurns = Infinity,
       maxTokens = 16384,
       thinking = { enabled: true, budgetTokens: 10000 },
@@ -149,7 +347,19 @@ export class AgentLoop {
       abortSignal,
       autoCompact = { enabled: false },
       maxContextTokens = 200_000,
+      parallelTools = { enabled: false },
+      permissions: permissionConfig,
+      toolProgress = {},
+      toolResultElision = { enabled: false },
+      overflowRecovery = {},
+      budget: budgetConfig,
+      outputSchema,
+      outputRepairAttempts = 2,
+      redaction,
+      sandbox,
     } = params;
+    // May change during the run (budget downgrade)
+    let activeModel = model;
 
     // Session management: reuse existing or create new
     if (this.currentSessionId === null) {
@@ -157,19 +367,162 @@ export class AgentLoop {
     }
     const sessionId = this.currentSessionId;
 
-    // Auto-compact configuration
-    const compactThreshold = (autoCompact.thresholdPercent ?? 80) / 100;
+    // Resolve hooks (may load command hooks from a settings file)
+    let hooks: HookRegistry;
+    try {
+      hooks = hookConfig instanceof HookRegistry ? hookConfig : await HookRegistry.fromConfig(hookConfig);
+    } catch (error) {
+      yield { type: 'error', error: error as Error };
+      yield {
+        type: 'done',
+        totalUsage: { input_tokens: 0, output_tokens: 0 },
+        stopReason: 'error',
+        turnCount: 0,
+        sessionId,
+      };
+      return;
+    }
+
+    if (!this.sessionHooks) {
+      await hooks.run('SessionStart', { sessionId, source: this.conversationHistory.length > 0 ? 'resume' : 'new' });
+    }
+    this.sessionHooks = hooks;
+
+    // Hooks may rewrite or reject the incoming messages
+    const submit = await hooks.run('UserPromptSubmit', { sessionId, messages: submittedMessages });
+    if (!submit.allow) {
+      yield { type: 'error', error: new Error(`Prompt rejected: ${submit.reason}`) };
+      yield {
+        type: 'done',
+        totalUsage: { input_tokens: 0, output_tokens: 0 },
+        stopReason: 'blocked',
+        turnCount: 0,
+        sessionId,
+      };
+      return;
+    }
+    const newMessages = (submit.modified as Message[] | undefined) ?? submittedMessages;
+
+    // Workers are handed the tracker itself, so their usage counts too
+    const budget =
+      budgetConfig instanceof BudgetTracker ? budgetConfig : budgetConfig ? new BudgetTracker(budgetConfig) : null;
+    const warnedLimits = new Set<string>();
+
+    // Running out of time aborts the request or tool calls in progress;
+    // the budget check before the next request then ends the run
+    const maxDurationMs = budget?.config.maxDurationMs;
+    const timeLimit =
+      budget && maxDurationMs !== undefined
+        ? AbortSignal.timeout(Math.max(0, maxDurationMs - budget.getUsage().durationMs))
+        : null;
+    const signal = timeLimit && abortSignal ? AbortSignal.any([abortSignal, timeLimit]) : (timeLimit ?? abortSignal);
+
+    const redactor =
+      redaction instanceof SecretRedactor ? redaction : redaction ? new SecretRedactor(redaction) : null;
+
+    // Auto-compact configuration; the threshold also triggers pre-flight elision
+    const contextTracker = new ContextTracker(maxContextTokens);
+    contextTracker.setThresholds({ autoCompact: (autoCompact.thresholdPercent ?? 80) / 100 });
+    const onCompactionUsage = (usage: Usage, compactionModel: string) => {
+      const record = this.recordUsage(sessionId, {
+        model: compactionModel,
+        turn: this.sessionTurn,
+        kind: 'compaction',
+        causedBy: [],
+        usage,
+      });
+      budget?.add(record);
+    };
+    const compact =
+      autoCompact.onCompact ??
+      createCompactor(this.client, {
+        model: autoCompact.model ?? model,
+        keepRecentTurns: autoCompact.keepRecentTurns,
+        instructions: autoCompact.instructions,
+        onUsage: onCompactionUsage,
+      });
+
+    // Overflow recovery compacts down to the latest turn, since the configured
+    // number of kept turns may be what no longer fits
+    const recoverOverflow = overflowRecovery.enabled !== false;
+    const compactForRecovery =
+      autoCompact.onCompact ??
+      createCompactor(this.client, {
+        model: autoCompact.model ?? model,
+        keepRecentTurns: 1,
+        instructions: autoCompact.instructions,
+        onUsage: onCompactionUsage,
+      });
+    let continuations = 0;
+
+    // Structured output: the answer arrives as a call to a terminal tool
+    const outputTool = outputSchema ? createOutputTool(outputSchema) : null;
+    let output: { value: unknown } | null = null;
+    let outputFailures = 0;
+
+    // Limits how many read-only tools execute at once when parallel mode is on
+    const limitTools = createLimiter(parallelTools.maxConcurrency ?? 5);
 
     // Register tools for this run
     const toolRegistry = new ToolRegistry();
     toolRegistry.registerAll([...this.toolRegistry.getAll(), ...tools]);
 
+    // Files are backed up into the current turn's checkpoint before tools change them
+    const checkpoints = this.getCheckpointStore();
+    let checkpointTurn = 0;
+
+    // Resolve permission rules (may load a settings file)
+    let permissions: PermissionManager | null = null;
+    if (permissionConfig) {
+      try {
+        permissions =
+          permissionConfig instanceof PermissionManager
+            ? permissionConfig
+            : await PermissionManager.fromConfig(permissionConfig);
+      } catch (error) {
+        yield { type: 'error', error: error as Error };
+        yield {
+          type: 'done',
+          totalUsage: { input_tokens: 0, output_tokens: 0 },
+          stopReason: 'error',
+          turnCount: 0,
+          sessionId,
+        };
+        return;
+      }
+    }
+
     // Build tool context
     const toolContext: ToolContext = {
       workingDir,
       sessionId,
       hooks,
-      abortSignal,
+      abortSignal: signal,
+      usageLedger: this.usageLedger,
+      clientOptions: this.clientOptions,
+      ...(budget && { budget }),
+      ...(permissions && { permissions }),
+      ...(redactor && { redactor }),
+      ...(sandbox && { sandbox }),
+      ...(checkpoints && {
+        beforeFileChange: (filePath: string) =>
+          checkpoints.snapshot(checkpointTurn, filePath).catch((err) => {
+            console.error(`[AgentLoop] Failed to checkpoint ${filePath}:`, err);
+          }),
+      }),
+    };
+
+    const toolScope: ToolExecutionScope = {
+      registry: toolRegistry,
+      context: toolContext,
+      hooks,
+      permissions,
+      redactor,
+      progress: toolProgress.enabled === false ? null : new ProgressChannel<ToolProgressEvent>(),
+      progressOptions: {
+        intervalMs: toolProgress.intervalMs ?? 250,
+        maxChars: toolProgress.maxChars ?? 4000,
+      },
     };
 
     // Build conversation: existing history + new messages
@@ -179,6 +532,8 @@ export class AgentLoop {
       ? [...this.conversationHistory, ...newMessages]
       : [...newMessages];
     let turnNumber = 0;
+    // Tools whose results the next request carries, for usage attribution
+    let causedBy: string[] = [];
 
     // Update transcript writer cwd if different
     this.transcriptWriter.setCwd(workingDir);
@@ -207,67 +562,233 @@ export class AgentLoop {
       { once: true }
     );
 
+    // Replace stale tool results with placeholders, in place
+    const elide = (options: ElisionOptions): ElideEvent | null => {
+      const elision = elideToolResults(messages, options);
+      if (elision.elided === 0) return null;
+      messages = elision.messages;
+      this.conversationHistory = [...messages];
+      return { type: 'elide', toolResults: elision.elided, charsSaved: elision.charsSaved, sessionId };
+    };
+
+    // Compact the conversation, in place; compaction failures are logged, not fatal
+    const compactNow = async (trigger: 'auto' | 'overflow', compactor = compact): Promise<CompactEvent | null> => {
+      const previousCount = messages.length;
+      const preCompact = await hooks.run('PreCompact', { sessionId, trigger, messages });
+      if (!preCompact.allow) return null;
+      try {
+        const compacted = await compactor(messages, sessionId);
+        if (compacted === messages) return null;
+        await this.recordCompaction(sessionId, messages, compacted);
+        messages = compacted;
+        // Update history with compacted messages
+        this.conversationHistory = [...messages];
+        return { type: 'compact', previousMessageCount: previousCount, newMessageCount: messages.length, sessionId };
+      } catch (error) {
+        console.error('[AgentLoop] Auto-compact failed:', error);
+        return null;
+      }
+    };
+
+    // Add a user message the loop generated (reminders, Stop hook feedback)
+    const appendUserMessage = (content: string) => {
+      messages = [...messages, { role: 'user', content }];
+      this.transcriptWriter.writeUserMessage(sessionId, content).catch((err) => {
+        console.error('[AgentLoop] Failed to write user message to transcript:', err);
+      });
+      this.conversationHistory = [...messages];
+    };
+    let stopHookActive = false;
+
+    // Warn when a budget limit gets close (switching models if configured),
+    // and report the limit that ran out, if any
+    const checkBudget = (): BudgetEvent[] => {
+      if (!budget) return [];
+      const { warnings, exceeded } = budget.check();
+      if (exceeded) {
+        return [{ type: 'budget', level: 'exceeded', ...exceeded, sessionId }];
+      }
+
+      const events: BudgetEvent[] = [];
+      for (const warning of warnings) {
+        if (warnedLimits.has(warning.limit)) continue;
+        warnedLimits.add(warning.limit);
+        const downgradeModel = budget.config.downgradeModel;
+        const downgrade = downgradeModel && downgradeModel !== activeModel;
+        if (downgrade) activeModel = downgradeModel;
+        events.push({
+          type: 'budget',
+          level: 'warning',
+          ...warning,
+          ...(downgrade && { downgradedTo: downgradeModel }),
+          sessionId,
+        });
+      }
+      return events;
+    };
+
     // Main loop
     while (turnNumber < maxTurns && !this.cancelled) {
+      // Enforce the budget before each request
+      for (const event of checkBudget()) {
+        yield event;
+        if (event.level === 'exceeded') {
+          yield {
+            type: 'done',
+            totalUsage,
+            stopReason: 'budget_exceeded',
+            turnCount: turnNumber,
+            sessionId,
+          };
+          return;
+        }
+      }
+
       turnNumber++;
 
       try {
+        const turn = ++this.sessionTurn;
+        if (checkpoints) {
+          checkpointTurn = turn;
+          await checkpoints.create(checkpointTurn, messages.length).catch((err) => {
+            console.error('[AgentLoop] Failed to create checkpoint:', err);
+          });
+        }
+
+        // Replace stale tool output with placeholders before sending
+        if (toolResultElision.enabled) {
+          const event = elide({ ...toolResultElision, workingDir });
+          if (event) yield event;
+        }
+
         // Build API request
         // Include both regular tools and server-side tools (like web_search)
         const regularTools = toolRegistry.getAll().map(toAPIToolDefinition);
         const apiTools = [
           ...regularTools,
+          ...(outputTool ? [outputTool.definition] : []),
           getWebSearchAPITool(), // Add web search server-side tool
         ];
         const thinkingConfig: ThinkingConfig | undefined = thinking.enabled
           ? { type: 'enabled', budget_tokens: thinking.budgetTokens ?? 10000 }
           : undefined;
+        const buildRequest = (): MessageParams => ({
+          model: activeModel,
+          messages,
+          max_tokens: maxTokens,
+          system,
+          tools: apiTools.length > 0 ? apiTools : undefined,
+          thinking: thinkingConfig,
+        });
+
+        // Pre-flight: shrink the conversation before the request can overflow,
+        // eliding more aggressively first, then compacting
+        if (
+          (autoCompact.enabled || toolResultElision.enabled) &&
+          (await this.exceedsContext(buildRequest(), contextTracker))
+        ) {
+          const elided = toolResultElision.enabled ? elide({ ...toolResultElision, workingDir, keepRecentTurns: 1 }) : null;
+          if (elided) yield elided;
+
+          if (autoCompact.enabled && (!elided || (await this.exceedsContext(buildRequest(), contextTracker)))) {
+            const compacted = await compactNow('auto');
+            if (compacted) yield compacted;
+          }
+        }
 
         // Stream the response
-        const accumulated: AccumulatedContent[] = [];
-        let currentBlockIndex = -1;
+        let accumulated: AccumulatedContent[] = [];
         let stopReason: string | null = null;
         let turnUsage: Usage = {
           input_tokens: 0,
           output_tokens: 0,
         };
 
-        for await (const event of this.client.streamMessage({
-          model,
-          messages,
-          max_tokens: maxTokens,
-          system,
-          tools: apiTools.length > 0 ? apiTools : undefined,
-          thinking: thinkingConfig,
-        })) {
-          if (this.cancelled) break;
+        for (let attempt = 1; ; attempt++) {
+          try {
+            // Hooks may inspect, rewrite or veto the request
+            const preRequest = await hooks.run('PreRequest', { sessionId, turn, params: buildRequest() });
+            if (!preRequest.allow) {
+              yield { type: 'error', error: new Error(`Request blocked: ${preRequest.reason}`) };
+              yield {
+                type: 'done',
+                totalUsage,
+                stopReason: 'blocked',
+                turnCount: turnNumber,
+                sessionId,
+              };
+              return;
+            }
 
-          const agentEvent = this.processStreamEvent(
-            event,
-            accumulated,
-            currentBlockIndex
-          );
+            let currentBlockIndex = -1;
+            for await (const event of this.client.streamMessage(preRequest.modified as MessageParams, {
+              signal,
+            })) {
+              if (this.cancelled) break;
 
-          if (agentEvent) {
-            // Update current block index for deltas
-            if (event.type === 'content_block_start') {
-              currentBlockIndex = event.index;
-            }
+              const agentEvent = this.processStreamEvent(
+                event,
+                accumulated,
+                currentBlockIndex
+              );
 
-            yield agentEvent;
-          }
+              if (agentEvent) {
+                // Update current block index for deltas
+                if (event.type === 'content_block_start') {
+                  currentBlockIndex = event.index;
+                }
 
-          // Track message completion
-          if (event.type === 'message_start') {
-            turnUsage = event.message.usage;
-          }
+                yield agentEvent;
+              }
+
+              // Track message completion
+              if (event.type === 'message_start') {
+                turnUsage = event.message.usage;
+              }
+
+              if (event.type === 'message_delta') {
+                stopReason = event.delta.stop_reason;
+                turnUsage.output_tokens = event.usage.output_tokens;
+              }
+            }
+            break;
+          } catch (error) {
+            if (!(error instanceof PromptTooLongError) || accumulated.length > 0) {
+              throw error;
+            }
 
-          if (event.type === 'message_delta') {
-            stopReason = event.delta.stop_reason;
-            turnUsage.output_tokens = event.usage.output_tokens;
+            // The conversation no longer fits: elide all but the latest tool
+            // results, or failing that compact, and send the turn again
+            const shrunk =
+              recoverOverflow && attempt <= (overflowRecovery.maxAttempts ?? 2)
+                ? (elide({ ...toolResultElision, workingDir, keepRecentTurns: 1 }) ??
+                  (await compactNow('overflow', compactForRecovery)))
+                : null;
+            if (!shrunk) {
+              yield { type: 'error', error };
+              yield {
+                type: 'done',
+                totalUsage,
+                stopReason: 'context_overflow',
+                turnCount: turnNumber,
+                sessionId,
+              };
+              return;
+            }
+            yield shrunk;
+            accumulated = [];
           }
         }
 
+        const record = this.recordUsage(sessionId, {
+          model: activeModel,
+          turn,
+          kind: 'turn',
+          causedBy,
+          usage: turnUsage,
+        });
+        budget?.add(record);
+
         if (this.cancelled) {
           yield {
             type: 'done',
@@ -306,7 +827,7 @@ export class AgentLoop {
         // Write assistant message to transcript with usage data (async, don't await)
         this.transcriptWriter.writeAssistantMessage(
           sessionId,
-          model,
+          activeModel,
           `msg_${randomUUID().replace(/-/g, '').slice(0, 24)}`,
           assistantContent,
           turnUsage,
@@ -318,29 +839,54 @@ export class AgentLoop {
         // Persist conversation history after each turn
         this.conversationHistory = [...messages];
 
-        // Check for auto-compact
-        if (autoCompact.enabled && autoCompact.onCompact) {
-          // Estimate context usage from total input tokens
-          // input_tokens already includes the context, cache_read doesn't count toward limit
-          const effectiveTokens = turnUsage.input_tokens - (turnUsage.cache_read_input_tokens ?? 0);
-          const contextPercent = effectiveTokens / maxContextTokens;
-
-          if (contextPercent >= compactThreshold) {
-            const previousCount = messages.length;
-            try {
-              messages = await autoCompact.onCompact(messages, sessionId);
-              // Update history with compacted messages
-              this.conversationHistory = [...messages];
-              yield {
-                type: 'compact',
-                previousMessageCount: previousCount,
-                newMessageCount: messages.length,
-                sessionId,
-              };
-            } catch (error) {
-              // Log but don't fail on compaction errors
-              console.error('[AgentLoop] Auto-compact failed:', error);
-            }
+        await hooks.run('PostResponse', {
+          sessionId,
+          turn,
+          message: { role: 'assistant', content: assistantContent },
+          stopReason,
+          usage: turnUsage,
+        });
+
+        // A tool call cut off by max_tokens can't run. Answer it with an error
+        // so the model retries in smaller steps, instead of ending the run
+        const lastBlock = accumulated.filter((c) => c !== undefined).at(-1);
+        let truncatedToolUse: AccumulatedContent | null = null;
+        if (
+          stopReason === 'max_tokens' &&
+          lastBlock?.type === 'tool_use' &&
+          recoverOverflow &&
+          continuations < (overflowRecovery.maxContinuations ?? 3)
+        ) {
+          truncatedToolUse = lastBlock;
+          continuations++;
+          stopReason = 'tool_use';
+        }
+
+        // A final answer without the output tool doesn't count; ask for it
+        if (stopReason === 'end_turn' && outputTool) {
+          if (++outputFailures > outputRepairAttempts) {
+            yield { type: 'error', error: new Error(`No ${OUTPUT_TOOL_NAME} call after ${outputFailures} responses`) };
+            yield {
+              type: 'done',
+              totalUsage,
+              stopReason: 'invalid_output',
+              turnCount: turnNumber,
+              sessionId,
+            };
+            return;
+          }
+
+          appendUserMessage(OUTPUT_REMINDER);
+          continue;
+        }
+
+        // Stop hooks can keep the agent working, e.g. until tests pass
+        if (stopReason === 'end_turn') {
+          const stop = await hooks.run('Stop', { sessionId, turnCount: turnNumber, messages, stopHookActive });
+          if (!stop.allow) {
+            appendUserMessage(`Stop hook feedback: ${stop.reason}`);
+            stopHookActive = true;
+            continue;
           }
         }
 
@@ -359,109 +905,52 @@ export class AgentLoop {
         // Execute tools if stop_reason is tool_use
         if (stopReason === 'tool_use') {
           const toolUses = accumulated.filter(
-            (c): c is AccumulatedContent & { type: 'tool_use' } =>
+            (c): c is AccumulatedToolUse =>
               c.type === 'tool_use' && !!c.id && !!c.name
           );
 
           const toolResults: ContentBlock[] = [];
 
-          for (const toolUse of toolUses) {
-            // Parse input JSON
-            let input: unknown;
-            try {
-              input = toolUse.input ? JSON.parse(toolUse.input) : {};
-            } catch {
-              input = {};
-            }
-
-            // Run pre-hook
-            const preHookResult = await hooks.run('PreToolUse', {
-              tool: toolUse.name!,
-              input,
-            });
-
-            if (!preHookResult.allow) {
-              yield {
-                type: 'tool_result',
-                id: toolUse.id!,
-                name: toolUse.name!,
-                content: `Tool blocked: ${preHookResult.reason ?? 'Unknown reason'}`,
-                is_error: true,
-              };
-
-              toolResults.push({
-                type: 'tool_result',
-                tool_use_id: toolUse.id!,
-                content: `Tool blocked: ${preHookResult.reason ?? 'Unknown reason'}`,
-                is_error: true,
-              });
-              continue;
-            }
-
-            // Apply modified input if hook changed it
-            const effectiveInput = preHookResult.modified ?? input;
-
-            // Execute the tool
-            try {
-              const result = await toolRegistry.execute(
-                toolUse.name!,
-                effectiveInput,
-                toolContext
+          // Read-only tools in a batch run concurrently; results are still
+          // yielded in the order the model requested them
+          for (const batch of this.planToolBatches(toolUses, toolRegistry, parallelTools.enabled)) {
+            const pending = batch.map((toolUse) => {
+              if (toolUse === truncatedToolUse) {
+                return Promise.resolve(this.truncatedToolOutcome(toolUse));
+              }
+              if (outputTool && toolUse.name === OUTPUT_TOOL_NAME) {
+                const { outcome, value } = this.submitOutput(toolUse, outputTool);
+                if (value) output = value;
+                else outputFailures++;
+                return Promise.resolve(outcome);
+              }
+              return limitTools(() => this.executeToolUse(toolUse, toolScope)).then((outcome) =>
+                toolScope.redactor ? this.redactOutcome(outcome, toolScope.redactor) : outcome
               );
+            });
 
-              yield {
-                type: 'tool_result',
-                id: toolUse.id!,
-                name: toolUse.name!,
-                content: result.content,
-                is_error: result.is_error ?? false,
-              };
-
-              // Format content for API - convert ToolResultContent to string if needed
-              let apiContent =
-                typeof result.content === 'string'
-                  ? result.content
-                  : this.toolResultContentToString(result.content);
-
-              // Run post-hook - allows appending content to result
-              const hookResult = await hooks.run('PostToolUse', {
-                tool: toolUse.name!,
-                input: effectiveInput,
-                result: result.content,
-                is_error: result.is_error ?? false,
-              });
-              
-              // If hook returned content to append, add it to the tool result
-              if (hookResult.appendToResult) {
-                apiContent += '\n\n' + hookResult.appendToResult;
+            for (const outcome of pending) {
+              // Relay progress from running tools until this one settles
+              if (toolScope.progress) {
+                let settled = false;
+                const done = outcome.then(() => {
+                  settled = true;
+                });
+                while (!settled) {
+                  await Promise.race([done, toolScope.progress.wait()]);
+                  yield* toolScope.progress.drain();
+                }
+                yield* toolScope.progress.drain();
               }
 
-              toolResults.push({
-                type: 'tool_result',
-                tool_use_id: toolUse.id!,
-                content: apiContent,
-                is_error: result.is_error,
-              });
-            } catch (error) {
-              const errorMessage = `Error: ${(error as Error).message}`;
-
-              yield {
-                type: 'tool_result',
-                id: toolUse.id!,
-                name: toolUse.name!,
-                content: errorMessage,
-                is_error: true,
-              };
-
-              toolResults.push({
-                type: 'tool_result',
-                tool_use_id: toolUse.id!,
-                content: errorMessage,
-                is_error: true,
-              });
+              const { event, block } = await outcome;
+              yield event;
+              toolResults.push(block);
             }
           }
 
+          causedBy = toolUses.map((toolUse) => toolUse.name!);
+
           // Add tool results to messages
           messages = [
             ...messages,
@@ -475,17 +964,46 @@ export class AgentLoop {
 
           // Persist conversation history after tool results
           this.conversationHistory = [...messages];
+
+          if (output) {
+            yield {
+              type: 'done',
+              totalUsage,
+              stopReason: 'end_turn',
+              turnCount: turnNumber,
+              sessionId,
+              output: output.value,
+            };
+            return;
+          }
+          if (outputFailures > outputRepairAttempts) {
+            yield { type: 'error', error: new Error(`${OUTPUT_TOOL_NAME} failed validation ${outputFailures} times`) };
+            yield {
+              type: 'done',
+              totalUsage,
+              stopReason: 'invalid_output',
+              turnCount: turnNumber,
+              sessionId,
+            };
+            return;
+          }
         }
       } catch (error) {
-        yield {
-          type: 'error',
-          error: error as Error,
-        };
+        // A request aborted for running out of time ends at the budget check
+        if (timeLimit?.aborted && !this.cancelled) continue;
+
+        // Aborting during a retry backoff rejects the request; that's a cancellation
+        if (!this.cancelled) {
+          yield {
+            type: 'error',
+            error: error as Error,
+          };
+        }
 
         yield {
           type: 'done',
           totalUsage,
-          stopReason: 'end_turn',
+          stopReason: this.cancelled ? 'cancelled' : 'end_turn',
           turnCount: turnNumber,
           sessionId,
         };
@@ -503,6 +1021,107 @@ export class AgentLoop {
     };
   }
 
+  /**
+   * Result for a tool call whose input was cut off by the output token limit.
+   */
+  private truncatedToolOutcome(toolUse: AccumulatedToolUse): ToolExecutionOutcome {
+    const content =
+      `Error: Your response hit the output token limit while writing the input for this ${toolUse.name} call, ` +
+      'so it was not run. Retry with smaller input, e.g. by splitting large file content across several calls.';
+    return {
+      event: { type: 'tool_result', id: toolUse.id!, name: toolUse.name!, content, is_error: true },
+      block: { type: 'tool_result', tool_use_id: toolUse.id!, content, is_error: true },
+    };
+  }
+
+  /**
+   * Validate a call to the structured output tool. The call isn't executed
+   * (and skips hooks and permissions); an accepted answer ends the run.
+   */
+  private submitOutput(
+    toolUse: AccumulatedToolUse,
+    outputTool: OutputTool
+  ): { outcome: ToolExecutionOutcome; value: { value: unknown } | null } {
+    const parsed = parseToolInput(toolUse.input);
+    const validation: OutputValidation =
+      'error' in parsed ? { valid: false, error: parsed.error } : outputTool.validate(parsed.input);
+    const content = validation.valid ? 'Output accepted.' : validation.error;
+    const isError = !validation.valid;
+    return {
+      outcome: {
+        event: { type: 'tool_result', id: toolUse.id!, name: toolUse.name!, content, is_error: isError },
+        block: { type: 'tool_result', tool_use_id: toolUse.id!, content, is_error: isError },
+      },
+      value: validation.valid ? { value: validation.value } : null,
+    };
+  }
+
+  /**
+   * Whether a request would cross the auto-compact threshold. Requests the
+   * local estimate puts well below it are not sent to count_tokens.
+   */
+  private async exceedsContext(request: MessageParams, tracker: ContextTracker): Promise<boolean> {
+    const threshold = tracker.getContextWindow() * tracker.getThresholds().autoCompact;
+    if (estimateRequestTokens(request) < threshold / 2) {
+      return false;
+    }
+
+    const { input_tokens } = await this.client.countTokens(request);
+    tracker.reset();
+    tracker.update({ input_tokens, output_tokens: 0 });
+    return tracker.getStatus().shouldAutoCompact;
+  }
+
+  /**
+   * Record a request's usage in the ledger. Worker usage counts toward the
+   * parent session; the session that owns the records saves the aggregate
+   * next to its transcript.
+   */
+  private recordUsage(
+    sessionId: string,
+    entry: Pick<UsageEntry, 'model' | 'turn' | 'kind' | 'causedBy' | 'usage'>
+  ): UsageRecord {
+    const ledgerSessionId = this.worker?.parentSessionId ?? sessionId;
+    const record = this.usageLedger.record({ ...entry, sessionId: ledgerSessionId, workerId: this.worker?.id ?? null });
+
+    if (ledgerSessionId === sessionId) {
+      this.transcriptWriter.writeUsageSummary(sessionId, this.usageLedger.getReport(sessionId)).catch((err) => {
+        console.error('[AgentLoop] Failed to write usage summary:', err);
+      });
+    }
+    return record;
+  }
+
+  /**
+   * Persist a compaction: write the boundary to the transcript so a loaded
+   * session resumes from the compacted state, and shift checkpoint message
+   * counts to match. Messages the compactor carried over unchanged keep
+   * their checkpoints rewindable.
+   */
+  private async recordCompaction(sessionId: string, before: Message[], after: Message[]): Promise<void> {
+    this.transcriptWriter.writeCompactBoundary(sessionId, after, before.length).catch((err) => {
+      console.error('[AgentLoop] Failed to write compaction to transcript:', err);
+    });
+
+    const kept = countKeptMessages(before, after);
+    await this.getCheckpointStore()?.rebase(before.length - kept, after.length - kept).catch((err) => {
+      console.error('[AgentLoop] Failed to update checkpoints after compaction:', err);
+    });
+  }
+
+  /**
+   * Get the checkpoint store for the current session, if checkpoints are enabled.
+   */
+  private getCheckpointStore(): CheckpointStore | null {
+    if (!this.checkpointDir || !this.currentSessionId) {
+      return null;
+    }
+    if (this.checkpointStore?.sessionId !== this.currentSessionId) {
+      this.checkpointStore = new CheckpointStore(this.currentSessionId, this.checkpointDir);
+    }
+    return this.checkpointStore;
+  }
+
   /**
    * Cancel the current run.
    */
@@ -620,17 +1239,13 @@ export class AgentLoop {
         }
         // Emit complete tool_use block with full parsed input
         if (acc?.type === 'tool_use' && acc.id && acc.name) {
-          let parsedInput: unknown;
-          try {
-            parsedInput = acc.input ? JSON.parse(acc.input) : {};
-          } catch {
-            parsedInput = {};
-          }
+          // Invalid JSON is reported in the call's tool_result
+          const parsed = parseToolInput(acc.input);
           return {
             type: 'tool_use',
             id: acc.id,
             name: acc.name,
-            input: parsedInput,
+            input: 'input' in parsed ? parsed.input : {},
           };
         }
         return null;
@@ -642,6 +1257,15 @@ export class AgentLoop {
           error: new Error(event.error.message),
         };
 
+      case 'retry':
+        return {
+          type: 'retry',
+          attempt: event.attempt,
+          maxAttempts: event.maxAttempts,
+          delayMs: event.delayMs,
+          error: event.error,
+        };
+
       default:
         return null;
     }
@@ -672,17 +1296,13 @@ export class AgentLoop {
           return textBlock;
         }
         if (c.type === 'tool_use') {
-          let parsedInput: unknown;
-          try {
-            parsedInput = c.input ? JSON.parse(c.input) : {};
-          } catch {
-            parsedInput = {};
-          }
+          // The API requires an object; invalid JSON is reported in the tool_result
+          const parsed = parseToolInput(c.input);
           return {
             type: 'tool_use',
             id: c.id ?? '',
             name: c.name ?? '',
-            input: parsedInput,
+            input: 'input' in parsed ? parsed.input : {},
           };
         }
         if (c.type === 'server_tool_use') {
@@ -712,6 +1332,207 @@ export class AgentLoop {
       });
   }
 
+  /**
+   * Group tool calls into execution batches.
+   * Consecutive read-only tools share a batch (run concurrently); every other
+   * tool gets a batch of its own so mutations stay serialized and ordered.
+   */
+  private planToolBatches(
+    toolUses: AccumulatedToolUse[],
+    toolRegistry: ToolRegistry,
+    parallel: boolean
+  ): AccumulatedToolUse[][] {
+    if (!parallel) {
+      return toolUses.map((toolUse) => [toolUse]);
+    }
+
+    const batches: AccumulatedToolUse[][] = [];
+    let readBatch: AccumulatedToolUse[] = [];
+
+    for (const toolUse of toolUses) {
+      if (toolRegistry.get(toolUse.name!)?.readOnly) {
+        readBatch.push(toolUse);
+        continue;
+      }
+      if (readBatch.length > 0) {
+        batches.push(readBatch);
+        readBatch = [];
+      }
+      batches.push([toolUse]);
+    }
+
+    if (readBatch.length > 0) {
+      batches.push(readBatch);
+    }
+
+    return batches;
+  }
+
+  /**
+   * Execute a single tool call, including its PreToolUse/PostToolUse hooks
+   * and permission check.
+   * Never throws - failures are returned as error results.
+   */
+  private async executeToolUse(
+    toolUse: AccumulatedToolUse,
+    scope: ToolExecutionScope
+  ): Promise<ToolExecutionOutcome> {
+    const { registry: toolRegistry, context: toolContext, hooks, permissions } = scope;
+
+    // Parse input JSON; a call with invalid JSON is not run
+    const parsed = parseToolInput(toolUse.input);
+    if ('error' in parsed) {
+      return {
+        event: { type: 'tool_result', id: toolUse.id!, name: toolUse.name!, content: parsed.error, is_error: true },
+        block: { type: 'tool_result', tool_use_id: toolUse.id!, content: parsed.error, is_error: true },
+      };
+    }
+    const input = parsed.input;
+
+    // Run pre-hook
+    const preHookResult = await hooks.run('PreToolUse', {
+      tool: toolUse.name!,
+      input,
+    });
+
+    if (!preHookResult.allow) {
+      const content = `Tool blocked: ${preHookResult.reason ?? 'Unknown reason'}`;
+      return {
+        event: { type: 'tool_result', id: toolUse.id!, name: toolUse.name!, content, is_error: true },
+        block: { type: 'tool_result', tool_use_id: toolUse.id!, content, is_error: true },
+      };
+    }
+
+    // Apply modified input if hook changed it
+    const effectiveInput = preHookResult.modified ?? input;
+
+    // Check permission rules against the final input
+    if (permissions) {
+      const permission = await permissions.check(toolUse.name!, effectiveInput, toolContext);
+
+      this.transcriptWriter.writePermissionDecision(toolContext.sessionId!, {
+        tool: toolUse.name!,
+        toolUseId: toolUse.id!,
+        input: effectiveInput,
+        decision: permission.decision,
+        allowed: permission.allowed,
+        rule: permission.rule,
+        reason: permission.reason,
+      }).catch((err) => {
+        console.error('[AgentLoop] Failed to write permission decision to transcript:', err);
+      });
+
+      if (!permission.allowed) {
+        const content = `Permission denied: ${permission.reason}`;
+        return {
+          event: { type: 'tool_result', id: toolUse.id!, name: toolUse.name!, content, is_error: true },
+          block: { type: 'tool_result', tool_use_id: toolUse.id!, content, is_error: true },
+        };
+      }
+    }
+
+    // Per-call progress reporting, rate limited
+    const channel = scope.progress;
+    const reporter = channel
+      ? createProgressReporter(
+          (progress) =>
+            channel.push({
+              type: 'tool_progress',
+              id: toolUse.id!,
+              name: toolUse.name!,
+              ...progress,
+              content: scope.redactor ? scope.redactor.redact(progress.content) : progress.content,
+            }),
+          scope.progressOptions
+        )
+      : null;
+    const callContext: ToolContext = reporter
+      ? { ...toolContext, onProgress: (progress) => reporter.report(progress) }
+      : toolContext;
+
+    // Execute the tool
+    try {
+      const result = await toolRegistry
+        .execute(toolUse.name!, effectiveInput, callContext)
+        .finally(() => reporter?.flush());
+
+      // Run post-hook - may rewrite the result, flip is_error or append content
+      const hookResult = await hooks.run('PostToolUse', {
+        tool: toolUse.name!,
+        input: effectiveInput,
+        result: result.content,
+        is_error: result.is_error ?? false,
+      });
+
+      if (!hookResult.allow) {
+        const content = `Tool result blocked: ${hookResult.reason ?? 'Unknown reason'}`;
+        return {
+          event: { type: 'tool_result', id: toolUse.id!, name: toolUse.name!, content, is_error: true },
+          block: { type: 'tool_result', tool_use_id: toolUse.id!, content, is_error: true },
+        };
+      }
+
+      const content = (hookResult.modified as ToolResult['content'] | undefined) ?? result.content;
+      const isError = hookResult.isError ?? result.is_error;
+
+      // Format content for API - convert ToolResultContent to string if needed
+      let apiContent = typeof content === 'string' ? content : this.toolResultContentToString(content);
+
+      // If hook returned content to append, add it to the tool result
+      if (hookResult.appendToResult) {
+        apiContent += '\n\n' + hookResult.appendToResult;
+      }
+
+      return {
+        event: {
+          type: 'tool_result',
+          id: toolUse.id!,
+          name: toolUse.name!,
+          content,
+          is_error: isError ?? false,
+          ...(result.diffs && { diffs: result.diffs }),
+        },
+        block: {
+          type: 'tool_result',
+          tool_use_id: toolUse.id!,
+          content: apiContent,
+          is_error: isError,
+        },
+      };
+    } catch (error) {
+      const errorMessage = `Error: ${(error as Error).message}`;
+      return {
+        event: { type: 'tool_result', id: toolUse.id!, name: toolUse.name!, content: errorMessage, is_error: true },
+        block: { type: 'tool_result', tool_use_id: toolUse.id!, content: errorMessage, is_error: true },
+      };
+    }
+  }
+
+  /**
+   * Replace secrets in a tool result (content and diff lines) before it is
+   * yielded, sent to the API and written to the transcript.
+   */
+  private redactOutcome(outcome: ToolExecutionOutcome, redactor: SecretRedactor): ToolExecutionOutcome {
+    const redactContent = <T extends { type: string; text?: string }>(content: string | T[]) =>
+      typeof content === 'string'
+        ? redactor.redact(content)
+        : content.map((c) => (c.type === 'text' && c.text ? { ...c, text: redactor.redact(c.text) } : c));
+
+    const { event, block } = outcome;
+    const diffs = event.diffs?.map((diff) => ({
+      ...diff,
+      // Keep the ' ', '-' or '+' prefix out of the text so it can't join a token
+      hunks: diff.hunks.map((hunk) => ({
+        ...hunk,
+        lines: hunk.lines.map((line) => line.slice(0, 1) + redactor.redact(line.slice(1))),
+      })),
+    }));
+    return {
+      event: { ...event, content: redactContent(event.content), ...(diffs && { diffs }) },
+      block: block.type === 'tool_result' ? { ...block, content: redactContent(block.content) } : block,
+    };
+  }
+
   /**
    * Convert ToolResultContent array to string for API.
    */
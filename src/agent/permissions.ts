@@ -0,0 +1,698 @@
+/**
+ * Permission system - Declarative allow/deny/ask rules for tool calls.
+ *
+ * Rules use the form `Tool` or `Tool(specifier)`:
+ * - `Read`                     any Read call
+ * - `Bash(git push:*)`         "git push" and "git push" followed by arguments
+ * - `Bash(npm test)`           exactly "npm test" (`*` is a wildcard)
+ * - `Write(src/**)`            file paths matching a glob (relative to the working directory)
+ * - `Edit(.env*)`              patterns without a slash match the file name anywhere
+ * - `ApplyPatch(src/**)`       every file path in the patch must match
+ * - `WebFetch(domain:github.com)` URLs on github.com or its subdomains
+ * - `mcp__github__*`           tool names may use `*`
+ *
+ * Precedence: deny > ask > allow. Calls matching no rule use the default decision.
+ *
+ * `Edit(...)` rules also apply to MultiEdit, and `Edit(...)` and `Write(...)`
+ * rules to every file in an ApplyPatch.
+ *
+ * Bash rules are matched against every simple command in the call, including
+ * those in subshells and command substitutions, with quotes removed, wrappers
+ * like `env`, `sudo`, `timeout` and `xargs` stripped, and git's global options
+ * (`git -C dir push`) dropped. Commands that can't be parsed, whose command
+ * name is an expansion, that define functions, or that run a string as a
+ * command line (`eval`, `sh -c`) need approval.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { homedir } from 'node:os';
+import { createLimiter, type Limiter } from '../utils/concurrency.js';
+import { matchesGlob, globToRegExp } from '../utils/glob.js';
+import { patchFilePaths } from '../utils/patch.js';
+
+export type PermissionDecision = 'allow' | 'deny' | 'ask';
+
+export interface PermissionRules {
+  allow?: string[];
+  deny?: string[];
+  ask?: string[];
+}
+
+export interface PermissionRequest {
+  tool: string;
+  input: unknown;
+  /** The rule that required approval */
+  rule: string;
+  workingDir: string;
+  sessionId?: string;
+}
+
+/**
+ * Callback for "ask" decisions. Resolve true to allow the call.
+ */
+export type PermissionApprovalHandler = (request: PermissionRequest) => Promise<boolean> | boolean;
+
+export interface PermissionConfig extends PermissionRules {
+  /** JSON settings file with rules (`{ "permissions": { "allow": [], "deny": [], "ask": [] } }`) */
+  settingsFile?: string;
+  /** Decision when no rule matches (default: 'allow') */
+  defaultDecision?: PermissionDecision;
+  /** Approval callback for "ask" decisions (falls back to setPermissionHandler) */
+  onAsk?: PermissionApprovalHandler;
+}
+
+export interface PermissionCheckResult {
+  /** Whether the call may proceed */
+  allowed: boolean;
+  /** The decision from the rules (or the default decision) */
+  decision: PermissionDecision;
+  /** The matching rule, if any */
+  rule?: string;
+  /** Human-readable explanation */
+  reason: string;
+}
+
+interface ParsedRule {
+  source: string;
+  decision: PermissionDecision;
+  tool: RegExp;
+  specifier?: string;
+}
+
+interface CallContext {
+  workingDir: string;
+  sessionId?: string;
+}
+
+// Decision precedence, strongest first
+const DECISION_ORDER: PermissionDecision[] = ['deny', 'ask', 'allow'];
+
+const FILE_PATH_TOOLS = new Set(['Read', 'Write', 'Edit', 'MultiEdit', 'NotebookEdit']);
+const SEARCH_PATH_TOOLS = new Set(['Glob', 'Grep']);
+
+// File tools that are also bound by the rules of the tools they generalize
+const RULE_ALIASES: Record<string, string[]> = {
+  MultiEdit: ['Edit'],
+  ApplyPatch: ['Edit', 'Write'],
+};
+
+// Words that open or close compound commands, skipped before the command name
+const SHELL_KEYWORDS = new Set(['!', '{', '}', 'if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', 'time']);
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+// Commands that run their arguments as a command: options that take a value,
+// and operands before the command (timeout's duration)
+const COMMAND_WRAPPERS: Record<string, { valueOptions: string[]; operands?: number }> = {
+  env: { valueOptions: ['-u', '-C', '--unset', '--chdir'] },
+  command: { valueOptions: [] },
+  builtin: { valueOptions: [] },
+  exec: { valueOptions: ['-a'] },
+  nohup: { valueOptions: [] },
+  nice: { valueOptions: ['-n', '--adjustment'] },
+  timeout: { valueOptions: ['-s', '-k', '--signal', '--kill-after'], operands: 1 },
+  sudo: {
+    valueOptions: ['-u', '-g', '-C', '-D', '-h', '-p', '-r', '-t', '-U', '-T', '--user', '--group', '--chdir', '--host'],
+  },
+  xargs: {
+    valueOptions: ['-a', '-d', '-E', '-I', '-L', '-n', '-P', '-s', '--arg-file', '--delimiter', '--max-args', '--max-procs'],
+  },
+};
+
+// Shells whose -c option runs a string as a command line
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh']);
+
+// git options before the subcommand that take a value
+const GIT_VALUE_OPTIONS = new Set(['-C', '-c', '--git-dir', '--work-tree', '--namespace', '--config-env']);
+
+// Global fallback approval handler
+let permissionHandler: PermissionApprovalHandler | null = null;
+
+/**
+ * Parse a rule string like `Bash(git push:*)`.
+ */
+function parseRule(source: string, decision: PermissionDecision): ParsedRule {
+  const match = source.trim().match(/^([^()]+?)(?:\((.*)\))?$/s);
+  if (!match) {
+    throw new Error(`Invalid permission rule: '${source}'`);
+  }
+
+  const [, toolName, specifier] = match;
+  const toolPattern = toolName.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+
+  return {
+    source,
+    decision,
+    tool: new RegExp(`^${toolPattern}$`),
+    specifier: specifier !== undefined && specifier !== '*' && specifier !== '' ? specifier : undefined,
+  };
+}
+
+interface ShellWord {
+  /** The word with quotes and escapes removed */
+  text: string;
+  /** Contains an expansion (`$x`, `${x}`, `$( )`, backticks) or `$'…'` quoting, so its value isn't known */
+  dynamic: boolean;
+}
+
+interface ParsedShellList {
+  /** Simple commands as words */
+  commands: ShellWord[][];
+  /** Index of the closing character (or the end of input) */
+  end: number;
+}
+
+/**
+ * Parse a shell command list up to `closer` (or the end of input) into simple
+ * commands, split on ;, &, &&, |, ||, |& and newlines. Commands in subshells,
+ * `$( )`, backticks and process substitutions are parsed recursively and
+ * returned alongside the command that contains them. Returns null when the
+ * command can't be parsed (unterminated quotes, unbalanced parentheses,
+ * function definitions).
+ */
+function parseShellList(src: string, start: number, closer: ')' | '`' | null): ParsedShellList | null {
+  const commands: ShellWord[][] = [];
+  let words: ShellWord[] = [];
+  let word = '';
+  let inWord = false;
+  let dynamic = false;
+
+  const endWord = () => {
+    if (inWord) words.push({ text: word, dynamic });
+    word = '';
+    inWord = false;
+    dynamic = false;
+  };
+  const endCommand = () => {
+    endWord();
+    if (words.length > 0) commands.push(words);
+    words = [];
+  };
+  // Parse a nested list opened at `from` (`open` characters long); the word
+  // keeps its source. Returns the index of the closing character.
+  const substitute = (from: number, open: number, close: ')' | '`'): number | null => {
+    const inner = parseShellList(src, from + open, close);
+    if (!inner) return null;
+    commands.push(...inner.commands);
+    word += src.slice(from, inner.end + 1);
+    inWord = true;
+    // Process substitutions expand to a file name, not to the command's output
+    dynamic ||= src[from] === '$' || src[from] === '`';
+    return inner.end;
+  };
+
+  for (let i = start; i < src.length; i++) {
+    const c = src[i];
+    let next: number | null = i;
+
+    if (c === closer) {
+      endCommand();
+      return { commands, end: i };
+    } else if (c === "'") {
+      next = src.indexOf("'", i + 1);
+      if (next === -1) return null;
+      word += src.slice(i + 1, next);
+      inWord = true;
+    } else if (c === '"') {
+      inWord = true;
+      let j = i + 1;
+      for (; j < src.length && src[j] !== '"'; j++) {
+        if (src[j] === '\\' && j + 1 < src.length) {
+          word += src[++j];
+        } else if (src.startsWith('$(', j) || src[j] === '`') {
+          // Substitutions run even inside double quotes
+          const end = src[j] === '`' ? substitute(j, 1, '`') : substitute(j, 2, ')');
+          if (end === null) return null;
+          j = end;
+        } else {
+          if (src[j] === '$') dynamic = true;
+          word += src[j];
+        }
+      }
+      if (j >= src.length) return null;
+      next = j;
+    } else if (c === '\\') {
+      if (i + 1 < src.length && src[i + 1] !== '\n') {
+        word += src[i + 1];
+        inWord = true;
+      }
+      next = i + 1;
+    } else if (c === '\n' || c === ';') {
+      endCommand();
+    } else if (c === '|') {
+      if (src[i + 1] === '|' || src[i + 1] === '&') next = i + 1;
+      endCommand();
+    } else if (c === '&') {
+      if (src[i + 1] === '>') {
+        // &> redirection
+        word += '&>';
+        inWord = true;
+        next = i + 1;
+      } else {
+        if (src[i + 1] === '&') next = i + 1;
+        endCommand();
+      }
+    } else if ((c === '<' || c === '>') && src[i + 1] === '(') {
+      next = substitute(i, 2, ')');
+    } else if (c === '<' || c === '>') {
+      // Redirections like 2>&1 are not separators
+      word += c;
+      inWord = true;
+      if (src[i + 1] === '&') {
+        word += '&';
+        next = i + 1;
+      }
+    } else if (c === '$' && src.startsWith('((', i + 1)) {
+      // Arithmetic expansion holds no commands
+      next = src.indexOf('))', i + 3);
+      if (next === -1) return null;
+      word += src.slice(i, ++next + 1);
+      inWord = true;
+      dynamic = true;
+    } else if (c === '$' && src[i + 1] === '(') {
+      next = substitute(i, 2, ')');
+    } else if (c === '$' && src[i + 1] === "'") {
+      // ANSI-C quoting: escapes are decoded by the shell, so the value is unknown
+      for (next = i + 2; next < src.length && src[next] !== "'"; next++) {
+        if (src[next] === '\\') next++;
+      }
+      if (next >= src.length) return null;
+      word += src.slice(i + 2, next);
+      inWord = true;
+      dynamic = true;
+    } else if (c === '$') {
+      word += c;
+      inWord = true;
+      dynamic = true;
+    } else if (c === '`') {
+      next = substitute(i, 1, '`');
+    } else if (c === '(') {
+      // A function definition's body only runs when called, by another name
+      if (inWord || words.length > 0) return null;
+      const inner = parseShellList(src, i + 1, ')');
+      if (!inner) return null;
+      commands.push(...inner.commands);
+      next = inner.end;
+    } else if (c === ')') {
+      return null;
+    } else if (c === '#' && !inWord) {
+      const newline = src.indexOf('\n', i);
+      next = newline === -1 ? src.length : newline - 1;
+    } else if (/\s/.test(c)) {
+      endWord();
+    } else {
+      word += c;
+      inWord = true;
+    }
+
+    if (next === null) return null;
+    i = next;
+  }
+
+  if (closer) return null;
+  endCommand();
+  return { commands, end: src.length };
+}
+
+/**
+ * Drop what runs before the command name: keywords like `if` and `{`,
+ * variable assignments, and wrappers like `env`, `sudo` and `timeout` with
+ * their options. Returns null when the command can't be known: its name is
+ * an expansion, or it runs a string as a command line (`eval`, `sh -c`,
+ * `env -S`) or defines a function.
+ */
+function stripCommandPrefix(words: ShellWord[]): string[] | null {
+  let i = 0;
+  while (i < words.length) {
+    const word = words[i];
+    const wrapper = Object.hasOwn(COMMAND_WRAPPERS, word.text) ? COMMAND_WRAPPERS[word.text] : undefined;
+
+    if (word.dynamic) {
+      return null;
+    } else if (SHELL_KEYWORDS.has(word.text) || ASSIGNMENT.test(word.text)) {
+      i++;
+    } else if (wrapper) {
+      for (i++; i < words.length && words[i].text.startsWith('-'); i++) {
+        const option = words[i].text;
+        if (option === '--') {
+          i++;
+          break;
+        }
+        if (word.text === 'env' && (option.startsWith('--split-string') || /^-[^-]*S/.test(option))) return null;
+        if (wrapper.valueOptions.includes(option)) i++;
+      }
+      i += wrapper.operands ?? 0;
+    } else if (word.text === 'eval' || word.text === 'function') {
+      return null;
+    } else if (SHELLS.has(word.text) && words.slice(i + 1).some((arg) => /^-[A-Za-z]*c[A-Za-z]*$/.test(arg.text))) {
+      return null;
+    } else {
+      break;
+    }
+  }
+  return stripGitOptions(words.slice(i).map((w) => w.text));
+}
+
+/**
+ * Drop git's global options, so `git -C dir push` matches rules for `git push`.
+ */
+function stripGitOptions(words: string[]): string[] {
+  if (words[0] !== 'git') return words;
+  let i = 1;
+  while (i < words.length && words[i].startsWith('-')) {
+    i += GIT_VALUE_OPTIONS.has(words[i]) ? 2 : 1;
+  }
+  return ['git', ...words.slice(i)];
+}
+
+/**
+ * Split a shell command into its simple commands, including those nested in
+ * subshells and command substitutions. Each is returned with quotes removed,
+ * whitespace collapsed and leading wrappers stripped, or null when the command
+ * can't be parsed.
+ */
+function splitShellCommand(command: string): string[] | null {
+  const parsed = parseShellList(command, 0, null);
+  if (!parsed) return null;
+
+  const subjects: string[] = [];
+  for (const words of parsed.commands) {
+    const simple = stripCommandPrefix(words);
+    if (!simple) return null;
+    if (simple.length > 0) subjects.push(simple.join(' '));
+  }
+  return subjects;
+}
+
+/**
+ * Normalize a Bash rule specifier the way commands are: no quotes, single
+ * spaces, no git global options.
+ */
+function normalizeCommandSpecifier(specifier: string): string {
+  const prefix = specifier.endsWith(':*');
+  const words = (prefix ? specifier.slice(0, -2) : specifier).replace(/["']/g, '').trim().split(/\s+/);
+  return stripGitOptions(words).join(' ') + (prefix ? ':*' : '');
+}
+
+/**
+ * Match a command against a Bash specifier: `prefix:*` matches the prefix as
+ * whole words, anything else is an exact pattern where `*` is a wildcard.
+ */
+function matchesCommand(command: string, specifier: string): boolean {
+  if (specifier.endsWith(':*')) {
+    const prefix = specifier.slice(0, -2);
+    return command === prefix || command.startsWith(`${prefix} `);
+  }
+  return matchesWildcard(command, specifier);
+}
+
+function matchesWildcard(text: string, specifier: string): boolean {
+  if (specifier.endsWith(':*')) {
+    return text.startsWith(specifier.slice(0, -2));
+  }
+  const pattern = specifier.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${pattern}$`, 's').test(text);
+}
+
+function matchesPath(filePath: string, specifier: string, workingDir: string): boolean {
+  const absolute = path.resolve(workingDir, filePath);
+
+  if (specifier.startsWith('~/')) {
+    return matchesGlob(absolute, path.join(homedir(), specifier.slice(2)));
+  }
+  if (path.isAbsolute(specifier)) {
+    return matchesGlob(absolute, specifier);
+  }
+
+  // Patterns without a slash match the file name anywhere (gitignore-style)
+  if (!specifier.includes('/')) {
+    return globToRegExp(specifier).test(path.basename(absolute));
+  }
+
+  const relative = path.relative(workingDir, absolute);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return false;
+  }
+  return matchesGlob(relative, specifier);
+}
+
+function matchesDomain(url: string, specifier: string): boolean {
+  if (!specifier.startsWith('domain:')) {
+    return matchesWildcard(url, specifier);
+  }
+
+  const domain = specifier.slice('domain:'.length).toLowerCase();
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return host === domain || host.endsWith(`.${domain}`);
+  } catch {
+    return false;
+  }
+}
+
+export class PermissionManager {
+  private rules: ParsedRule[] = [];
+  private defaultDecision: PermissionDecision;
+  private onAsk?: PermissionApprovalHandler;
+  // Approval prompts are shown one at a time, even for parallel tool calls
+  private askLimiter: Limiter = createLimiter(1);
+
+  constructor(config: Omit<PermissionConfig, 'settingsFile'> = {}) {
+    this.defaultDecision = config.defaultDecision ?? 'allow';
+    this.onAsk = config.onAsk;
+    this.addRules(config);
+  }
+
+  /**
+   * Create a manager from config, loading the settings file if one is given.
+   */
+  static async fromConfig(config: PermissionConfig): Promise<PermissionManager> {
+    const manager = new PermissionManager(config);
+    if (config.settingsFile) {
+      await manager.loadSettingsFile(config.settingsFile);
+    }
+    return manager;
+  }
+
+  /**
+   * Add allow/deny/ask rules.
+   */
+  addRules(rules: PermissionRules): void {
+    for (const decision of DECISION_ORDER) {
+      for (const rule of rules[decision] ?? []) {
+        this.rules.push(parseRule(rule, decision));
+      }
+    }
+  }
+
+  /**
+   * Load rules from a JSON settings file.
+   * Accepts `{ "permissions": { ... } }` or the rule lists at the top level.
+   */
+  async loadSettingsFile(filePath: string): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException;
+      if (err.code === 'ENOENT') {
+        throw new Error(`Permission settings file not found: ${filePath}`);
+      }
+      throw error;
+    }
+
+    const settings = JSON.parse(content) as PermissionRules & {
+      permissions?: PermissionRules & { defaultDecision?: PermissionDecision };
+    };
+    const rules = settings.permissions ?? settings;
+    this.addRules(rules);
+
+    if (settings.permissions?.defaultDecision) {
+      this.defaultDecision = settings.permissions.defaultDecision;
+    }
+  }
+
+  /**
+   * Set the approval callback for "ask" decisions.
+   */
+  setApprovalHandler(handler: PermissionApprovalHandler | undefined): void {
+    this.onAsk = handler;
+  }
+
+  /**
+   * Get the rules as strings, grouped by decision.
+   */
+  getRules(): Required<PermissionRules> {
+    const grouped: Required<PermissionRules> = { allow: [], deny: [], ask: [] };
+    for (const rule of this.rules) {
+      grouped[rule.decision].push(rule.source);
+    }
+    return grouped;
+  }
+
+  /**
+   * Evaluate rules for a call without resolving "ask".
+   */
+  evaluate(tool: string, input: unknown, workingDir: string): { decision: PermissionDecision; rule?: string } {
+    // Bash commands are checked per simple command and patches per file: any
+    // denied part denies the whole call, and an allow rule must cover every part
+    const subjects = this.subjectsFor(tool, input);
+    if (subjects === null) {
+      // A command that can't be parsed can't be checked against command rules
+      const matched = this.matchSubject(tool, input, undefined, workingDir);
+      if (matched?.decision === 'deny') {
+        return { decision: 'deny', rule: matched.source };
+      }
+      return { decision: this.defaultDecision === 'deny' ? 'deny' : 'ask' };
+    }
+
+    let strongest: { decision: PermissionDecision; rule?: string } | null = null;
+    let allCovered = subjects.length > 0;
+
+    for (const subject of subjects) {
+      const matched = this.matchSubject(tool, input, subject, workingDir);
+      if (!matched) {
+        allCovered = false;
+        continue;
+      }
+      if (!strongest || DECISION_ORDER.indexOf(matched.decision) < DECISION_ORDER.indexOf(strongest.decision)) {
+        strongest = { decision: matched.decision, rule: matched.source };
+      }
+    }
+
+    if (strongest && (strongest.decision !== 'allow' || allCovered)) {
+      return strongest;
+    }
+    return { decision: this.defaultDecision };
+  }
+
+  /**
+   * Check whether a call may proceed, asking for approval when required.
+   */
+  async check(tool: string, input: unknown, context: CallContext): Promise<PermissionCheckResult> {
+    const { decision, rule } = this.evaluate(tool, input, context.workingDir);
+    const ruleText = rule ? `rule '${rule}'` : 'default permission decision';
+
+    if (decision === 'allow') {
+      return { allowed: true, decision, rule, reason: `Allowed by ${ruleText}` };
+    }
+
+    if (decision === 'deny') {
+      return { allowed: false, decision, rule, reason: `Denied by ${ruleText}` };
+    }
+
+    const handler = this.onAsk ?? permissionHandler;
+    if (!handler) {
+      return {
+        allowed: false,
+        decision,
+        rule,
+        reason: `Approval required by ${ruleText}, but no approval handler is set`,
+      };
+    }
+
+    try {
+      const approved = await this.askLimiter(async () =>
+        handler({
+          tool,
+          input,
+          rule: rule ?? '(default)',
+          workingDir: context.workingDir,
+          sessionId: context.sessionId,
+        })
+      );
+      return {
+        allowed: approved,
+        decision,
+        rule,
+        reason: approved ? `Approved by user (${ruleText})` : `Rejected by user (${ruleText})`,
+      };
+    } catch (error) {
+      return {
+        allowed: false,
+        decision,
+        rule,
+        reason: `Approval failed: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Split a call into the parts that rules are matched against.
+   */
+  private subjectsFor(tool: string, input: unknown): Array<string | undefined> | null {
+    const params = (input ?? {}) as Record<string, unknown>;
+    if (tool === 'Bash') {
+      return splitShellCommand(String(params.command ?? ''));
+    }
+    if (tool === 'ApplyPatch') {
+      return patchFilePaths(String(params.patch ?? ''));
+    }
+    return [undefined];
+  }
+
+  /**
+   * Find the strongest rule matching one subject of a call.
+   */
+  private matchSubject(
+    tool: string,
+    input: unknown,
+    subject: string | undefined,
+    workingDir: string
+  ): ParsedRule | undefined {
+    const names = [tool, ...(RULE_ALIASES[tool] ?? [])];
+    for (const decision of DECISION_ORDER) {
+      const match = this.rules.find(
+        (rule) =>
+          rule.decision === decision &&
+          names.some((name) => rule.tool.test(name)) &&
+          (rule.specifier === undefined || this.matchesSpecifier(tool, input, subject, rule.specifier, workingDir))
+      );
+      if (match) return match;
+    }
+    return undefined;
+  }
+
+  private matchesSpecifier(
+    tool: string,
+    input: unknown,
+    subject: string | undefined,
+    specifier: string,
+    workingDir: string
+  ): boolean {
+    const params = (input ?? {}) as Record<string, unknown>;
+
+    if (tool === 'Bash') {
+      return subject !== undefined && matchesCommand(subject, normalizeCommandSpecifier(specifier));
+    }
+    if (tool === 'ApplyPatch') {
+      return subject !== undefined && matchesPath(subject, specifier, workingDir);
+    }
+    if (FILE_PATH_TOOLS.has(tool) && typeof params.file_path === 'string') {
+      return matchesPath(params.file_path, specifier, workingDir);
+    }
+    if (SEARCH_PATH_TOOLS.has(tool)) {
+      return matchesPath(typeof params.path === 'string' ? params.path : workingDir, specifier, workingDir);
+    }
+    if (tool === 'WebFetch' && typeof params.url === 'string') {
+      return matchesDomain(params.url, specifier);
+    }
+    return false;
+  }
+}
+
+/**
+ * Set the global approval handler, used when a PermissionManager has no onAsk.
+ * This should be set by the consuming application to prompt the user.
+ */
+export function setPermissionHandler(handler: PermissionApprovalHandler): void {
+  permissionHandler = handler;
+}
+
+/**
+ * Clear the global approval handler.
+ */
+export function clearPermissionHandler(): void {
+  permissionHandler = null;
+}
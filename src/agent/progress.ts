@@ -0,0 +1,94 @@
+/**
+ * Tool progress - Rate-limited delivery of incremental tool output.
+ */
+
+import type { ToolProgress } from '../tools/types.js';
+
+export interface ProgressReporterOptions {
+  /** Minimum time between emitted chunks per stream, in milliseconds */
+  intervalMs: number;
+  /** Maximum characters per emitted chunk; older buffered output is dropped first */
+  maxChars: number;
+}
+
+export interface ProgressReporter {
+  /** Report a chunk of progress (buffered and rate limited) */
+  report(progress: ToolProgress): void;
+  /** Emit anything still buffered and stop the timer */
+  flush(): void;
+}
+
+/**
+ * Create a reporter that coalesces chunks per stream and emits them at most
+ * once per interval, so huge outputs don't flood the consumer.
+ */
+export function createProgressReporter(
+  emit: (progress: ToolProgress) => void,
+  options: ProgressReporterOptions
+): ProgressReporter {
+  const buffers = new Map<ToolProgress['stream'], string>();
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    for (const [stream, buffered] of buffers) {
+      let content = buffered;
+      if (content.length > options.maxChars) {
+        const omitted = content.length - options.maxChars;
+        content = `[... ${omitted} characters omitted ...]\n${content.slice(-options.maxChars)}`;
+      }
+      emit(stream ? { content, stream } : { content });
+    }
+    buffers.clear();
+  };
+
+  return {
+    report(progress: ToolProgress) {
+      if (!progress.content) return;
+      buffers.set(progress.stream, (buffers.get(progress.stream) ?? '') + progress.content);
+      if (!timer) {
+        timer = setTimeout(flush, options.intervalMs);
+      }
+    },
+    flush,
+  };
+}
+
+/**
+ * Unbounded queue that an async generator can wait on while other work runs.
+ */
+export class ProgressChannel<T> {
+  private items: T[] = [];
+  private waiter: (() => void) | null = null;
+
+  push(item: T): void {
+    this.items.push(item);
+    this.waiter?.();
+    this.waiter = null;
+  }
+
+  /**
+   * Take all queued items.
+   */
+  drain(): T[] {
+    const items = this.items;
+    this.items = [];
+    return items;
+  }
+
+  /**
+   * Resolve when an item is pushed (immediately if items are queued).
+   */
+  wait(): Promise<void> {
+    if (this.items.length > 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.waiter = resolve;
+    });
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Redaction - Replace secrets in tool output with placeholders.
+ *
+ * Secrets are found by built-in detectors (AWS keys, GitHub tokens, JWTs,
+ * private key blocks, high-entropy strings) and custom patterns. Each secret
+ * is replaced with `[REDACTED:<kind>:<id>]`, where the id is derived from a
+ * hash of the secret: the same secret gets the same placeholder everywhere,
+ * across runs, workers and processes, without the redactor keeping state.
+ */
+
+import { createHash } from 'node:crypto';
+
+export type SecretDetector =
+  | 'aws_access_key'
+  | 'aws_secret_key'
+  | 'github_token'
+  | 'jwt'
+  | 'private_key'
+  | 'high_entropy';
+
+export interface RedactionPattern {
+  /** Kind shown in the placeholder */
+  name: string;
+  /** Regex source or RegExp; when it has a capture group, only group 1 is redacted */
+  pattern: string | RegExp;
+}
+
+export interface RedactionConfig {
+  /** Built-in detectors to use (default: all) */
+  detectors?: SecretDetector[];
+  /** Additional patterns */
+  patterns?: RedactionPattern[];
+  /** Minimum length of a high-entropy string (default: 32) */
+  minEntropyLength?: number;
+  /** Minimum Shannon entropy, in bits per character, of a high-entropy string (default: 4.5) */
+  minEntropy?: number;
+}
+
+export interface SecretMatch {
+  kind: string;
+  start: number;
+  end: number;
+}
+
+const BUILTIN_PATTERNS: Record<Exclude<SecretDetector, 'high_entropy'>, RegExp> = {
+  aws_access_key: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g,
+  aws_secret_key: /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+  github_token: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+  jwt: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  private_key: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g,
+};
+
+const ALL_DETECTORS: SecretDetector[] = [...(Object.keys(BUILTIN_PATTERNS) as SecretDetector[]), 'high_entropy'];
+
+// Candidate tokens for the entropy check: base64 and URL-safe base64 runs
+const TOKEN_PATTERN = /[A-Za-z0-9+/_-]+={0,2}/g;
+
+/**
+ * Shannon entropy of a string, in bits per character.
+ */
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const c of text) {
+    counts.set(c, (counts.get(c) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+export class SecretRedactor {
+  private patterns: Array<{ kind: string; regex: RegExp }>;
+  private entropy: { minLength: number; minEntropy: number } | null;
+
+  constructor(config: RedactionConfig = {}) {
+    const detectors = new Set(config.detectors ?? ALL_DETECTORS);
+
+    this.patterns = [];
+    for (const [kind, regex] of Object.entries(BUILTIN_PATTERNS)) {
+      if (detectors.has(kind as SecretDetector)) {
+        this.patterns.push({ kind, regex });
+      }
+    }
+    for (const { name, pattern } of config.patterns ?? []) {
+      const regex =
+        typeof pattern === 'string'
+          ? new RegExp(pattern, 'g')
+          : new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+      this.patterns.push({ kind: name, regex });
+    }
+
+    this.entropy = detectors.has('high_entropy')
+      ? { minLength: config.minEntropyLength ?? 32, minEntropy: config.minEntropy ?? 4.5 }
+      : null;
+  }
+
+  /**
+   * Find secrets in text, in order and without overlaps.
+   */
+  findSecrets(text: string): SecretMatch[] {
+    const matches: SecretMatch[] = [];
+
+    for (const { kind, regex } of this.patterns) {
+      for (const match of text.matchAll(regex)) {
+        if (match[0] === '') continue;
+        const secret = match[1] ?? match[0];
+        const start = match.index + (match[1] !== undefined ? match[0].indexOf(secret) : 0);
+        matches.push({ kind, start, end: start + secret.length });
+      }
+    }
+
+    if (this.entropy) {
+      const { minLength, minEntropy } = this.entropy;
+      for (const match of text.matchAll(TOKEN_PATTERN)) {
+        const token = match[0];
+        // Mixed case and digits rule out words, identifiers and paths
+        if (
+          token.length >= minLength &&
+          /[a-z]/.test(token) &&
+          /[A-Z]/.test(token) &&
+          /[0-9]/.test(token) &&
+          shannonEntropy(token) >= minEntropy
+        ) {
+          matches.push({ kind: 'high_entropy', start: match.index, end: match.index + token.length });
+        }
+      }
+    }
+
+    // Earlier matches win; at the same position, longer ones (specific detectors come first)
+    matches.sort((a, b) => a.start - b.start || b.end - a.end);
+    const kept: SecretMatch[] = [];
+    for (const match of matches) {
+      if (kept.length === 0 || match.start >= kept[kept.length - 1].end) {
+        kept.push(match);
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Replace every secret in text with its placeholder.
+   */
+  redact(text: string): string {
+    const secrets = this.findSecrets(text);
+    if (secrets.length === 0) {
+      return text;
+    }
+
+    let result = '';
+    let last = 0;
+    for (const { kind, start, end } of secrets) {
+      result += text.slice(last, start) + placeholder(kind, text.slice(start, end));
+      last = end;
+    }
+    return result + text.slice(last);
+  }
+}
+
+function placeholder(kind: string, secret: string): string {
+  const id = createHash('sha256').update(secret).digest('hex').slice(0, 8);
+  return `[REDACTED:${kind}:${id}]`;
+}
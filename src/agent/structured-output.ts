@@ -0,0 +1,57 @@
+/**
+ * Structured output - A typed final answer via a terminal tool.
+ *
+ * When a run has an output schema, the model is given one extra tool whose
+ * input schema is the output schema, and is told to finish by calling it.
+ * The call is validated here rather than executed; validation errors go back
+ * to the model as an error tool_result so it can repair the answer.
+ */
+
+import type { JSONSchema } from '../tools/types.js';
+import { formatSchemaErrors, validateSchema } from '../utils/json-schema.js';
+
+export const OUTPUT_TOOL_NAME = 'StructuredOutput';
+
+// Tool inputs must be objects; other schemas are wrapped in this property
+const VALUE_KEY = 'value';
+
+export type OutputValidation = { valid: true; value: unknown } | { valid: false; error: string };
+
+export interface OutputTool {
+  /** Tool definition sent to the API */
+  definition: { name: string; description: string; input_schema: JSONSchema };
+  /** Check a call's input against the schema and unwrap the answer */
+  validate(input: unknown): OutputValidation;
+}
+
+/**
+ * Create the terminal tool for an output schema.
+ */
+export function createOutputTool(schema: JSONSchema): OutputTool {
+  const wrapped = schema.type !== 'object';
+  const inputSchema: JSONSchema = wrapped
+    ? { type: 'object', properties: { [VALUE_KEY]: schema }, required: [VALUE_KEY], additionalProperties: false }
+    : schema;
+
+  return {
+    definition: {
+      name: OUTPUT_TOOL_NAME,
+      description:
+        'Return your final answer. Call this exactly once, after all other work is done, with the answer as input. ' +
+        'The run ends when the answer is accepted; if it is rejected, fix the listed problems and call it again.',
+      input_schema: inputSchema,
+    },
+    validate(input) {
+      const errors = validateSchema(input, inputSchema);
+      if (errors.length > 0) {
+        return { valid: false, error: `Output does not match the schema:\n${formatSchemaErrors(errors)}` };
+      }
+      return { valid: true, value: wrapped ? (input as Record<string, unknown>)[VALUE_KEY] : input };
+    },
+  };
+}
+
+/**
+ * Reminder sent when the model ends its turn without calling the output tool.
+ */
+export const OUTPUT_REMINDER = `You must finish by calling the ${OUTPUT_TOOL_NAME} tool with your final answer.`;
@@ -5,12 +5,14 @@
  * Transcripts are stored in ~/.claude/projects/{project-dir}/{sessionId}.jsonl
  */
 
-import { appendFile, mkdir, readFile } from 'fs/promises';
+import { appendFile, mkdir, readFile, writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
 import { randomUUID } from 'crypto';
 import type { Message, ContentBlock, Usage } from '../client/types.js';
+import { createLimiter, type Limiter } from '../utils/concurrency.js';
+import type { UsageReport } from './usage.js';
 
 // Get project directory from cwd, converting slashes to dashes
 function getProjectDir(cwd: string): string {
@@ -27,6 +29,11 @@ function getTranscriptPath(sessionId: string, cwd: string): string {
   return join(getTranscriptsDir(cwd), `${sessionId}.jsonl`);
 }
 
+// Get usage summary file path for a session
+function getUsagePath(sessionId: string, cwd: string): string {
+  return join(getTranscriptsDir(cwd), `${sessionId}.usage.json`);
+}
+
 export interface TranscriptWriterOptions {
   /** Working directory (used for project path) */
   cwd?: string;
@@ -65,6 +72,36 @@ export interface AssistantMessageEntry {
   uuid: string;
 }
 
+export interface PermissionDecisionEntry {
+  type: 'permission';
+  tool: string;
+  toolUseId: string;
+  input: unknown;
+  decision: 'allow' | 'deny' | 'ask';
+  allowed: boolean;
+  rule?: string;
+  reason: string;
+  sessionId: string;
+  timestamp: string;
+  uuid: string;
+}
+
+/**
+ * Marks a compaction. Loading resumes from `messages` and appends the
+ * conversation entries that follow; entries before the boundary are kept
+ * for usage accounting only.
+ */
+export interface CompactBoundaryEntry {
+  type: 'compact_boundary';
+  /** Conversation messages before compaction */
+  previousMessageCount: number;
+  /** The conversation after compaction */
+  messages: Message[];
+  sessionId: string;
+  timestamp: string;
+  uuid: string;
+}
+
 /**
  * Truncation info returned when a transcript is cut short due to incomplete tool calls.
  */
@@ -91,6 +128,10 @@ export class TranscriptWriter {
   private enabled: boolean;
   private initialized: boolean = false;
   private version: string = '1.0.0'; // sol-agentic-harness version
+  // Appends (and truncation) run one at a time so entries stay in order
+  private writeQueue: Limiter = createLimiter(1);
+  // Usage summaries are rewritten whole, apart from the transcript
+  private usageQueue: Limiter = createLimiter(1);
 
   constructor(options: TranscriptWriterOptions = {}) {
     this.cwd = options.cwd ?? process.cwd();
@@ -116,10 +157,12 @@ export class TranscriptWriter {
   private async appendEntry(sessionId: string, entry: unknown): Promise<void> {
     if (!this.enabled) return;
 
-    await this.ensureDir();
     const path = getTranscriptPath(sessionId, this.cwd);
     const line = JSON.stringify(entry) + '\n';
-    await appendFile(path, line);
+    await this.writeQueue(async () => {
+      await this.ensureDir();
+      await appendFile(path, line);
+    });
   }
 
   /**
@@ -202,6 +245,129 @@ export class TranscriptWriter {
     await this.appendEntry(sessionId, entry);
   }
 
+  /**
+   * Record a permission decision for a tool call.
+   * Ignored when loading the transcript back into conversation history.
+   */
+  async writePermissionDecision(
+    sessionId: string,
+    decision: Omit<PermissionDecisionEntry, 'type' | 'sessionId' | 'timestamp' | 'uuid'>
+  ): Promise<void> {
+    const entry: PermissionDecisionEntry = {
+      type: 'permission',
+      ...decision,
+      sessionId,
+      timestamp: new Date().toISOString(),
+      uuid: randomUUID(),
+    };
+
+    await this.appendEntry(sessionId, entry);
+  }
+
+  /**
+   * Record that the conversation was compacted to `messages`.
+   */
+  async writeCompactBoundary(
+    sessionId: string,
+    messages: Message[],
+    previousMessageCount: number
+  ): Promise<void> {
+    const entry: CompactBoundaryEntry = {
+      type: 'compact_boundary',
+      previousMessageCount,
+      messages,
+      sessionId,
+      timestamp: new Date().toISOString(),
+      uuid: randomUUID(),
+    };
+
+    await this.appendEntry(sessionId, entry);
+  }
+
+  /**
+   * Wait for every write queued so far to finish.
+   */
+  async flush(): Promise<void> {
+    await Promise.all([this.writeQueue(async () => {}), this.usageQueue(async () => {})]);
+  }
+
+  /**
+   * Save a session's aggregated usage next to its transcript, replacing any
+   * earlier summary.
+   */
+  async writeUsageSummary(sessionId: string, report: UsageReport): Promise<void> {
+    if (!this.enabled) return;
+
+    const path = getUsagePath(sessionId, this.cwd);
+    const content = JSON.stringify(report, null, 2) + '\n';
+    await this.usageQueue(async () => {
+      await this.ensureDir();
+      await writeFile(path, content);
+    });
+  }
+
+  /**
+   * Load a session's saved usage summary, or null if there is none.
+   */
+  async loadUsageSummary(sessionId: string): Promise<UsageReport | null> {
+    const path = getUsagePath(sessionId, this.cwd);
+    if (!existsSync(path)) return null;
+
+    try {
+      return JSON.parse(await readFile(path, 'utf-8')) as UsageReport;
+    } catch (error) {
+      console.error(`[TranscriptWriter] Failed to load usage summary ${sessionId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Truncate a transcript so it holds only the first `messageCount`
+   * conversation messages, counted as loadTranscript would (from the last
+   * compaction boundary, if any). Other entries (e.g. permission decisions)
+   * before the cut are kept. Waits for pending writes first.
+   */
+  async truncateTranscript(sessionId: string, messageCount: number): Promise<void> {
+    const path = getTranscriptPath(sessionId, this.cwd);
+
+    await this.writeQueue(async () => {
+      if (!existsSync(path)) return;
+
+      const lines = (await readFile(path, 'utf-8')).split('\n').filter((line) => line.trim());
+      const entries = lines.map((line) => {
+        try {
+          return JSON.parse(line) as { type?: string; messages?: Message[] };
+        } catch {
+          // Keep malformed lines where they are
+          return {};
+        }
+      });
+
+      // Everything before the last compaction boundary is outside the loaded conversation
+      const boundary = entries.map((entry) => entry.type).lastIndexOf('compact_boundary');
+      const kept = lines.slice(0, Math.max(boundary, 0));
+      let messages = 0;
+
+      for (let i = Math.max(boundary, 0); i < lines.length; i++) {
+        const entry = entries[i];
+        if (i === boundary) {
+          const compacted = entry.messages ?? [];
+          if (compacted.length >= messageCount) {
+            kept.push(JSON.stringify({ ...entry, messages: compacted.slice(0, messageCount) }));
+            break;
+          }
+          messages = compacted.length;
+        } else if (entry.type === 'user' || entry.type === 'assistant') {
+          if (messages === messageCount) break;
+          messages++;
+        }
+        kept.push(lines[i]);
+      }
+
+      await writeFile(path, kept.map((line) => line + '\n').join(''));
+    });
+  }
+
   /**
    * Update the working directory (creates new transcript dir if needed).
    */
@@ -237,9 +403,12 @@ export class TranscriptWriter {
 
       for (const line of lines) {
         try {
-          const entry = JSON.parse(line) as { type: string; message?: unknown };
+          const entry = JSON.parse(line) as { type: string; message?: unknown; messages?: Message[] };
 
-          if (entry.type === 'user' && entry.message) {
+          if (entry.type === 'compact_boundary' && entry.messages) {
+            // Resume from the compacted conversation
+            messages.splice(0, messages.length, ...entry.messages);
+          } else if (entry.type === 'user' && entry.message) {
             const msg = entry.message as { role: string; content: Message['content'] };
             if (msg.role === 'user') {
               messages.push({
@@ -3,9 +3,14 @@
  */
 
 import type { Message, SystemBlock, Usage, WebSearchResult, WebSearchToolResultError, WebSearchCitation } from '../client/types.js';
-import type { ToolResultContent } from '../tools/types.js';
+import type { JSONSchema, ToolResultContent } from '../tools/types.js';
+import type { FileDiff } from '../utils/diff.js';
 import type { ToolDefinition } from '../tools/types.js';
-import type { HookRegistry } from './hooks.js';
+import type { HookConfig, HookRegistry } from './hooks.js';
+import type { PermissionConfig, PermissionManager } from './permissions.js';
+import type { BudgetConfig, BudgetLimit, BudgetTracker } from './budget.js';
+import type { RedactionConfig, SecretRedactor } from './redaction.js';
+import type { SandboxConfig } from '../tools/builtin/sandbox.js';
 
 export interface ThinkingConfig {
   enabled: boolean;
@@ -17,8 +22,53 @@ export interface AutoCompactConfig {
   enabled: boolean;
   /** Context usage threshold percentage to trigger compaction (default: 80) */
   thresholdPercent?: number;
-  /** Callback to perform compaction - receives current messages, returns compacted messages */
+  /**
+   * Callback to perform compaction - receives current messages, returns compacted messages.
+   * When omitted, the model summarizes older turns and recent ones are kept verbatim.
+   */
   onCompact?: (messages: Message[], sessionId: string) => Promise<Message[]>;
+  /** Recent turns the built-in compactor keeps verbatim (default: 4) */
+  keepRecentTurns?: number;
+  /** Model the built-in compactor uses for the summary (default: the run's model) */
+  model?: string;
+  /** Extra instructions for the built-in compactor's summary */
+  instructions?: string;
+}
+
+export interface ParallelToolConfig {
+  /** Run read-only tools (Read, Glob, Grep, WebFetch) concurrently (default: false) */
+  enabled: boolean;
+  /** Maximum number of read-only tools executing at once (default: 5) */
+  maxConcurrency?: number;
+}
+
+export interface ToolResultElisionConfig {
+  /** Replace stale tool results with placeholders before each request (default: false) */
+  enabled: boolean;
+  /** Tool results from this many most recent turns are never elided (default: 3) */
+  keepRecentTurns?: number;
+  /** Results shorter than this many characters are left alone (default: 2000) */
+  minChars?: number;
+  /** Tools whose results may be elided (default: Read, Grep, Glob, Bash, WebFetch) */
+  tools?: string[];
+}
+
+export interface OverflowRecoveryConfig {
+  /** Recover from prompt-too-long errors and tool calls cut off by max_tokens (default: true) */
+  enabled?: boolean;
+  /** Times a turn's request is shrunk (elided, then compacted) and retried (default: 2) */
+  maxAttempts?: number;
+  /** Tool calls cut off by max_tokens that are answered with an error so the model can retry, per run (default: 3) */
+  maxContinuations?: number;
+}
+
+export interface ToolProgressConfig {
+  /** Emit tool_progress events (default: true) */
+  enabled?: boolean;
+  /** Minimum time between progress events per tool and stream, in ms (default: 250) */
+  intervalMs?: number;
+  /** Maximum characters per progress event (default: 4000) */
+  maxChars?: number;
 }
 
 export interface RunParams {
@@ -30,8 +80,8 @@ export interface RunParams {
   model?: string;
   /** Tools available to the agent */
   tools?: ToolDefinition[];
-  /** Hook registry for event interception */
-  hooks?: HookRegistry;
+  /** Hooks for event interception: a registry, or command hooks to load */
+  hooks?: HookRegistry | HookConfig;
   /** Maximum agentic turns before stopping (default: Infinity) */
   maxTurns?: number;
   /** Maximum output tokens per response (default: 16384) */
@@ -48,6 +98,26 @@ export interface RunParams {
   autoCompact?: AutoCompactConfig;
   /** Maximum context tokens (for auto-compact threshold calculation, default: 200000) */
   maxContextTokens?: number;
+  /** Parallel tool execution configuration (disabled by default) */
+  parallelTools?: ParallelToolConfig;
+  /** Permission rules for tool calls (all calls allowed if omitted) */
+  permissions?: PermissionConfig | PermissionManager;
+  /** Incremental tool output configuration */
+  toolProgress?: ToolProgressConfig;
+  /** Tool result elision for long sessions (disabled by default) */
+  toolResultElision?: ToolResultElisionConfig;
+  /** Context overflow recovery (enabled by default) */
+  overflowRecovery?: OverflowRecoveryConfig;
+  /** Token, cost and time limits, shared with spawned workers (unlimited if omitted) */
+  budget?: BudgetConfig | BudgetTracker;
+  /** JSON Schema the final answer must match; the parsed answer is returned on the done event */
+  outputSchema?: JSONSchema;
+  /** Times an answer that is missing or fails validation is sent back for repair (default: 2) */
+  outputRepairAttempts?: number;
+  /** Secret redaction for tool results, shared with spawned workers (disabled if omitted) */
+  redaction?: RedactionConfig | SecretRedactor;
+  /** Sandbox for Bash commands, also applied to spawned workers (unsandboxed if omitted) */
+  sandbox?: SandboxConfig;
 }
 
 // Agent events yielded during execution
@@ -74,6 +144,17 @@ export interface ToolResultEvent {
   name: string;
   content: string | ToolResultContent[];
   is_error: boolean;
+  /** Structured diffs of files the tool changed (Edit, MultiEdit, Write, ApplyPatch) */
+  diffs?: FileDiff[];
+}
+
+export interface ToolProgressEvent {
+  type: 'tool_progress';
+  /** tool_use ID the output belongs to */
+  id: string;
+  name: string;
+  content: string;
+  stream?: 'stdout' | 'stderr';
 }
 
 export interface ServerToolUseEvent {
@@ -99,9 +180,27 @@ export interface TurnCompleteEvent {
 export interface DoneEvent {
   type: 'done';
   totalUsage: Usage;
-  stopReason: 'end_turn' | 'tool_use' | 'max_tokens' | 'max_turns' | 'cancelled';
+  /**
+   * 'context_overflow' when the conversation no longer fits the context window and couldn't be shrunk;
+   * 'invalid_output' when no answer matching `outputSchema` was given within the repair attempts;
+   * 'blocked' when a UserPromptSubmit or PreRequest hook stopped the run;
+   * 'error' when the run couldn't start because its hook or permission config failed to load
+   */
+  stopReason:
+    | 'end_turn'
+    | 'tool_use'
+    | 'max_tokens'
+    | 'max_turns'
+    | 'cancelled'
+    | 'context_overflow'
+    | 'budget_exceeded'
+    | 'invalid_output'
+    | 'blocked'
+    | 'error';
   turnCount: number;
   sessionId: string;
+  /** The validated final answer, when the run has an `outputSchema` */
+  output?: unknown;
 }
 
 export interface ErrorEvent {
@@ -109,6 +208,16 @@ export interface ErrorEvent {
   error: Error;
 }
 
+export interface RetryEvent {
+  type: 'retry';
+  /** The API attempt that just failed (1-based) */
+  attempt: number;
+  maxAttempts: number;
+  /** Delay before the next attempt, in milliseconds */
+  delayMs: number;
+  error: Error;
+}
+
 export interface CompactEvent {
   type: 'compact';
   previousMessageCount: number;
@@ -116,17 +225,42 @@ export interface CompactEvent {
   sessionId: string;
 }
 
+export interface ElideEvent {
+  type: 'elide';
+  /** Tool results replaced with placeholders */
+  toolResults: number;
+  /** Characters of tool output removed from the conversation */
+  charsSaved: number;
+  sessionId: string;
+}
+
+export interface BudgetEvent {
+  type: 'budget';
+  /** 'warning' past the warning percentage, 'exceeded' when the run stops */
+  level: 'warning' | 'exceeded';
+  limit: BudgetLimit;
+  used: number;
+  max: number;
+  /** Model the run switched to because of this warning */
+  downgradedTo?: string;
+  sessionId: string;
+}
+
 export type AgentEvent =
   | ThinkingEvent
   | TextEvent
   | ToolUseEvent
   | ToolResultEvent
+  | ToolProgressEvent
   | ServerToolUseEvent
   | WebSearchResultEvent
   | TurnCompleteEvent
   | DoneEvent
   | ErrorEvent
-  | CompactEvent;
+  | RetryEvent
+  | CompactEvent
+  | ElideEvent
+  | BudgetEvent;
 
 // Accumulated message content during streaming
 export interface AccumulatedContent {
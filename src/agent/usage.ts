@@ -0,0 +1,224 @@
+/**
+ * Usage ledger - Token usage and cost per request.
+ *
+ * Every Messages API request made by a loop (and by the workers it spawns,
+ * when they share the ledger) is recorded with its model, session, worker and
+ * the tools whose results prompted it. Reports aggregate the records along
+ * each of those dimensions, with cost from a per-model price table.
+ */
+
+import type { Usage } from '../client/types.js';
+
+export interface ModelPrice {
+  /** USD per million uncached input tokens */
+  inputPerMTok: number;
+  /** USD per million output tokens */
+  outputPerMTok: number;
+  /** USD per million tokens written to the prompt cache */
+  cacheWritePerMTok: number;
+  /** USD per million tokens read from the prompt cache */
+  cacheReadPerMTok: number;
+}
+
+/** Prices keyed by model ID or model ID prefix; the longest matching key wins */
+export type PriceTable = Record<string, ModelPrice>;
+
+/** Published API list prices, used as the dollar-equivalent for subscription usage */
+export const DEFAULT_PRICES: PriceTable = {
+  'claude-opus-4-5': { inputPerMTok: 5, outputPerMTok: 25, cacheWritePerMTok: 6.25, cacheReadPerMTok: 0.5 },
+  'claude-opus-4': { inputPerMTok: 15, outputPerMTok: 75, cacheWritePerMTok: 18.75, cacheReadPerMTok: 1.5 },
+  'claude-sonnet-4': { inputPerMTok: 3, outputPerMTok: 15, cacheWritePerMTok: 3.75, cacheReadPerMTok: 0.3 },
+  'claude-3-7-sonnet': { inputPerMTok: 3, outputPerMTok: 15, cacheWritePerMTok: 3.75, cacheReadPerMTok: 0.3 },
+  'claude-haiku-4-5': { inputPerMTok: 1, outputPerMTok: 5, cacheWritePerMTok: 1.25, cacheReadPerMTok: 0.1 },
+  'claude-3-5-haiku': { inputPerMTok: 0.8, outputPerMTok: 4, cacheWritePerMTok: 1, cacheReadPerMTok: 0.08 },
+};
+
+/** byWorker key for requests made by the main loop */
+export const MAIN_AGENT = 'main';
+/** byTool key for requests that followed a user message rather than tool results */
+export const USER_PROMPT = 'prompt';
+
+export interface UsageRecord {
+  timestamp: string;
+  /** Session of the top-level run (workers record under the session that spawned them) */
+  sessionId: string;
+  model: string;
+  /** Worker that made the request, or null for the main loop */
+  workerId: string | null;
+  /** Turn within the session (for compaction requests, the turn being compacted) */
+  turn: number;
+  /** 'turn' for agent turns, 'compaction' for summarization requests */
+  kind: 'turn' | 'compaction';
+  /** Tools whose results were sent with this request; empty when it followed a user message */
+  causedBy: string[];
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+  /** Dollar-equivalent cost, 0 when the model has no price */
+  costUSD: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+  costUSD: number;
+}
+
+export interface UsageReport {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  bySession: Record<string, UsageTotals>;
+  /** Keyed by worker ID, with the main loop under 'main' */
+  byWorker: Record<string, UsageTotals>;
+  /** Requests attributed to the tools whose results prompted them, 'prompt' for user messages */
+  byTool: Record<string, UsageTotals>;
+  /** Models used that have no entry in the price table */
+  unpricedModels: string[];
+}
+
+export interface UsageLedgerOptions {
+  /** Price table (default: DEFAULT_PRICES) */
+  prices?: PriceTable;
+}
+
+/** Tags for a request, with the usage reported by the API */
+export type UsageEntry = Pick<UsageRecord, 'sessionId' | 'model' | 'workerId' | 'turn' | 'kind' | 'causedBy'> & {
+  usage: Usage;
+};
+
+/**
+ * Find the price for a model: an exact key, else the longest key it starts with.
+ */
+export function findModelPrice(model: string, prices: PriceTable = DEFAULT_PRICES): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const key = Object.keys(prices)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : null;
+}
+
+export class UsageLedger {
+  private records: UsageRecord[] = [];
+  // Persisted reports of earlier runs, by session
+  private baselines = new Map<string, UsageReport>();
+  private prices: PriceTable;
+
+  constructor(options: UsageLedgerOptions = {}) {
+    this.prices = options.prices ?? DEFAULT_PRICES;
+  }
+
+  /**
+   * Record one request's usage.
+   */
+  record(entry: UsageEntry): UsageRecord {
+    const { usage, ...tags } = entry;
+    const record: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      ...tags,
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      cacheWriteTokens: usage.cache_creation_input_tokens ?? 0,
+      cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+      costUSD: 0,
+    };
+
+    const price = findModelPrice(record.model, this.prices);
+    if (price) {
+      record.costUSD =
+        (record.inputTokens * price.inputPerMTok +
+          record.outputTokens * price.outputPerMTok +
+          record.cacheWriteTokens * price.cacheWritePerMTok +
+          record.cacheReadTokens * price.cacheReadPerMTok) /
+        1_000_000;
+    }
+
+    this.records.push(record);
+    return record;
+  }
+
+  /**
+   * Recorded requests, optionally for one session.
+   */
+  getRecords(sessionId?: string): UsageRecord[] {
+    return this.records.filter((r) => sessionId === undefined || r.sessionId === sessionId);
+  }
+
+  /**
+   * Aggregate usage, optionally for one session. Includes reports restored
+   * from earlier runs.
+   */
+  getReport(sessionId?: string): UsageReport {
+    const report = emptyReport();
+
+    for (const [session, baseline] of this.baselines) {
+      if (sessionId === undefined || session === sessionId) {
+        mergeReport(report, baseline);
+      }
+    }
+
+    for (const record of this.getRecords(sessionId)) {
+      addTo(report.total, record);
+      addTo((report.byModel[record.model] ??= emptyTotals()), record);
+      addTo((report.bySession[record.sessionId] ??= emptyTotals()), record);
+      addTo((report.byWorker[record.workerId ?? MAIN_AGENT] ??= emptyTotals()), record);
+      for (const tool of record.causedBy.length > 0 ? new Set(record.causedBy) : [USER_PROMPT]) {
+        addTo((report.byTool[tool] ??= emptyTotals()), record);
+      }
+      if (!findModelPrice(record.model, this.prices) && !report.unpricedModels.includes(record.model)) {
+        report.unpricedModels.push(record.model);
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Carry over a session's persisted report from an earlier run. It replaces
+   * the session's earlier baseline and records, which the report includes.
+   */
+  restore(sessionId: string, report: UsageReport): void {
+    this.baselines.set(sessionId, report);
+    this.records = this.records.filter((r) => r.sessionId !== sessionId);
+  }
+
+  /**
+   * Forget all records and restored reports.
+   */
+  clear(): void {
+    this.records = [];
+    this.baselines.clear();
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, cacheWriteTokens: 0, cacheReadTokens: 0, costUSD: 0 };
+}
+
+function emptyReport(): UsageReport {
+  return { total: emptyTotals(), byModel: {}, bySession: {}, byWorker: {}, byTool: {}, unpricedModels: [] };
+}
+
+function addTo(totals: UsageTotals, usage: UsageRecord | UsageTotals): void {
+  totals.requests += 'requests' in usage ? usage.requests : 1;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.cacheWriteTokens += usage.cacheWriteTokens;
+  totals.cacheReadTokens += usage.cacheReadTokens;
+  totals.costUSD += usage.costUSD;
+}
+
+function mergeReport(target: UsageReport, source: UsageReport): void {
+  addTo(target.total, source.total);
+  for (const key of ['byModel', 'bySession', 'byWorker', 'byTool'] as const) {
+    for (const [name, totals] of Object.entries(source[key])) {
+      addTo((target[key][name] ??= emptyTotals()), totals);
+    }
+  }
+  for (const model of source.unpricedModels) {
+    if (!target.unpricedModels.includes(model)) target.unpricedModels.push(model);
+  }
+}
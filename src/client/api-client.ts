@@ -1,68 +1,149 @@
 /**
- * Anthropic API Client with streaming support and Claude subscription auth.
+ * Anthropic API Client with streaming support and pluggable auth
+ * (Claude subscription OAuth by default).
  */
 
+import { setTimeout as sleep } from 'node:timers/promises';
 import { TokenManager, type TokenManagerOptions } from './token-manager.js';
+import { OAuthAuthProvider, type AuthProvider } from './auth.js';
 import {
   type MessageParams,
+  type CountTokensParams,
+  type TokenCount,
   type StreamEvent,
   type SystemBlock,
   type Message,
   type ContentBlock,
   type CacheControl,
+  type RetryEvent,
   APIError,
   RateLimitError,
   AuthenticationError,
   OverloadedError,
+  PromptTooLongError,
 } from './types.js';
 import { parseSSE } from '../utils/streaming.js';
+import { estimateRequestTokens } from '../utils/tokens.js';
 
 // Constants
-const API_URL = 'https://api.anthropic.com/v1/messages';
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const MESSAGES_PATH = '/v1/messages';
+const COUNT_TOKENS_PATH = '/v1/messages/count_tokens';
 const ANTHROPIC_VERSION = '2023-06-01';
 
-// Beta features required for OAuth authentication
-const ANTHROPIC_BETA_FEATURES = [
+// Beta features only sent when the auth provider uses Claude Code OAuth
+const OAUTH_BETA_FEATURES = [
   'claude-code-20250219',
   'oauth-2025-04-20',
+];
+
+// Beta features sent with every request
+const ANTHROPIC_BETA_FEATURES = [
   'interleaved-thinking-2025-05-14',
   'fine-grained-tool-streaming-2025-05-14',
   'web-search-2025-03-05',
 ];
 
-// Required system prompt prefix for subscription auth
+// Required system prompt prefix for subscription auth (OAuth providers only)
 const REQUIRED_SYSTEM_PREFIX = "You are Claude Code, Anthropic's official CLI for Claude.";
 
+// Network-level error codes worth retrying
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+export interface RetryPolicy {
+  /** Maximum attempts per request, including the first (default: 4, 1 disables retries) */
+  maxAttempts?: number;
+  /** Base delay for exponential backoff in milliseconds (default: 1000) */
+  initialDelayMs?: number;
+  /** Upper bound on a single backoff delay in milliseconds (default: 60000) */
+  maxDelayMs?: number;
+  /** Random jitter as a fraction of the delay, 0-1 (default: 0.25) */
+  jitter?: number;
+  /** Called before waiting to retry (e.g., to show "retrying in Ns") */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export interface StreamMessageOptions {
+  /** Aborts a pending retry: the backoff wait rejects and no further attempt is made */
+  signal?: AbortSignal;
+}
+
 export interface AnthropicClientOptions extends TokenManagerOptions {
   /** Additional beta features to enable */
   additionalBetas?: string[];
   /** Request timeout in milliseconds (default: 5 minutes) */
   timeout?: number;
+  /** Retry policy for transient failures (429, 529, 5xx, network errors) */
+  retry?: RetryPolicy;
+  /** Auth provider (default: Claude Code OAuth credentials file) */
+  auth?: AuthProvider;
+  /** API base URL (default: https://api.anthropic.com) */
+  baseUrl?: string;
 }
 
 export class AnthropicClient {
   private tokenManager: TokenManager;
+  private auth: AuthProvider;
   private betaFeatures: string[];
+  private messagesUrl: string;
+  private countTokensUrl: string;
+  // Set once the count_tokens endpoint is rejected for this auth, to stop asking
+  private countTokensUnavailable = false;
   private timeout: number;
+  private retryPolicy: Required<Omit<RetryPolicy, 'onRetry'>> & Pick<RetryPolicy, 'onRetry'>;
 
   constructor(options: AnthropicClientOptions = {}) {
-    this.tokenManager = new TokenManager(options);
-    this.betaFeatures = [...ANTHROPIC_BETA_FEATURES, ...(options.additionalBetas ?? [])];
+    if (options.auth) {
+      this.auth = options.auth;
+      this.tokenManager =
+        options.auth instanceof OAuthAuthProvider
+          ? options.auth.getTokenManager()
+          : new TokenManager(options);
+    } else {
+      this.tokenManager = new TokenManager(options);
+      this.auth = new OAuthAuthProvider(this.tokenManager);
+    }
+    this.betaFeatures = [
+      ...(this.auth.requiresClaudeCodeIdentity ? OAUTH_BETA_FEATURES : []),
+      ...ANTHROPIC_BETA_FEATURES,
+      ...(options.additionalBetas ?? []),
+    ];
+    const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.messagesUrl = baseUrl + MESSAGES_PATH;
+    this.countTokensUrl = baseUrl + COUNT_TOKENS_PATH;
     this.timeout = options.timeout ?? 5 * 60 * 1000; // 5 minutes default
+    this.retryPolicy = {
+      maxAttempts: Math.max(1, options.retry?.maxAttempts ?? 4),
+      initialDelayMs: options.retry?.initialDelayMs ?? 1000,
+      maxDelayMs: options.retry?.maxDelayMs ?? 60_000,
+      jitter: Math.min(1, Math.max(0, options.retry?.jitter ?? 0.25)),
+      onRetry: options.retry?.onRetry,
+    };
   }
 
   /**
-   * Build the system prompt array, ensuring the required prefix comes first.
+   * Build the system prompt array, ensuring the required prefix comes first
+   * when the auth provider needs it.
    * Adds cache_control to system blocks for prompt caching optimization.
    */
   private buildSystemPrompt(system?: string | SystemBlock[]): SystemBlock[] {
-    const result: SystemBlock[] = [
-      {
-        type: 'text',
-        text: REQUIRED_SYSTEM_PREFIX,
-        cache_control: { type: 'ephemeral' },
-      },
-    ];
+    const result: SystemBlock[] = this.auth.requiresClaudeCodeIdentity
+      ? [
+          {
+            type: 'text',
+            text: REQUIRED_SYSTEM_PREFIX,
+            cache_control: { type: 'ephemeral' },
+          },
+        ]
+      : [];
 
     if (!system) {
       return result;
@@ -152,11 +233,11 @@ export class AnthropicClient {
    * Build request headers.
    */
   private async buildHeaders(forceRefresh = false): Promise<Record<string, string>> {
-    const accessToken = await this.tokenManager.getAccessToken(forceRefresh);
+    const authHeaders = await this.auth.getHeaders(forceRefresh);
 
     return {
       'Content-Type': 'application/json',
-      Authorization: `Bearer ${accessToken}`,
+      ...authHeaders,
       'anthropic-version': ANTHROPIC_VERSION,
       'anthropic-beta': this.betaFeatures.join(','),
     };
@@ -193,37 +274,86 @@ export class AnthropicClient {
         return new OverloadedError(errorMessage);
 
       default:
+        if (PromptTooLongError.matches(response.status, errorType, errorMessage)) {
+          return new PromptTooLongError(errorMessage, response.status, errorType);
+        }
         return new APIError(response.status, errorType, errorMessage);
     }
   }
 
   /**
-   * Stream a message request, yielding events as they arrive.
+   * Convert an in-stream SSE error event into the matching error type.
    */
-  async *streamMessage(params: MessageParams): AsyncGenerator<StreamEvent> {
-    // Inject cache breakpoints into messages for prompt caching
-    const messagesWithCache = this.injectCacheBreakpoints(params.messages);
+  private streamErrorToAPIError(error: { type: string; message: string }): APIError {
+    switch (error.type) {
+      case 'rate_limit_error':
+        return new RateLimitError(null, error.message);
+      case 'overloaded_error':
+        return new OverloadedError(error.message);
+      case 'api_error':
+        return new APIError(500, error.type, error.message);
+      default:
+        if (PromptTooLongError.matches(400, error.type, error.message)) {
+          return new PromptTooLongError(error.message, 400, error.type);
+        }
+        return new APIError(400, error.type, error.message);
+    }
+  }
 
-    // Build request body
-    const body = {
-      ...params,
-      messages: messagesWithCache,
-      system: this.buildSystemPrompt(params.system),
-      stream: true,
-    };
+  /**
+   * Whether an error is transient and the request may be retried.
+   */
+  private isRetryableError(error: unknown): boolean {
+    if (error instanceof RateLimitError || error instanceof OverloadedError) {
+      return true;
+    }
+    if (error instanceof APIError) {
+      return error.statusCode >= 500;
+    }
+    if (!(error instanceof Error)) {
+      return false;
+    }
+
+    // fetch() wraps network failures in a TypeError whose cause carries the
+    // code. Other TypeErrors are bugs, and AbortErrors are request timeouts or
+    // cancellations, so neither is retried.
+    const err = error as Error & { code?: string; cause?: { code?: string } };
+    const code = err.code ?? err.cause?.code;
+    return code !== undefined && RETRYABLE_NETWORK_CODES.has(code);
+  }
 
+  /**
+   * Compute the delay before the next attempt.
+   * Honors retry-after when the server sent one, otherwise exponential backoff with jitter.
+   */
+  private computeRetryDelay(attempt: number, error: unknown): number {
+    if (error instanceof RateLimitError && error.retryAfter !== null && !Number.isNaN(error.retryAfter)) {
+      return error.retryAfter * 1000;
+    }
+
+    const { initialDelayMs, maxDelayMs, jitter } = this.retryPolicy;
+    const base = Math.min(maxDelayMs, initialDelayMs * Math.pow(2, attempt - 1));
+    const spread = base * jitter;
+    return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+  }
+
+  /**
+   * POST a JSON body, refreshing credentials once on 401.
+   * Throws the parsed API error for non-2xx responses.
+   */
+  private async post(url: string, body: unknown): Promise<Response> {
     // First attempt
     let headers = await this.buildHeaders();
-    let response = await this.fetchWithTimeout(API_URL, {
+    let response = await this.fetchWithTimeout(url, {
       method: 'POST',
       headers,
       body: JSON.stringify(body),
     });
 
     // Retry on 401 with token refresh
-    if (response.status === 401) {
+    if (response.status === 401 && this.auth.refreshable) {
       headers = await this.buildHeaders(true);
-      response = await this.fetchWithTimeout(API_URL, {
+      response = await this.fetchWithTimeout(url, {
         method: 'POST',
         headers,
         body: JSON.stringify(body),
@@ -235,13 +365,124 @@ export class AnthropicClient {
       throw await this.parseError(response);
     }
 
-    // Stream the response
+    return response;
+  }
+
+  /**
+   * Send the request and return the response body stream.
+   */
+  private async openStream(body: unknown): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.post(this.messagesUrl, body);
+
     const stream = response.body;
     if (!stream) {
       throw new Error('Response body is null');
     }
 
-    yield* parseSSE(stream);
+    return stream;
+  }
+
+  /**
+   * Count the input tokens a request would use, via the count_tokens endpoint.
+   *
+   * Falls back to a local estimate (marked `estimated`) when the endpoint
+   * fails, e.g. offline or when the auth method doesn't allow it.
+   */
+  async countTokens(params: CountTokensParams): Promise<TokenCount> {
+    const body = {
+      model: params.model,
+      messages: params.messages,
+      system: this.buildSystemPrompt(params.system),
+      ...(params.tools && { tools: params.tools }),
+      ...(params.thinking && { thinking: params.thinking }),
+    };
+
+    if (!this.countTokensUnavailable) {
+      try {
+        const response = await this.post(this.countTokensUrl, body);
+        const result = (await response.json()) as { input_tokens: number };
+        return { input_tokens: result.input_tokens, estimated: false };
+      } catch (error) {
+        // Not found or forbidden won't change with retries; anything else might
+        if (error instanceof APIError && [401, 403, 404].includes(error.statusCode)) {
+          this.countTokensUnavailable = true;
+        }
+      }
+    }
+
+    return { input_tokens: estimateRequestTokens(body), estimated: true };
+  }
+
+  /**
+   * Stream a message request, yielding events as they arrive.
+   *
+   * Transient failures are retried according to the retry policy, including
+   * failures mid-stream as long as no content block has been yielded yet.
+   * A `retry` event is yielded before each backoff wait.
+   */
+  async *streamMessage(params: MessageParams, options: StreamMessageOptions = {}): AsyncGenerator<StreamEvent> {
+    // Inject cache breakpoints into messages for prompt caching
+    const messagesWithCache = this.injectCacheBreakpoints(params.messages);
+
+    // Build request body
+    const body = {
+      ...params,
+      messages: messagesWithCache,
+      system: this.buildSystemPrompt(params.system),
+      stream: true,
+    };
+
+    const { maxAttempts } = this.retryPolicy;
+
+    for (let attempt = 1; ; attempt++) {
+      // Hold back preamble events until content starts, so a retried
+      // attempt never leaves a half-delivered message behind
+      const preamble: StreamEvent[] = [];
+      let committed = false;
+
+      try {
+        const stream = await this.openStream(body);
+
+        for await (const event of parseSSE(stream)) {
+          if (!committed) {
+            if (event.type === 'message_start' || event.type === 'ping') {
+              preamble.push(event);
+              continue;
+            }
+            if (event.type === 'error') {
+              const error = this.streamErrorToAPIError(event.error);
+              if (this.isRetryableError(error)) {
+                throw error;
+              }
+            }
+            committed = true;
+            yield* preamble;
+          }
+          yield event;
+        }
+
+        if (!committed) {
+          yield* preamble;
+        }
+        return;
+      } catch (error) {
+        if (committed || attempt >= maxAttempts || !this.isRetryableError(error) || options.signal?.aborted) {
+          throw error;
+        }
+
+        const retryEvent: RetryEvent = {
+          type: 'retry',
+          attempt,
+          maxAttempts,
+          delayMs: this.computeRetryDelay(attempt, error),
+          error: error as Error,
+        };
+        this.retryPolicy.onRetry?.(retryEvent);
+        yield retryEvent;
+
+        await sleep(retryEvent.delayMs, undefined, { signal: options.signal });
+      }
+    }
   }
 
   /**
@@ -266,11 +507,19 @@ export class AnthropicClient {
 
   /**
    * Get the token manager for direct access (e.g., subscription info).
+   * Only meaningful when using the OAuth auth provider.
    */
   getTokenManager(): TokenManager {
     return this.tokenManager;
   }
 
+  /**
+   * Get the active auth provider.
+   */
+  getAuthProvider(): AuthProvider {
+    return this.auth;
+  }
+
   /**
    * Add a beta feature to requests.
    */
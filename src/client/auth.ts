@@ -0,0 +1,157 @@
+/**
+ * Authentication providers for the Anthropic API client.
+ *
+ * A provider supplies the auth headers for each request and declares whether
+ * the request must follow Claude Code's subscription conventions (required
+ * system prompt prefix and OAuth beta headers).
+ */
+
+import { TokenManager, type TokenManagerOptions } from './token-manager.js';
+
+/**
+ * How a token is presented to the API.
+ * - 'api-key': sent as `x-api-key` (console API keys)
+ * - 'oauth': sent as `Authorization: Bearer` (Claude subscription tokens)
+ */
+export type AuthScheme = 'api-key' | 'oauth';
+
+export interface AuthProvider {
+  /** Short name for diagnostics */
+  readonly name: string;
+  /** Whether requests need the Claude Code system prompt prefix and OAuth betas */
+  readonly requiresClaudeCodeIdentity: boolean;
+  /** Whether a 401 may be fixed by calling getHeaders(true) */
+  readonly refreshable: boolean;
+  /**
+   * Build auth headers for a request.
+   * `forceRefresh` is set after a 401 so the provider can renew its credentials.
+   */
+  getHeaders(forceRefresh?: boolean): Promise<Record<string, string>>;
+}
+
+function headersForScheme(scheme: AuthScheme, token: string): Record<string, string> {
+  return scheme === 'api-key'
+    ? { 'x-api-key': token }
+    : { Authorization: `Bearer ${token}` };
+}
+
+/**
+ * Plain API key auth (`x-api-key`).
+ */
+export class ApiKeyAuthProvider implements AuthProvider {
+  readonly name = 'api-key';
+  readonly requiresClaudeCodeIdentity = false;
+  readonly refreshable = false;
+
+  constructor(private apiKey: string) {
+    if (!apiKey) {
+      throw new Error('ApiKeyAuthProvider requires a non-empty API key');
+    }
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    return headersForScheme('api-key', this.apiKey);
+  }
+}
+
+/**
+ * Claude Code OAuth auth - reads and refreshes ~/.claude/.credentials.json.
+ */
+export class OAuthAuthProvider implements AuthProvider {
+  readonly name = 'oauth';
+  readonly requiresClaudeCodeIdentity = true;
+  readonly refreshable = true;
+  private tokenManager: TokenManager;
+
+  constructor(tokenManager: TokenManager | TokenManagerOptions = {}) {
+    this.tokenManager =
+      tokenManager instanceof TokenManager ? tokenManager : new TokenManager(tokenManager);
+  }
+
+  async getHeaders(forceRefresh = false): Promise<Record<string, string>> {
+    const accessToken = await this.tokenManager.getAccessToken(forceRefresh);
+    return headersForScheme('oauth', accessToken);
+  }
+
+  /**
+   * Get the underlying token manager (e.g., for subscription info).
+   */
+  getTokenManager(): TokenManager {
+    return this.tokenManager;
+  }
+}
+
+export interface EnvAuthProviderOptions {
+  /** Environment variable holding the token (default depends on scheme) */
+  variable?: string;
+  /** How the token is sent (default: 'api-key') */
+  scheme?: AuthScheme;
+  /** Environment to read from (default: process.env) */
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Token read from an environment variable.
+ * Defaults to ANTHROPIC_API_KEY for 'api-key' and CLAUDE_CODE_OAUTH_TOKEN for 'oauth'.
+ * The variable is read on every request so rotated values are picked up.
+ */
+export class EnvAuthProvider implements AuthProvider {
+  readonly name = 'env';
+  readonly requiresClaudeCodeIdentity: boolean;
+  readonly refreshable = true;
+  private variable: string;
+  private scheme: AuthScheme;
+  private env: NodeJS.ProcessEnv;
+
+  constructor(options: EnvAuthProviderOptions = {}) {
+    this.scheme = options.scheme ?? 'api-key';
+    this.variable =
+      options.variable ?? (this.scheme === 'api-key' ? 'ANTHROPIC_API_KEY' : 'CLAUDE_CODE_OAUTH_TOKEN');
+    this.env = options.env ?? process.env;
+    this.requiresClaudeCodeIdentity = this.scheme === 'oauth';
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    const token = this.env[this.variable];
+    if (!token) {
+      throw new Error(`Environment variable ${this.variable} is not set`);
+    }
+    return headersForScheme(this.scheme, token);
+  }
+}
+
+/**
+ * Callback that returns a token. `forceRefresh` is set after a 401.
+ */
+export type AuthTokenCallback = (forceRefresh: boolean) => Promise<string> | string;
+
+export interface CallbackAuthProviderOptions {
+  /** How the token is sent (default: 'api-key') */
+  scheme?: AuthScheme;
+}
+
+/**
+ * Custom async callback auth (e.g., tokens fetched from a secrets manager).
+ */
+export class CallbackAuthProvider implements AuthProvider {
+  readonly name = 'callback';
+  readonly requiresClaudeCodeIdentity: boolean;
+  readonly refreshable = true;
+  private scheme: AuthScheme;
+
+  constructor(
+    private callback: AuthTokenCallback,
+    options: CallbackAuthProviderOptions = {}
+  ) {
+    this.scheme = options.scheme ?? 'api-key';
+    this.requiresClaudeCodeIdentity = this.scheme === 'oauth';
+  }
+
+  async getHeaders(forceRefresh = false): Promise<Record<string, string>> {
+    const token = await this.callback(forceRefresh);
+    if (!token) {
+      throw new Error('Auth callback returned an empty token');
+    }
+    return headersForScheme(this.scheme, token);
+  }
+}
@@ -11,21 +11,25 @@ import type { Credentials, ClaudeOAuth, SubscriptionInfo } from './types.js';
 
 // Constants
 const CLAUDE_CODE_CLIENT_ID = '9d1c250a-e61b-44d9-88ed-5944d1962f5e';
-const TOKEN_REFRESH_URL = 'https://console.anthropic.com/v1/oauth/token';
+const DEFAULT_TOKEN_REFRESH_URL = 'https://console.anthropic.com/v1/oauth/token';
 const TOKEN_EXPIRY_BUFFER_MS = 5 * 60 * 1000; // 5 minutes
 
 export interface TokenManagerOptions {
   credentialsPath?: string;
+  /** OAuth token refresh endpoint (default: https://console.anthropic.com/v1/oauth/token) */
+  tokenRefreshUrl?: string;
 }
 
 export class TokenManager {
   private credentialsPath: string;
+  private tokenRefreshUrl: string;
   private cachedCredentials: Credentials | null = null;
   private lastReadTime = 0;
   private readonly CACHE_TTL_MS = 10_000; // Re-read file every 10 seconds max
 
   constructor(options: TokenManagerOptions = {}) {
     this.credentialsPath = options.credentialsPath ?? this.findCredentialsPath();
+    this.tokenRefreshUrl = options.tokenRefreshUrl ?? DEFAULT_TOKEN_REFRESH_URL;
   }
 
   private findCredentialsPath(): string {
@@ -110,7 +114,7 @@ export class TokenManager {
       throw new Error("No refresh token available. Please run 'claude login'.");
     }
 
-    const response = await fetch(TOKEN_REFRESH_URL, {
+    const response = await fetch(this.tokenRefreshUrl, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
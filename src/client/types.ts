@@ -173,6 +173,15 @@ export interface MessageParams {
   stream?: boolean;
 }
 
+/** Request fields that count toward input tokens */
+export type CountTokensParams = Pick<MessageParams, 'model' | 'messages' | 'system' | 'tools' | 'thinking'>;
+
+export interface TokenCount {
+  input_tokens: number;
+  /** True when the count_tokens endpoint was unavailable and the count is a local estimate */
+  estimated: boolean;
+}
+
 // API response types
 export interface Usage {
   input_tokens: number;
@@ -260,6 +269,21 @@ export interface ErrorEvent {
   };
 }
 
+/**
+ * Emitted by AnthropicClient (not the API) before waiting to retry a failed request.
+ */
+export interface RetryEvent {
+  type: 'retry';
+  /** The attempt that just failed (1-based) */
+  attempt: number;
+  /** Maximum attempts allowed by the retry policy */
+  maxAttempts: number;
+  /** How long the client will wait before the next attempt */
+  delayMs: number;
+  /** The error that triggered the retry */
+  error: Error;
+}
+
 export type StreamEvent =
   | MessageStartEvent
   | ContentBlockStartEvent
@@ -268,7 +292,8 @@ export type StreamEvent =
   | MessageDeltaEvent
   | MessageStopEvent
   | PingEvent
-  | ErrorEvent;
+  | ErrorEvent
+  | RetryEvent;
 
 // Error types
 export class APIError extends Error {
@@ -305,3 +330,33 @@ export class OverloadedError extends APIError {
     this.name = 'OverloadedError';
   }
 }
+
+/**
+ * The request doesn't fit the model's context window (or the API's request size limit).
+ */
+export class PromptTooLongError extends APIError {
+  /** Tokens in the rejected prompt, when the API reported them */
+  public promptTokens: number | null;
+  /** The context limit, when the API reported it */
+  public maxTokens: number | null;
+
+  constructor(message: string, statusCode = 400, errorType = 'invalid_request_error') {
+    super(statusCode, errorType, message);
+    this.name = 'PromptTooLongError';
+    // e.g. "prompt is too long: 210000 tokens > 200000 maximum"
+    const match = /(\d+) tokens? > (\d+)/.exec(message);
+    this.promptTokens = match ? Number(match[1]) : null;
+    this.maxTokens = match ? Number(match[2]) : null;
+  }
+
+  /**
+   * Whether an error response means the request was too long.
+   */
+  static matches(statusCode: number, errorType: string, message: string): boolean {
+    return (
+      statusCode === 413 ||
+      errorType === 'request_too_large' ||
+      (statusCode === 400 && /prompt is too long|exceeds? the (maximum )?context|context (window|length)/i.test(message))
+    );
+  }
+}
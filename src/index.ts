@@ -6,8 +6,25 @@
  */
 
 // Client exports
-export { AnthropicClient, TokenManager, type AnthropicClientOptions } from './client/api-client.js';
+export {
+  AnthropicClient,
+  TokenManager,
+  type AnthropicClientOptions,
+  type RetryPolicy,
+  type StreamMessageOptions,
+} from './client/api-client.js';
 export type { TokenManagerOptions } from './client/token-manager.js';
+export {
+  ApiKeyAuthProvider,
+  OAuthAuthProvider,
+  EnvAuthProvider,
+  CallbackAuthProvider,
+  type AuthProvider,
+  type AuthScheme,
+  type AuthTokenCallback,
+  type EnvAuthProviderOptions,
+  type CallbackAuthProviderOptions,
+} from './client/auth.js';
 export type {
   Message,
   ContentBlock,
@@ -16,12 +33,15 @@ export type {
   ToolResultContent,
   ThinkingContent,
   SystemBlock,
+  CountTokensParams,
+  TokenCount,
   Usage,
   StreamEvent,
   APIError,
   RateLimitError,
   AuthenticationError,
   OverloadedError,
+  PromptTooLongError,
 } from './client/types.js';
 
 // Agent exports
@@ -30,17 +50,106 @@ export type {
   RunParams,
   ThinkingConfig,
   AutoCompactConfig,
+  ParallelToolConfig,
+  ToolProgressConfig,
+  ToolResultElisionConfig,
+  OverflowRecoveryConfig,
   AgentEvent,
   ThinkingEvent,
   TextEvent,
   ToolUseEvent,
   ToolResultEvent,
+  ToolProgressEvent,
   TurnCompleteEvent,
   DoneEvent,
   ErrorEvent,
+  RetryEvent,
   CompactEvent,
+  ElideEvent,
+  BudgetEvent,
 } from './agent/types.js';
-export { HookRegistry, type Hook, type HookEvent, type HookResult } from './agent/hooks.js';
+export {
+  HookRegistry,
+  type Hook,
+  type HookConfig,
+  type HookErrorPolicy,
+  type HookEvent,
+  type HookInput,
+  type HookRegistryOptions,
+  type HookResult,
+} from './agent/hooks.js';
+export { createCommandHook, loadCommandHooks, type CommandHookConfig } from './agent/command-hooks.js';
+export {
+  PermissionManager,
+  setPermissionHandler,
+  clearPermissionHandler,
+  type PermissionConfig,
+  type PermissionRules,
+  type PermissionDecision,
+  type PermissionRequest,
+  type PermissionApprovalHandler,
+  type PermissionCheckResult,
+} from './agent/permissions.js';
+export {
+  createOutputTool,
+  OUTPUT_TOOL_NAME,
+  type OutputTool,
+  type OutputValidation,
+} from './agent/structured-output.js';
+export {
+  SecretRedactor,
+  shannonEntropy,
+  type RedactionConfig,
+  type RedactionPattern,
+  type SecretDetector,
+  type SecretMatch,
+} from './agent/redaction.js';
+export {
+  BudgetTracker,
+  type BudgetConfig,
+  type BudgetLimit,
+  type BudgetUsage,
+  type BudgetCrossing,
+  type BudgetStatus,
+} from './agent/budget.js';
+export {
+  CheckpointStore,
+  getDefaultCheckpointDir,
+  type Checkpoint,
+  type CheckpointOptions,
+  type FileSnapshot,
+  type RewindResult,
+} from './agent/checkpoints.js';
+export {
+  createCompactor,
+  summarizeConversation,
+  findCompactionSplit,
+  renderConversation,
+  countKeptMessages,
+  SUMMARY_PREFIX,
+  type Compactor,
+  type CompactorOptions,
+} from './agent/compaction.js';
+export {
+  elideToolResults,
+  ELIDED_PREFIX,
+  type ElisionOptions,
+  type ElisionResult,
+} from './agent/elision.js';
+export {
+  UsageLedger,
+  findModelPrice,
+  DEFAULT_PRICES,
+  MAIN_AGENT,
+  USER_PROMPT,
+  type ModelPrice,
+  type PriceTable,
+  type UsageRecord,
+  type UsageTotals,
+  type UsageReport,
+  type UsageEntry,
+  type UsageLedgerOptions,
+} from './agent/usage.js';
 export {
   ContextTracker,
   estimateTokens,
@@ -61,6 +170,8 @@ export {
   type TranscriptWriterOptions,
   type TruncationInfo,
   type LoadTranscriptResult,
+  type PermissionDecisionEntry,
+  type CompactBoundaryEntry,
 } from './agent/transcript.js';
 
 // Tool exports
@@ -68,11 +179,13 @@ export type {
   ToolDefinition,
   ToolContext,
   ToolResult,
+  ToolProgress,
   ToolResultContent as ToolOutputContent,
   JSONSchema,
 } from './tools/types.js';
 export { toAPIToolDefinition, ToolTimeoutError, ToolNotFoundError } from './tools/types.js';
 export { ToolRegistry, type ToolRegistryOptions } from './tools/registry.js';
+export { defineTool, schema, type FromSchema, type SchemaLike, type TypedToolDefinition } from './tools/define.js';
 
 // Built-in tools
 export {
@@ -81,6 +194,8 @@ export {
   readTool,
   writeTool,
   editTool,
+  multiEditTool,
+  applyPatchTool,
   bashTool,
   globTool,
   grepTool,
@@ -95,7 +210,16 @@ export {
   clearTodos,
   setAskUserHandler,
   clearAskUserHandler,
+  closeShellSession,
+  closeAllShellSessions,
+  isSandboxAvailable,
+  FileStateTracker,
+  getFileStateTracker,
+  clearFileState,
+  type FileState,
   type AskUserHandler,
+  type SandboxBackend,
+  type SandboxConfig,
 } from './tools/builtin/index.js';
 
 // Task/Worker exports
@@ -125,8 +249,44 @@ export {
   type MCPServerStatus,
   type MCPToolDefinition,
   type MCPToolCallResult,
+  type MCPProgressParams,
+  type MCPProgressHandler,
 } from './mcp/index.js';
 
+// Testing exports
+export {
+  MockMessagesServer,
+  type MockMessagesServerOptions,
+  type MockTurn,
+  type MockMessageTurn,
+  type MockErrorTurn,
+  type MockStreamErrorTurn,
+  type MockContentBlock,
+  type MockRequest,
+  type MockTokenCounter,
+} from './testing/mock-server.js';
+
 // Utility exports
 export { parseSSE, collectStreamEvents } from './utils/streaming.js';
+export {
+  estimateRequestTokens,
+  estimateMessageTokens,
+  estimateContentTokens,
+  estimateTextTokens,
+  estimateImageTokens,
+} from './utils/tokens.js';
+export { validateSchema, formatSchemaErrors, type SchemaError } from './utils/json-schema.js';
 
+export {
+  createFileDiff,
+  formatUnifiedDiff,
+  type FileDiff,
+  type DiffHunk,
+} from './utils/diff.js';
+export {
+  parsePatch,
+  applyHunks,
+  PatchParseError,
+  type FilePatch,
+  type HunkApplication,
+} from './utils/patch.js';
@@ -6,11 +6,14 @@ import type { ChildProcess } from 'node:child_process';
 import type {
   JsonRpcRequest,
   JsonRpcResponse,
+  JsonRpcNotification,
   MCPInitializeParams,
   MCPInitializeResult,
   MCPToolsListResult,
   MCPToolCallParams,
   MCPToolCallResult,
+  MCPProgressParams,
+  MCPProgressHandler,
 } from './types.js';
 import { MCPRequestTimeoutError, MCPCallError } from './types.js';
 
@@ -32,6 +35,8 @@ export class MCPClient {
       timeout: NodeJS.Timeout;
     }
   > = new Map();
+  private progressCounter = 0;
+  private progressHandlers: Map<string | number, MCPProgressHandler> = new Map();
   private buffer = '';
   private initialized = false;
 
@@ -85,7 +90,12 @@ export class MCPClient {
     }
   }
 
-  private handleMessage(message: JsonRpcResponse): void {
+  private handleMessage(message: JsonRpcResponse | JsonRpcNotification): void {
+    if ('method' in message) {
+      this.handleNotification(message);
+      return;
+    }
+
     // Check if this is a response to a pending request
     if ('id' in message && message.id !== null) {
       const pending = this.pendingRequests.get(message.id);
@@ -107,7 +117,16 @@ export class MCPClient {
         }
       }
     }
-    // Notifications (no id) are handled silently for now
+  }
+
+  private handleNotification(notification: JsonRpcNotification): void {
+    if (notification.method === 'notifications/progress') {
+      const params = notification.params as MCPProgressParams | undefined;
+      if (params) {
+        this.progressHandlers.get(params.progressToken)?.(params);
+      }
+    }
+    // Other notifications are handled silently for now
   }
 
   private async sendRequest<T>(method: string, params?: unknown): Promise<T> {
@@ -179,9 +198,14 @@ export class MCPClient {
   }
 
   /**
-   * Call a tool.
+   * Call a tool. If onProgress is given, the server is sent a progress token
+   * and its progress notifications are forwarded until the call completes.
    */
-  async callTool(name: string, args?: Record<string, unknown>): Promise<MCPToolCallResult> {
+  async callTool(
+    name: string,
+    args?: Record<string, unknown>,
+    onProgress?: MCPProgressHandler
+  ): Promise<MCPToolCallResult> {
     if (!this.initialized) {
       throw new Error('MCP client not initialized');
     }
@@ -191,7 +215,18 @@ export class MCPClient {
       arguments: args,
     };
 
-    return this.sendRequest<MCPToolCallResult>('tools/call', params);
+    if (!onProgress) {
+      return this.sendRequest<MCPToolCallResult>('tools/call', params);
+    }
+
+    const progressToken = `progress_${++this.progressCounter}`;
+    params._meta = { progressToken };
+    this.progressHandlers.set(progressToken, onProgress);
+    try {
+      return await this.sendRequest<MCPToolCallResult>('tools/call', params);
+    } finally {
+      this.progressHandlers.delete(progressToken);
+    }
   }
 
   /**
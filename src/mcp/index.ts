@@ -10,6 +10,8 @@ export {
   type MCPServerStatus,
   type MCPToolDefinition,
   type MCPToolCallResult,
+  type MCPProgressParams,
+  type MCPProgressHandler,
   MCPServerUnavailableError,
   MCPRequestTimeoutError,
   MCPCallError,
@@ -16,9 +16,10 @@ import type {
   MCPServerStatus,
   MCPToolDefinition,
   MCPToolCallResult,
+  MCPProgressHandler,
 } from './types.js';
 import { MCPServerUnavailableError } from './types.js';
-import type { ToolDefinition, ToolResult } from '../tools/types.js';
+import type { ToolContext, ToolDefinition, ToolResult } from '../tools/types.js';
 
 export interface MCPManagerConfig {
   servers: Record<string, MCPServerConfig>;
@@ -205,7 +206,8 @@ export class MCPServerManager {
   async callTool(
     serverName: string,
     toolName: string,
-    args?: Record<string, unknown>
+    args?: Record<string, unknown>,
+    onProgress?: MCPProgressHandler
   ): Promise<MCPToolCallResult> {
     const server = await this.ensureConnected(serverName);
 
@@ -213,7 +215,7 @@ export class MCPServerManager {
       throw new MCPServerUnavailableError(serverName);
     }
 
-    return server.client.callTool(toolName, args);
+    return server.client.callTool(toolName, args, onProgress);
   }
 
   /**
@@ -263,12 +265,20 @@ export class MCPServerManager {
       name: fullName,
       description: mcpTool.description ?? `MCP tool: ${mcpTool.name}`,
       input_schema: mcpTool.inputSchema as import('../tools/types.js').JSONSchema,
-      execute: async (input: unknown): Promise<ToolResult> => {
+      execute: async (input: unknown, context: ToolContext): Promise<ToolResult> => {
         try {
+          const onProgress = context?.onProgress;
           const result = await this.callTool(
             serverName,
             mcpTool.name,
-            input as Record<string, unknown>
+            input as Record<string, unknown>,
+            onProgress
+              ? (progress) => {
+                  const total = progress.total !== undefined ? `/${progress.total}` : '';
+                  const message = progress.message ? ` ${progress.message}` : '';
+                  onProgress({ content: `[${progress.progress}${total}]${message}\n` });
+                }
+              : undefined
           );
 
           // Convert MCP result to ToolResult
@@ -49,8 +49,18 @@ export interface MCPToolsListResult {
 export interface MCPToolCallParams {
   name: string;
   arguments?: Record<string, unknown>;
+  _meta?: { progressToken?: string | number };
 }
 
+export interface MCPProgressParams {
+  progressToken: string | number;
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export type MCPProgressHandler = (progress: MCPProgressParams) => void;
+
 export interface MCPToolCallResult {
   content: Array<{
     type: 'text' | 'image' | 'resource';
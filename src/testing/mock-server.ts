@@ -0,0 +1,342 @@
+/**
+ * Mock Messages API server - Replays scripted turns over streaming SSE.
+ *
+ * Speaks the same event stream that parseSSE consumes, so AgentLoop can be
+ * exercised end-to-end without network access:
+ *
+ *   const server = new MockMessagesServer();
+ *   const baseUrl = await server.start();
+ *   server.enqueue({ type: 'message', content: [{ type: 'text', text: 'Hi' }] });
+ *   const loop = new AgentLoop({ baseUrl, auth: new ApiKeyAuthProvider('test') });
+ *
+ * count_tokens requests are answered with the local estimate unless a
+ * counter is set with setTokenCounter().
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { CountTokensParams, MessageParams, StreamEvent, Usage } from '../client/types.js';
+import { estimateRequestTokens } from '../utils/tokens.js';
+
+export type MockContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; thinking: string; signature: string }
+  | {
+      type: 'tool_use';
+      id?: string;
+      name: string;
+      input: unknown;
+      /** Streamed as-is instead of the JSON-encoded input, e.g. to send malformed JSON */
+      rawInput?: string;
+    };
+
+/** A successful streamed response */
+export interface MockMessageTurn {
+  type: 'message';
+  content: MockContentBlock[];
+  /** Defaults to 'tool_use' when content has a tool_use block, else 'end_turn' */
+  stopReason?: 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence';
+  usage?: Partial<Usage>;
+}
+
+/** An HTTP error response (e.g., 429 with retry-after, 529 overloaded) */
+export interface MockErrorTurn {
+  type: 'error';
+  status: number;
+  errorType: string;
+  message?: string;
+  /** Seconds, sent as the retry-after header */
+  retryAfter?: number;
+}
+
+/** A 200 response whose stream fails with an SSE error event after message_start */
+export interface MockStreamErrorTurn {
+  type: 'stream_error';
+  errorType: string;
+  message?: string;
+}
+
+export type MockTurn = MockMessageTurn | MockErrorTurn | MockStreamErrorTurn;
+
+/** A request received by the mock server */
+export interface MockRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: MessageParams;
+}
+
+/** Computes the input_tokens answer for a count_tokens request */
+export type MockTokenCounter = (params: CountTokensParams) => number;
+
+export interface MockMessagesServerOptions {
+  /** Port to listen on (default: 0, any free port) */
+  port?: number;
+  /** Characters per input_json_delta chunk for tool_use blocks (default: 16) */
+  jsonChunkSize?: number;
+}
+
+export class MockMessagesServer {
+  private server: Server | null = null;
+  private turns: MockTurn[] = [];
+  private received: MockRequest[] = [];
+  private countRequestsReceived: CountTokensParams[] = [];
+  private tokenCounter: MockTokenCounter | null = null;
+  private port: number;
+  private jsonChunkSize: number;
+  private messageCounter = 0;
+
+  constructor(options: MockMessagesServerOptions = {}) {
+    this.port = options.port ?? 0;
+    this.jsonChunkSize = Math.max(1, options.jsonChunkSize ?? 16);
+  }
+
+  /**
+   * Start listening. Returns the base URL to pass as `baseUrl`.
+   */
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.getBaseUrl();
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        res.writeHead(500, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ error: { type: 'api_error', message: (error as Error).message } }));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, '127.0.0.1', () => resolve());
+    });
+
+    this.server = server;
+    return this.getBaseUrl();
+  }
+
+  /**
+   * Stop the server.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Get the base URL of the running server.
+   */
+  getBaseUrl(): string {
+    if (!this.server) {
+      throw new Error('MockMessagesServer is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Queue turns to replay, one per incoming request, in order.
+   */
+  enqueue(...turns: MockTurn[]): void {
+    this.turns.push(...turns);
+  }
+
+  /**
+   * Number of queued turns not yet replayed.
+   */
+  pendingTurns(): number {
+    return this.turns.length;
+  }
+
+  /**
+   * Requests received so far.
+   */
+  get requests(): MockRequest[] {
+    return [...this.received];
+  }
+
+  /**
+   * count_tokens requests received so far.
+   */
+  get countRequests(): CountTokensParams[] {
+    return [...this.countRequestsReceived];
+  }
+
+  /**
+   * Answer count_tokens requests with a custom counter (null restores the local estimate).
+   */
+  setTokenCounter(counter: MockTokenCounter | null): void {
+    this.tokenCounter = counter;
+  }
+
+  /**
+   * Clear queued turns, recorded requests and the token counter.
+   */
+  reset(): void {
+    this.turns = [];
+    this.received = [];
+    this.countRequestsReceived = [];
+    this.tokenCounter = null;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    if (req.method !== 'POST' || !req.url?.startsWith('/v1/messages')) {
+      this.sendError(res, 404, 'not_found_error', `No mock route for ${req.method} ${req.url}`);
+      return;
+    }
+
+    if (req.url.startsWith('/v1/messages/count_tokens')) {
+      const params = JSON.parse(Buffer.concat(chunks).toString('utf-8')) as CountTokensParams;
+      this.countRequestsReceived.push(params);
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ input_tokens: (this.tokenCounter ?? estimateRequestTokens)(params) }));
+      return;
+    }
+
+    this.received.push({
+      headers: req.headers,
+      body: JSON.parse(Buffer.concat(chunks).toString('utf-8')) as MessageParams,
+    });
+
+    const turn = this.turns.shift();
+    if (!turn) {
+      this.sendError(res, 500, 'api_error', 'MockMessagesServer: no scripted turn left');
+      return;
+    }
+
+    switch (turn.type) {
+      case 'error':
+        this.sendError(
+          res,
+          turn.status,
+          turn.errorType,
+          turn.message ?? turn.errorType,
+          turn.retryAfter !== undefined ? { 'retry-after': String(turn.retryAfter) } : {}
+        );
+        return;
+
+      case 'stream_error':
+        this.startStream(res);
+        this.writeEvent(res, this.messageStart({}));
+        this.writeEvent(res, {
+          type: 'error',
+          error: { type: turn.errorType, message: turn.message ?? turn.errorType },
+        });
+        res.end();
+        return;
+
+      case 'message':
+        this.startStream(res);
+        for (const event of this.messageEvents(turn)) {
+          this.writeEvent(res, event);
+        }
+        res.end();
+        return;
+    }
+  }
+
+  private sendError(
+    res: ServerResponse,
+    status: number,
+    errorType: string,
+    message: string,
+    headers: Record<string, string> = {}
+  ): void {
+    res.writeHead(status, { 'content-type': 'application/json', ...headers });
+    res.end(JSON.stringify({ type: 'error', error: { type: errorType, message } }));
+  }
+
+  private startStream(res: ServerResponse): void {
+    res.writeHead(200, {
+      'content-type': 'text/event-stream',
+      'cache-control': 'no-cache',
+    });
+  }
+
+  private writeEvent(res: ServerResponse, event: StreamEvent): void {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+
+  private messageStart(usage: Partial<Usage>): StreamEvent {
+    return {
+      type: 'message_start',
+      message: {
+        id: `msg_mock_${++this.messageCounter}`,
+        type: 'message',
+        role: 'assistant',
+        content: [],
+        model: 'mock-model',
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 1, ...usage },
+      },
+    };
+  }
+
+  /**
+   * Build the full SSE event sequence for a message turn.
+   */
+  private messageEvents(turn: MockMessageTurn): StreamEvent[] {
+    const events: StreamEvent[] = [this.messageStart(turn.usage ?? {})];
+    let toolCounter = 0;
+
+    turn.content.forEach((block, index) => {
+      switch (block.type) {
+        case 'text':
+          events.push(
+            { type: 'content_block_start', index, content_block: { type: 'text', text: '' } },
+            { type: 'content_block_delta', index, delta: { type: 'text_delta', text: block.text } }
+          );
+          break;
+
+        case 'thinking':
+          events.push(
+            { type: 'content_block_start', index, content_block: { type: 'thinking', thinking: '' } },
+            { type: 'content_block_delta', index, delta: { type: 'thinking_delta', thinking: block.thinking } },
+            { type: 'content_block_delta', index, delta: { type: 'signature_delta', signature: block.signature } }
+          );
+          break;
+
+        case 'tool_use': {
+          const id = block.id ?? `toolu_mock_${this.messageCounter}_${++toolCounter}`;
+          events.push({
+            type: 'content_block_start',
+            index,
+            content_block: { type: 'tool_use', id, name: block.name, input: {} },
+          });
+          const json = block.rawInput ?? JSON.stringify(block.input ?? {});
+          for (let i = 0; i < json.length; i += this.jsonChunkSize) {
+            events.push({
+              type: 'content_block_delta',
+              index,
+              delta: { type: 'input_json_delta', partial_json: json.slice(i, i + this.jsonChunkSize) },
+            });
+          }
+          break;
+        }
+      }
+      events.push({ type: 'content_block_stop', index });
+    });
+
+    const stopReason =
+      turn.stopReason ?? (turn.content.some((b) => b.type === 'tool_use') ? 'tool_use' : 'end_turn');
+
+    events.push(
+      {
+        type: 'message_delta',
+        delta: { stop_reason: stopReason },
+        usage: { output_tokens: turn.usage?.output_tokens ?? 1 },
+      },
+      { type: 'message_stop' }
+    );
+
+    return events;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * ApplyPatch tool - Apply a unified diff across one or more files.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { ToolDefinition, ToolContext, ToolResult } from '../types.js';
+import {
+  MAX_RESULT_DIFF_LINES,
+  createFileDiff,
+  diffPath,
+  formatUnifiedDiff,
+  type FileDiff,
+} from '../../utils/diff.js';
+import { applyHunks, parsePatch, PatchParseError, type HunkApplication } from '../../utils/patch.js';
+import { getFileStateTracker } from './file-state.js';
+
+interface ApplyPatchInput {
+  patch: string;
+  dry_run?: boolean;
+}
+
+/** Planned final state of one file */
+interface FileChange {
+  absolutePath: string;
+  /** Content before the patch, or null if the file didn't exist */
+  original: string | null;
+  /** Content after the patch, or null if the file is deleted */
+  updated: string | null;
+  notes: string[];
+}
+
+export const applyPatchTool: ToolDefinition = {
+  name: 'ApplyPatch',
+  description: `Applies a unified diff (as produced by \`diff -u\` or \`git diff\`) to one or more files.
+
+Usage:
+- Each file needs "--- a/path" and "+++ b/path" headers followed by "@@ -l,s +l,s @@" hunks; paths are relative to the working directory
+- Use /dev/null as the old path to create a file, or as the new path to delete one
+- Include about 3 lines of unchanged context around each change so hunks can be located
+- Hunks are matched near their stated line numbers, tolerating shifted lines, whitespace differences and slightly wrong context
+- Existing files must have been read with the Read tool first, and must not have changed since
+- The patch is all-or-nothing: if any hunk fails, no files are changed
+- Use dry_run to check that a patch applies without changing anything`,
+
+  input_schema: {
+    type: 'object',
+    properties: {
+      patch: {
+        type: 'string',
+        description: 'The unified diff to apply',
+      },
+      dry_run: {
+        type: 'boolean',
+        default: false,
+        description: 'Validate the patch and report the changes without writing files (default false)',
+      },
+    },
+    required: ['patch'],
+    additionalProperties: false,
+  },
+
+  async execute(input: unknown, context: ToolContext): Promise<ToolResult> {
+    const params = input as ApplyPatchInput;
+
+    let filePatches;
+    try {
+      filePatches = parsePatch(params.patch ?? '');
+    } catch (error) {
+      if (error instanceof PatchParseError) {
+        return {
+          content: `Error: ${error.message}`,
+          is_error: true,
+        };
+      }
+      throw error;
+    }
+
+    const tracker = context.sessionId ? getFileStateTracker(context.sessionId) : null;
+    const resolve = (filePath: string) => path.resolve(context.workingDir, filePath);
+
+    // Plan every change in memory first; nothing is written unless all succeed
+    const changes = new Map<string, FileChange>();
+    const errors: string[] = [];
+
+    const load = async (absolutePath: string): Promise<FileChange> => {
+      let change = changes.get(absolutePath);
+      if (!change) {
+        let original: string | null = null;
+        try {
+          original = await fs.readFile(absolutePath, 'utf-8');
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        }
+        change = { absolutePath, original, updated: original, notes: [] };
+        changes.set(absolutePath, change);
+      }
+      return change;
+    };
+
+    try {
+      for (const filePatch of filePatches) {
+        const sourcePath = filePatch.oldPath ?? filePatch.newPath!;
+        const source = await load(resolve(sourcePath));
+        const label = diffPath(source.absolutePath, context.workingDir);
+
+        if (filePatch.oldPath === null && source.updated !== null) {
+          errors.push(`${label}: cannot create file, it already exists`);
+          continue;
+        }
+        if (filePatch.oldPath !== null && source.updated === null) {
+          errors.push(`${label}: file not found`);
+          continue;
+        }
+
+        const staleError = source.original !== null ? await tracker?.checkWritable(source.absolutePath) : null;
+        if (staleError) {
+          errors.push(staleError.replace(/^Error: /, ''));
+          continue;
+        }
+
+        const result = applyHunks(source.updated ?? '', filePatch.hunks);
+        if ('error' in result) {
+          errors.push(`${label}: ${result.error}`);
+          continue;
+        }
+        source.notes.push(...describeHunks(result.applied));
+
+        if (filePatch.newPath === null) {
+          source.updated = null;
+        } else if (resolve(filePatch.newPath) !== source.absolutePath) {
+          // Rename: the old path goes away and the new path gets the content
+          const target = await load(resolve(filePatch.newPath));
+          if (target.updated !== null) {
+            errors.push(`${diffPath(target.absolutePath, context.workingDir)}: cannot rename onto an existing file`);
+            continue;
+          }
+          source.updated = null;
+          target.updated = result.content;
+        } else {
+          source.updated = result.content;
+        }
+      }
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException;
+      return {
+        content: `Error reading files for patch: ${err.message}`,
+        is_error: true,
+      };
+    }
+
+    if (errors.length > 0) {
+      return {
+        content: `Error: Patch does not apply. No files were changed.\n\n${errors.map((e) => `- ${e}`).join('\n')}`,
+        is_error: true,
+      };
+    }
+
+    const planned = [...changes.values()].filter((change) => change.original !== change.updated);
+    const diffs: FileDiff[] = planned.map((change) =>
+      createFileDiff(diffPath(change.absolutePath, context.workingDir), change.original, change.updated)
+    );
+
+    const summary = planned.map((change, i) => {
+      const diff = diffs[i];
+      const notes = change.notes.length > 0 ? ` (${change.notes.join('; ')})` : '';
+      return `- ${diff.type} ${diff.filePath}: +${diff.additions} -${diff.deletions}${notes}`;
+    });
+
+    if (params.dry_run) {
+      return {
+        content: `Patch applies cleanly (dry run, no files changed):\n${summary.join('\n')}`,
+        is_error: false,
+        diffs,
+      };
+    }
+
+    // Write everything, restoring what was already written if a write fails
+    const written: FileChange[] = [];
+    try {
+      for (const change of planned) {
+        await context.beforeFileChange?.(change.absolutePath);
+      }
+      for (const change of planned) {
+        if (change.updated === null) {
+          await fs.rm(change.absolutePath, { force: true });
+        } else {
+          await fs.mkdir(path.dirname(change.absolutePath), { recursive: true });
+          await fs.writeFile(change.absolutePath, change.updated, 'utf-8');
+        }
+        written.push(change);
+      }
+    } catch (error) {
+      await rollback(written);
+      const err = error as NodeJS.ErrnoException;
+      return {
+        content: `Error applying patch: ${err.message}. No files were changed.`,
+        is_error: true,
+      };
+    }
+
+    for (const change of planned) {
+      if (change.updated !== null) {
+        await tracker?.recordWrite(change.absolutePath, change.updated);
+      }
+    }
+
+    const diffText = diffs.map((diff) => formatUnifiedDiff(diff, { maxLines: MAX_RESULT_DIFF_LINES })).join('\n');
+    return {
+      content: `Successfully applied patch to ${planned.length} file(s):\n${summary.join('\n')}\n\n${diffText}`,
+      is_error: false,
+      diffs,
+    };
+  },
+};
+
+function describeHunks(applied: HunkApplication[]): string[] {
+  return applied
+    .filter((h) => h.offset !== 0 || h.fuzz > 0 || h.ignoredWhitespace)
+    .map((h) => {
+      const details: string[] = [];
+      if (h.offset !== 0) details.push(`offset ${h.offset > 0 ? '+' : ''}${h.offset} lines`);
+      if (h.fuzz > 0) details.push(`fuzz ${h.fuzz}`);
+      if (h.ignoredWhitespace) details.push('ignoring whitespace');
+      return `hunk ${h.hunk} applied with ${details.join(', ')}`;
+    });
+}
+
+async function rollback(written: FileChange[]): Promise<void> {
+  for (const change of written.reverse()) {
+    try {
+      if (change.original === null) {
+        await fs.rm(change.absolutePath, { force: true });
+      } else {
+        await fs.writeFile(change.absolutePath, change.original, 'utf-8');
+      }
+    } catch {
+      // Best effort
+    }
+  }
+}
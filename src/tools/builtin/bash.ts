@@ -3,7 +3,10 @@
  */
 
 import { spawn, type ChildProcess } from 'node:child_process';
+import { constants } from 'node:os';
 import type { ToolDefinition, ToolContext, ToolResult } from '../types.js';
+import { getShellSession, getShellSessionCwd } from './shell-session.js';
+import { describeSandboxViolation, sandboxCommand, type SandboxedCommand } from './sandbox.js';
 
 interface BashInput {
   command: string;
@@ -16,17 +19,22 @@ const DEFAULT_TIMEOUT = 120_000; // 2 minutes
 const MAX_TIMEOUT = 600_000; // 10 minutes
 const MAX_OUTPUT_LENGTH = 30_000;
 
+type OutputListener = (chunk: string, stream: 'stdout' | 'stderr') => void;
+
+interface BackgroundTask {
+  process: ChildProcess;
+  output: string;
+  error: string;
+  done: boolean;
+  exitCode: number | null;
+  /** Receive output as it arrives (e.g., a blocking TaskOutput call) */
+  listeners: Set<OutputListener>;
+  /** Resolves when the process exits */
+  finished: Promise<void>;
+}
+
 // Background tasks storage
-const backgroundTasks = new Map<
-  string,
-  {
-    process: ChildProcess;
-    output: string;
-    error: string;
-    done: boolean;
-    exitCode: number | null;
-  }
->();
+const backgroundTasks = new Map<string, BackgroundTask>();
 
 let taskIdCounter = 0;
 
@@ -36,11 +44,15 @@ export const bashTool: ToolDefinition = {
 
 Important:
 - Use for terminal operations like git, npm, docker, etc.
+- The working directory, exported variables and shell functions persist between calls
 - Do NOT use for file operations - use Read, Write, Edit, Glob, Grep instead
 - Always quote file paths with spaces using double quotes
 - Commands timeout after 2 minutes by default (max 10 minutes)
 - Output over 30000 characters will be truncated
 - Use run_in_background: true for long-running commands
+- Background commands run in a new shell: they start in the session's working directory
+  but do NOT see its exported variables, activated virtualenvs or shell functions, so set
+  those up in the command itself (e.g. \`source .venv/bin/activate && pytest\`)
 
 Git Safety:
 - NEVER use git commit --amend unless explicitly requested
@@ -71,7 +83,7 @@ Prefer specialized tools over bash:
       },
       run_in_background: {
         type: 'boolean',
-        description: 'Set to true to run this command in the background',
+        description: "Set to true to run this command in the background (without the session's variables and functions)",
       },
     },
     required: ['command'],
@@ -87,26 +99,98 @@ Prefer specialized tools over bash:
       return runInBackground(params.command, context);
     }
 
+    // With a session, commands share one persistent shell
+    if (context.sessionId) {
+      return runInSession(params.command, context, timeout);
+    }
+
     return runCommand(params.command, context, timeout);
   },
 };
 
+async function runInSession(
+  command: string,
+  context: ToolContext,
+  timeout: number
+): Promise<ToolResult> {
+  const session = getShellSession(context.sessionId!, {
+    cwd: context.workingDir,
+    env: context.env,
+    sandbox: context.sandbox,
+  });
+
+  let result;
+  try {
+    result = await session.run(command, {
+      timeout,
+      abortSignal: context.abortSignal,
+      onOutput: context.onProgress
+        ? (chunk, stream) => context.onProgress!({ content: chunk, stream })
+        : undefined,
+    });
+  } catch (error) {
+    return {
+      content: `Error executing command: ${(error as Error).message}`,
+      is_error: true,
+    };
+  }
+
+  const { stdout, stderr, exitCode } = result;
+
+  if (result.timedOut || result.aborted) {
+    const reason = result.timedOut ? `timed out after ${timeout}ms` : 'was cancelled';
+    return {
+      content:
+        `Command ${reason} and was terminated. The shell session was restarted ` +
+        `in the same working directory; exported variables and shell functions were lost.\n\n` +
+        `Partial output:\n${truncateOutput(stdout + stderr)}`,
+      is_error: true,
+    };
+  }
+
+  let output = stdout;
+  if (stderr) {
+    if (output) output += '\n';
+    output += stderr;
+  }
+
+  output = truncateOutput(output);
+
+  if (result.shellExited) {
+    const note = `Shell exited with code ${exitCode}. A new shell session will be started for the next command.`;
+    return {
+      content: output ? `${output}\n\n${note}` : note,
+      is_error: exitCode !== 0,
+    };
+  }
+
+  if (!output) {
+    output = exitCode === 0 ? '(no output)' : `Command failed with exit code ${exitCode}`;
+  }
+
+  return withSandboxNote({ content: output, is_error: exitCode !== 0 }, stderr, exitCode, context);
+}
+
 async function runCommand(
   command: string,
   context: ToolContext,
   timeout: number
 ): Promise<ToolResult> {
+  let invocation: SandboxedCommand;
+  try {
+    invocation = bashInvocation(command, context);
+  } catch (error) {
+    return { content: `Error executing command: ${(error as Error).message}`, is_error: true };
+  }
+
   return new Promise((resolve) => {
     let stdout = '';
     let stderr = '';
     let killed = false;
 
-    const proc = spawn('bash', ['-c', command], {
+    const proc = spawn(invocation.command, invocation.args, {
       cwd: context.workingDir,
-      env: {
-        ...process.env,
-        ...context.env,
-      },
+      env: invocation.env,
       stdio: ['pipe', 'pipe', 'pipe'],
     });
 
@@ -127,11 +211,15 @@ async function runCommand(
     );
 
     proc.stdout?.on('data', (data: Buffer) => {
-      stdout += data.toString();
+      const chunk = data.toString();
+      stdout += chunk;
+      context.onProgress?.({ content: chunk, stream: 'stdout' });
     });
 
     proc.stderr?.on('data', (data: Buffer) => {
-      stderr += data.toString();
+      const chunk = data.toString();
+      stderr += chunk;
+      context.onProgress?.({ content: chunk, stream: 'stderr' });
     });
 
     proc.on('error', (error) => {
@@ -142,8 +230,10 @@ async function runCommand(
       });
     });
 
-    proc.on('close', (code) => {
+    proc.on('close', (exitCode, signal) => {
       clearTimeout(timeoutId);
+      // Report a signal the way bash does (e.g. SIGXCPU from a sandbox CPU limit)
+      const code = exitCode ?? (signal ? 128 + constants.signals[signal] : null);
 
       if (killed) {
         resolve({
@@ -170,10 +260,7 @@ async function runCommand(
         output = code === 0 ? '(no output)' : `Command failed with exit code ${code}`;
       }
 
-      resolve({
-        content: output,
-        is_error: code !== 0,
-      });
+      resolve(withSandboxNote({ content: output, is_error: code !== 0 }, stderr, code, context));
     });
   });
 }
@@ -181,42 +268,60 @@ async function runCommand(
 function runInBackground(command: string, context: ToolContext): ToolResult {
   const taskId = `bg_${++taskIdCounter}`;
 
-  const proc = spawn('bash', ['-c', command], {
-    cwd: context.workingDir,
-    env: {
-      ...process.env,
-      ...context.env,
-    },
+  // Start in the session shell's current directory if there is one
+  const cwd = (context.sessionId && getShellSessionCwd(context.sessionId)) || context.workingDir;
+
+  let invocation: SandboxedCommand;
+  try {
+    invocation = bashInvocation(command, context);
+  } catch (error) {
+    return { content: `Error executing command: ${(error as Error).message}`, is_error: true };
+  }
+
+  const proc = spawn(invocation.command, invocation.args, {
+    cwd,
+    env: invocation.env,
     stdio: ['pipe', 'pipe', 'pipe'],
     detached: true,
   });
 
-  const task = {
+  let markFinished!: () => void;
+  const task: BackgroundTask = {
     process: proc,
     output: '',
     error: '',
     done: false,
-    exitCode: null as number | null,
+    exitCode: null,
+    listeners: new Set(),
+    finished: new Promise((resolve) => {
+      markFinished = resolve;
+    }),
   };
 
   backgroundTasks.set(taskId, task);
 
   proc.stdout?.on('data', (data: Buffer) => {
-    task.output += data.toString();
+    const chunk = data.toString();
+    task.output += chunk;
+    task.listeners.forEach((listener) => listener(chunk, 'stdout'));
   });
 
   proc.stderr?.on('data', (data: Buffer) => {
-    task.error += data.toString();
+    const chunk = data.toString();
+    task.error += chunk;
+    task.listeners.forEach((listener) => listener(chunk, 'stderr'));
   });
 
   proc.on('close', (code) => {
     task.done = true;
     task.exitCode = code;
+    markFinished();
   });
 
   proc.on('error', (error) => {
     task.done = true;
     task.error += `\nProcess error: ${error.message}`;
+    markFinished();
   });
 
   return {
@@ -225,6 +330,37 @@ function runInBackground(command: string, context: ToolContext): ToolResult {
   };
 }
 
+/**
+ * How to spawn `bash -c command`: sandboxed when the context has a sandbox
+ * (throws if it is unavailable), otherwise directly. Sandboxed shells skip
+ * rc files, which could re-export scrubbed variables.
+ */
+function bashInvocation(command: string, context: ToolContext): SandboxedCommand {
+  if (context.sandbox) {
+    return sandboxCommand(['bash', '--noprofile', '--norc', '-c', command], context.sandbox, {
+      workingDir: context.workingDir,
+      env: context.env,
+    });
+  }
+  return { command: 'bash', args: ['-c', command], env: { ...process.env, ...context.env } };
+}
+
+/**
+ * Explain a failure when the sandbox looks like the cause.
+ */
+function withSandboxNote(
+  result: ToolResult,
+  stderr: string,
+  exitCode: number | null,
+  context: ToolContext
+): ToolResult {
+  const note = context.sandbox && describeSandboxViolation(stderr, exitCode, context.sandbox);
+  if (!note) {
+    return result;
+  }
+  return { ...result, content: `${result.content}\n\n${note}` };
+}
+
 function truncateOutput(output: string): string {
   if (output.length <= MAX_OUTPUT_LENGTH) {
     return output;
@@ -266,6 +402,44 @@ export function getBackgroundTaskOutput(taskId: string): ToolResult {
   };
 }
 
+/**
+ * Wait for a background task to finish (up to a timeout), streaming new
+ * output to the context's progress callback while waiting.
+ */
+export async function waitForBackgroundTask(
+  taskId: string,
+  timeout: number,
+  context: Pick<ToolContext, 'onProgress' | 'abortSignal'> = {}
+): Promise<ToolResult> {
+  const task = backgroundTasks.get(taskId);
+
+  if (task && !task.done) {
+    const listener: OutputListener = (chunk, stream) => context.onProgress?.({ content: chunk, stream });
+    task.listeners.add(listener);
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+    try {
+      await Promise.race([
+        task.finished,
+        new Promise<void>((resolve) => {
+          timeoutId = setTimeout(resolve, timeout);
+        }),
+        new Promise<void>((resolve) => {
+          onAbort = resolve;
+          context.abortSignal?.addEventListener('abort', onAbort, { once: true });
+        }),
+      ]);
+    } finally {
+      clearTimeout(timeoutId);
+      if (onAbort) context.abortSignal?.removeEventListener('abort', onAbort);
+      task.listeners.delete(listener);
+    }
+  }
+
+  return getBackgroundTaskOutput(taskId);
+}
+
 /**
  * Kill a background task.
  */
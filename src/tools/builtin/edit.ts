@@ -5,19 +5,26 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import type { ToolDefinition, ToolContext, ToolResult } from '../types.js';
+import { getFileStateTracker } from './file-state.js';
+import { MAX_RESULT_DIFF_LINES, createFileDiff, diffPath, formatUnifiedDiff } from '../../utils/diff.js';
 
-interface EditInput {
-  file_path: string;
+/** A single replacement, shared with MultiEdit */
+export interface EditOperation {
   old_string: string;
   new_string: string;
   replace_all?: boolean;
 }
 
+interface EditInput extends EditOperation {
+  file_path: string;
+}
+
 export const editTool: ToolDefinition = {
   name: 'Edit',
   description: `Performs exact string replacements in files.
 
 Usage:
+- You must use the Read tool at least once before editing. This tool will fail if you did not read the file, or if it changed since you last read it
 - The edit will FAIL if old_string is not unique in the file (unless using replace_all)
 - Provide enough surrounding context in old_string to make it unique
 - Use replace_all for renaming variables or replacing all instances
@@ -59,60 +66,52 @@ Usage:
     }
 
     // Validate inputs
-    if (params.old_string === params.new_string) {
-      return {
-        content: 'Error: old_string and new_string must be different',
-        is_error: true,
-      };
-    }
-
-    if (!params.old_string) {
+    const invalid = validateEdit(params);
+    if (invalid) {
       return {
-        content: 'Error: old_string cannot be empty',
+        content: `Error: ${invalid}`,
         is_error: true,
       };
     }
 
     try {
-      // Read the file
-      const content = await fs.readFile(filePath, 'utf-8');
-
-      // Find occurrences
-      const occurrences = countOccurrences(content, params.old_string);
-
-      if (occurrences === 0) {
+      // Refuse to edit files the session hasn't seen in their current state
+      const tracker = context.sessionId ? getFileStateTracker(context.sessionId) : null;
+      const staleError = await tracker?.checkWritable(filePath);
+      if (staleError) {
         return {
-          content: `Error: old_string not found in file '${filePath}'.\n\nSearched for:\n${params.old_string}`,
+          content: staleError,
           is_error: true,
         };
       }
 
-      // Check uniqueness unless replace_all is set
-      if (!params.replace_all && occurrences > 1) {
+      // Read the file
+      const content = await fs.readFile(filePath, 'utf-8');
+
+      // Perform the replacement
+      const applied = applyEdit(content, params, filePath);
+      if ('error' in applied) {
         return {
-          content: `Error: old_string appears ${occurrences} times in the file. Either provide a more specific string with more surrounding context to make it unique, or use replace_all: true to replace all occurrences.`,
+          content: `Error: ${applied.error}`,
           is_error: true,
         };
       }
-
-      // Perform the replacement
-      let newContent: string;
-      if (params.replace_all) {
-        newContent = content.split(params.old_string).join(params.new_string);
-      } else {
-        newContent = content.replace(params.old_string, params.new_string);
-      }
+      const { content: newContent, occurrences } = applied;
 
       // Write the file
+      await context.beforeFileChange?.(filePath);
       await fs.writeFile(filePath, newContent, 'utf-8');
+      await tracker?.recordWrite(filePath, newContent);
 
       const message = params.replace_all
         ? `Successfully replaced ${occurrences} occurrence(s) in ${filePath}`
         : `Successfully edited ${filePath}`;
+      const diff = createFileDiff(diffPath(filePath, context.workingDir), content, newContent);
 
       return {
-        content: message,
+        content: `${message}\n\n${formatUnifiedDiff(diff, { maxLines: MAX_RESULT_DIFF_LINES })}`,
         is_error: false,
+        diffs: [diff],
       };
     } catch (error) {
       const err = error as NodeJS.ErrnoException;
@@ -139,6 +138,53 @@ Usage:
   },
 };
 
+/**
+ * Check an edit's inputs before touching the file.
+ * Returns an error description, or null if the edit is well-formed.
+ */
+export function validateEdit(edit: EditOperation): string | null {
+  if (edit.old_string === edit.new_string) {
+    return 'old_string and new_string must be different';
+  }
+
+  if (!edit.old_string) {
+    return 'old_string cannot be empty';
+  }
+
+  return null;
+}
+
+/**
+ * Apply one replacement to file content in memory.
+ * old_string must be unique unless replace_all is set.
+ */
+export function applyEdit(
+  content: string,
+  edit: EditOperation,
+  filePath: string
+): { content: string; occurrences: number } | { error: string } {
+  // Find occurrences
+  const occurrences = countOccurrences(content, edit.old_string);
+
+  if (occurrences === 0) {
+    return { error: `old_string not found in file '${filePath}'.\n\nSearched for:\n${edit.old_string}` };
+  }
+
+  // Check uniqueness unless replace_all is set
+  if (!edit.replace_all && occurrences > 1) {
+    return {
+      error: `old_string appears ${occurrences} times in the file. Either provide a more specific string with more surrounding context to make it unique, or use replace_all: true to replace all occurrences.`,
+    };
+  }
+
+  // Function replacement keeps `$` patterns in new_string literal
+  const newContent = edit.replace_all
+    ? content.split(edit.old_string).join(edit.new_string)
+    : content.replace(edit.old_string, () => edit.new_string);
+
+  return { content: newContent, occurrences };
+}
+
 function countOccurrences(str: string, search: string): number {
   let count = 0;
   let pos = 0;
@@ -0,0 +1,107 @@
+/**
+ * File state tracking for read-before-write protection.
+ *
+ * Read records each file's mtime and content hash per agent session. Edit
+ * and Write refuse to touch an existing file the session never read, or one
+ * that changed on disk since it was last read, so the model can't overwrite
+ * work using a stale copy. Files that don't exist yet are exempt.
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+
+export interface FileState {
+  /** Modification time when last read or written by the session */
+  mtimeMs: number;
+  /** SHA-256 of the content at that time */
+  hash: string;
+}
+
+/**
+ * Hash file content for change detection.
+ */
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export class FileStateTracker {
+  private files = new Map<string, FileState>();
+
+  /**
+   * Record the state of a file the session has just read or written.
+   */
+  record(filePath: string, content: string | Buffer, mtimeMs: number): void {
+    this.files.set(filePath, { mtimeMs, hash: hashContent(content) });
+  }
+
+  /**
+   * Record a file after writing it, using its on-disk mtime.
+   */
+  async recordWrite(filePath: string, content: string): Promise<void> {
+    const stats = await fs.stat(filePath);
+    this.record(filePath, content, stats.mtimeMs);
+  }
+
+  get(filePath: string): FileState | undefined {
+    return this.files.get(filePath);
+  }
+
+  /**
+   * Check whether the session may write to a file.
+   * Returns an error message, or null if the write is allowed.
+   */
+  async checkWritable(filePath: string): Promise<string | null> {
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(filePath)).mtimeMs;
+    } catch (error) {
+      // New files are exempt
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const state = this.files.get(filePath);
+    if (!state) {
+      return `Error: File '${filePath}' has not been read yet. Read it first before writing to it.`;
+    }
+
+    if (mtimeMs === state.mtimeMs) {
+      return null;
+    }
+
+    // mtime alone can change without a content change (e.g., touch)
+    const hash = hashContent(await fs.readFile(filePath));
+    if (hash === state.hash) {
+      state.mtimeMs = mtimeMs;
+      return null;
+    }
+
+    return `Error: File '${filePath}' has been modified since it was last read, either by the user or by another tool. Read it again before writing to it.`;
+  }
+
+  clear(): void {
+    this.files.clear();
+  }
+}
+
+// Trackers keyed by agent session ID
+const trackers = new Map<string, FileStateTracker>();
+
+/**
+ * Get the file state tracker for an agent session, creating it if needed.
+ */
+export function getFileStateTracker(sessionId: string): FileStateTracker {
+  let tracker = trackers.get(sessionId);
+  if (!tracker) {
+    tracker = new FileStateTracker();
+    trackers.set(sessionId, tracker);
+  }
+  return tracker;
+}
+
+/**
+ * Forget all file state for an agent session.
+ */
+export function clearFileState(sessionId: string): void {
+  trackers.delete(sessionId);
+}
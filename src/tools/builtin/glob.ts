@@ -56,6 +56,8 @@ Examples:
     additionalProperties: false,
   },
 
+  readOnly: true,
+
   async execute(input: unknown, context: ToolContext): Promise<ToolResult> {
     const params = input as GlobInput;
     let searchPath = params.path ?? context.workingDir;
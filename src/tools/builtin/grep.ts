@@ -105,6 +105,8 @@ Examples:
     additionalProperties: false,
   },
 
+  readOnly: true,
+
   async execute(input: unknown, context: ToolContext): Promise<ToolResult> {
     const params = input as GrepInput;
     let searchPath = params.path ?? context.workingDir;
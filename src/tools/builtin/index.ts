@@ -7,9 +7,26 @@
 export { readTool } from './read.js';
 export { writeTool } from './write.js';
 export { editTool } from './edit.js';
+export { multiEditTool } from './multi-edit.js';
+export { applyPatchTool } from './apply-patch.js';
+export {
+  FileStateTracker,
+  getFileStateTracker,
+  clearFileState,
+  type FileState,
+} from './file-state.js';
 
 // Shell and search tools
 export { bashTool, getBackgroundTaskOutput, killBackgroundTask } from './bash.js';
+export {
+  ShellSession,
+  getShellSession,
+  closeShellSession,
+  closeAllShellSessions,
+  type ShellSessionOptions,
+  type ShellCommandResult,
+} from './shell-session.js';
+export { isSandboxAvailable, type SandboxBackend, type SandboxConfig } from './sandbox.js';
 export { globTool } from './glob.js';
 export { grepTool } from './grep.js';
 
@@ -31,6 +48,8 @@ import type { ToolDefinition } from '../types.js';
 import { readTool } from './read.js';
 import { writeTool } from './write.js';
 import { editTool } from './edit.js';
+import { multiEditTool } from './multi-edit.js';
+import { applyPatchTool } from './apply-patch.js';
 import { bashTool } from './bash.js';
 import { globTool } from './glob.js';
 import { grepTool } from './grep.js';
@@ -49,6 +68,8 @@ export const builtinTools: ToolDefinition[] = [
   readTool,
   writeTool,
   editTool,
+  multiEditTool,
+  applyPatchTool,
   bashTool,
   globTool,
   grepTool,
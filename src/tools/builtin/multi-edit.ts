@@ -0,0 +1,156 @@
+/**
+ * MultiEdit tool - Apply several exact string replacements to one file atomically.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { ToolDefinition, ToolContext, ToolResult } from '../types.js';
+import { applyEdit, validateEdit, type EditOperation } from './edit.js';
+import { getFileStateTracker } from './file-state.js';
+import { MAX_RESULT_DIFF_LINES, createFileDiff, diffPath, formatUnifiedDiff } from '../../utils/diff.js';
+
+interface MultiEditInput {
+  file_path: string;
+  edits: EditOperation[];
+}
+
+export const multiEditTool: ToolDefinition = {
+  name: 'MultiEdit',
+  description: `Makes multiple edits to a single file in one operation. Prefer this over Edit when making several changes to the same file.
+
+Usage:
+- You must use the Read tool at least once before editing. This tool will fail if you did not read the file, or if it changed since you last read it
+- Edits are applied in order, each to the result of the previous one
+- Each edit follows the same rules as Edit: old_string must be unique in the content at that point (unless using replace_all)
+- The operation is atomic: if any edit fails, none are applied and the file is left unchanged
+- Plan edits so earlier ones don't change text that later ones need to find`,
+
+  input_schema: {
+    type: 'object',
+    properties: {
+      file_path: {
+        type: 'string',
+        description: 'The absolute path to the file to modify',
+      },
+      edits: {
+        type: 'array',
+        description: 'Edits to apply sequentially',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            old_string: {
+              type: 'string',
+              description: 'The text to replace',
+            },
+            new_string: {
+              type: 'string',
+              description: 'The text to replace it with (must be different from old_string)',
+            },
+            replace_all: {
+              type: 'boolean',
+              default: false,
+              description: 'Replace all occurrences of old_string (default false)',
+            },
+          },
+          required: ['old_string', 'new_string'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['file_path', 'edits'],
+    additionalProperties: false,
+  },
+
+  async execute(input: unknown, context: ToolContext): Promise<ToolResult> {
+    const params = input as MultiEditInput;
+    let filePath = params.file_path;
+
+    // Resolve relative paths against working directory
+    if (!path.isAbsolute(filePath)) {
+      filePath = path.resolve(context.workingDir, filePath);
+    }
+
+    if (!Array.isArray(params.edits) || params.edits.length === 0) {
+      return {
+        content: 'Error: edits must contain at least one edit',
+        is_error: true,
+      };
+    }
+
+    // Validate all inputs before touching the file
+    for (const [index, edit] of params.edits.entries()) {
+      const invalid = validateEdit(edit);
+      if (invalid) {
+        return editError(index, params.edits.length, invalid);
+      }
+    }
+
+    try {
+      // Refuse to edit files the session hasn't seen in their current state
+      const tracker = context.sessionId ? getFileStateTracker(context.sessionId) : null;
+      const staleError = await tracker?.checkWritable(filePath);
+      if (staleError) {
+        return {
+          content: staleError,
+          is_error: true,
+        };
+      }
+
+      // Apply edits in memory; each sees the previous one's result
+      const original = await fs.readFile(filePath, 'utf-8');
+      let content = original;
+      let replacements = 0;
+
+      for (const [index, edit] of params.edits.entries()) {
+        const applied = applyEdit(content, edit, filePath);
+        if ('error' in applied) {
+          return editError(index, params.edits.length, applied.error);
+        }
+        content = applied.content;
+        replacements += applied.occurrences;
+      }
+
+      // Write only once every edit succeeded
+      await context.beforeFileChange?.(filePath);
+      await fs.writeFile(filePath, content, 'utf-8');
+      await tracker?.recordWrite(filePath, content);
+
+      const diff = createFileDiff(diffPath(filePath, context.workingDir), original, content);
+
+      return {
+        content: `Successfully applied ${params.edits.length} edit(s) (${replacements} replacement(s)) to ${filePath}\n\n${formatUnifiedDiff(diff, { maxLines: MAX_RESULT_DIFF_LINES })}`,
+        is_error: false,
+        diffs: [diff],
+      };
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException;
+
+      if (err.code === 'ENOENT') {
+        return {
+          content: `Error: File not found: '${filePath}'`,
+          is_error: true,
+        };
+      }
+
+      if (err.code === 'EACCES') {
+        return {
+          content: `Error: Permission denied: '${filePath}'`,
+          is_error: true,
+        };
+      }
+
+      return {
+        content: `Error editing file '${filePath}': ${err.message}`,
+        is_error: true,
+      };
+    }
+  },
+};
+
+function editError(index: number, total: number, message: string): ToolResult {
+  return {
+    content: `Error in edit ${index + 1} of ${total}: ${message}\n\nNo edits were applied.`,
+    is_error: true,
+  };
+}
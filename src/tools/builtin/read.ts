@@ -5,6 +5,7 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import type { ToolDefinition, ToolContext, ToolResult } from '../types.js';
+import { getFileStateTracker } from './file-state.js';
 
 interface ReadInput {
   file_path: string;
@@ -48,6 +49,8 @@ Usage:
     additionalProperties: false,
   },
 
+  readOnly: true,
+
   async execute(input: unknown, context: ToolContext): Promise<ToolResult> {
     const params = input as ReadInput;
     let filePath = params.file_path;
@@ -72,12 +75,18 @@ Usage:
       const ext = path.extname(filePath).toLowerCase();
       const imageExtensions = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp', '.ico', '.svg'];
 
+      // Remember what the session saw, so Edit/Write can detect stale copies
+      const tracker = context.sessionId ? getFileStateTracker(context.sessionId) : null;
+
       if (imageExtensions.includes(ext)) {
-        return await readImageFile(filePath, ext);
+        const data = await fs.readFile(filePath);
+        tracker?.record(filePath, data, stats.mtimeMs);
+        return readImageFile(data, ext);
       }
 
       // Read text file
       const content = await fs.readFile(filePath, 'utf-8');
+      tracker?.record(filePath, content, stats.mtimeMs);
       const lines = content.split('\n');
 
       // Apply offset and limit
@@ -141,8 +150,7 @@ Usage:
   },
 };
 
-async function readImageFile(filePath: string, ext: string): Promise<ToolResult> {
-  const data = await fs.readFile(filePath);
+function readImageFile(data: Buffer, ext: string): ToolResult {
   const base64 = data.toString('base64');
 
   const mimeTypes: Record<string, string> = {
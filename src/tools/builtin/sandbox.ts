@@ -0,0 +1,217 @@
+/**
+ * Sandbox for the Bash tool (Linux only).
+ *
+ * Commands run in a new mount namespace where the whole filesystem is
+ * read-only except the working directory, configured writable paths and a
+ * private temp directory, in a PID namespace where host processes are
+ * invisible, and (by default) in a network namespace with no interfaces. The environment is reduced to an allowlist, and CPU time and
+ * data segment size are capped with rlimits.
+ *
+ * Backends, in order of preference:
+ * - bwrap (bubblewrap)
+ * - unshare (util-linux), with unprivileged user namespaces: mounts are
+ *   remounted read-only, then the command runs in a nested user namespace
+ *   where they are locked and cannot be remounted
+ */
+
+import { spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+export type SandboxBackend = 'bwrap' | 'unshare';
+
+export interface SandboxConfig {
+  /** Paths writable besides the working directory (relative paths resolve against it) */
+  writablePaths?: string[];
+  /** Allow network access (default: false) */
+  allowNetwork?: boolean;
+  /** Environment variables passed through from the process (default: PATH, HOME, USER, LANG, TERM and a few more) */
+  envAllowlist?: string[];
+  /** CPU time limit per process (and per command in the persistent shell), in seconds */
+  cpuSeconds?: number;
+  /** Memory (data segment) limit per process, in megabytes */
+  memoryMB?: number;
+  /** Backend to use (default: the first available) */
+  backend?: SandboxBackend;
+}
+
+export interface SandboxedCommand {
+  command: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+}
+
+const DEFAULT_ENV_ALLOWLIST = ['PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'LC_ALL', 'LC_CTYPE', 'TERM', 'TZ'];
+
+// Exit code of a process killed by SIGXCPU
+const CPU_LIMIT_EXIT_CODE = 128 + 24;
+
+// Failure messages that point at the sandbox rather than the command
+const WRITE_ERRORS = /Read-only file system/;
+const NETWORK_ERRORS =
+  /Could not resolve host|Temporary failure in name resolution|Network is unreachable|ENETUNREACH|EAI_AGAIN|Couldn't connect to server/;
+const CPU_ERRORS = /CPU time limit exceeded/;
+const MEMORY_ERRORS = /Cannot allocate memory|MemoryError|out of memory|allocation failed|bad_alloc/i;
+
+const availableBackends = new Map<SandboxBackend, boolean>();
+let sandboxTmpDir: string | null = null;
+
+/**
+ * Quote a string for safe use inside single quotes in bash.
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Check once whether a backend can create a sandbox on this machine.
+ */
+function isBackendAvailable(backend: SandboxBackend): boolean {
+  let available = availableBackends.get(backend);
+  if (available === undefined) {
+    const probe =
+      backend === 'bwrap'
+        ? spawnSync('bwrap', ['--ro-bind', '/', '/', '--unshare-net', 'true'], { stdio: 'ignore', timeout: 5000 })
+        : spawnSync('unshare', ['--user', '--map-root-user', '--mount', '--pid', '--mount-proc', '--net', '--fork', 'true'], {
+            stdio: 'ignore',
+            timeout: 5000,
+          });
+    available = probe.status === 0;
+    availableBackends.set(backend, available);
+  }
+  return available;
+}
+
+/**
+ * Whether commands can be sandboxed on this machine (with the given backend, or any).
+ */
+export function isSandboxAvailable(backend?: SandboxBackend): boolean {
+  if (process.platform !== 'linux') return false;
+  return backend ? isBackendAvailable(backend) : isBackendAvailable('bwrap') || isBackendAvailable('unshare');
+}
+
+function resolveBackend(config: SandboxConfig): SandboxBackend {
+  if (process.platform !== 'linux') {
+    throw new Error('Sandbox unavailable: sandboxing is only supported on Linux');
+  }
+  const candidates: SandboxBackend[] = config.backend ? [config.backend] : ['bwrap', 'unshare'];
+  const backend = candidates.find(isBackendAvailable);
+  if (!backend) {
+    throw new Error(
+      `Sandbox unavailable: ${candidates.join(' or ')} cannot create namespaces on this machine ` +
+        '(install bubblewrap or enable unprivileged user namespaces)'
+    );
+  }
+  return backend;
+}
+
+/**
+ * Wrap a command (argv) to run inside the sandbox. Throws when no backend is
+ * available; commands are never run unsandboxed as a fallback.
+ */
+export function sandboxCommand(
+  argv: string[],
+  config: SandboxConfig,
+  options: { workingDir: string; env?: Record<string, string> }
+): SandboxedCommand {
+  const backend = resolveBackend(config);
+
+  if (!sandboxTmpDir) {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-'));
+    // Shared by every sandboxed command, background ones included, so only removed on exit
+    process.on('exit', () => fs.rmSync(tmpDir, { recursive: true, force: true }));
+    sandboxTmpDir = tmpDir;
+  }
+  const writableDirs = [
+    options.workingDir,
+    ...(config.writablePaths ?? []).map((p) => path.resolve(options.workingDir, p)),
+    sandboxTmpDir,
+  ]
+    .filter((dir) => fs.existsSync(dir))
+    .map((dir) => fs.realpathSync(dir));
+
+  const env: Record<string, string> = {};
+  for (const name of config.envAllowlist ?? DEFAULT_ENV_ALLOWLIST) {
+    const value = process.env[name];
+    if (value !== undefined) env[name] = value;
+  }
+  Object.assign(env, options.env, { TMPDIR: sandboxTmpDir });
+
+  // Limits are set in a wrapper shell; hard CPU limit one second above the
+  // soft one so the process gets SIGXCPU (and a clear message) first
+  const limits: string[] = [];
+  if (config.cpuSeconds !== undefined) {
+    limits.push(`ulimit -St ${config.cpuSeconds}`, `ulimit -Ht ${config.cpuSeconds + 1}`);
+  }
+  if (config.memoryMB !== undefined) {
+    limits.push(`ulimit -d ${config.memoryMB * 1024}`);
+  }
+  const limited = ['bash', '--noprofile', '--norc', '-c', [...limits, 'exec "$@"'].join('; '), 'sandbox', ...argv];
+
+  if (backend === 'bwrap') {
+    const args = ['--ro-bind', '/', '/', '--dev', '/dev', '--unshare-pid', '--proc', '/proc'];
+    for (const dir of writableDirs) {
+      args.push('--bind', dir, dir);
+    }
+    if (!config.allowNetwork) {
+      args.push('--unshare-net');
+    }
+    args.push('--die-with-parent', '--', ...limited);
+    return { command: 'bwrap', args, env };
+  }
+
+  const setup = [
+    'set -e',
+    ...writableDirs.map((dir) => `mount --bind ${shellQuote(dir)} ${shellQuote(dir)}`),
+    `writable=(${writableDirs.map(shellQuote).join(' ')})`,
+    'while read -r _ _ _ _ mp opts _; do',
+    `  mp=$(printf '%b' "$mp")`,
+    '  case "$mp" in /proc|/proc/*|/sys|/sys/*|/dev/pts) continue ;; esac',
+    '  for dir in "${writable[@]}"; do [ "$mp" = "$dir" ] && continue 2; done',
+    // Locked flags (nosuid, nodev, ...) must be kept for the remount to succeed
+    '  mount -o "remount,bind,${opts/#rw/ro}" "$mp"',
+    'done < /proc/self/mountinfo',
+    // The inherited working directory still points into the read-only mount
+    'cd -- "$PWD"',
+    // Not exec'd: this shell stays PID 1, reaps orphans and turns a command
+    // killed by a signal (e.g. SIGXCPU) into an exit code
+    'unshare --user --mount -- "$@"',
+    'exit $?',
+  ].join('\n');
+  const args = [
+    '--user',
+    '--map-root-user',
+    '--mount',
+    '--pid',
+    '--mount-proc',
+    ...(config.allowNetwork ? [] : ['--net']),
+    '--fork',
+  ];
+  args.push('--', 'bash', '--noprofile', '--norc', '-c', setup, 'sandbox', ...limited);
+  return { command: 'unshare', args, env };
+}
+
+/**
+ * Explain a failed command's exit as caused by the sandbox, or return null if
+ * it succeeded or its stderr doesn't look like a sandbox failure.
+ */
+export function describeSandboxViolation(stderr: string, exitCode: number | null, config: SandboxConfig): string | null {
+  if (exitCode === 0) {
+    return null;
+  }
+  const notes: string[] = [];
+  if (WRITE_ERRORS.test(stderr)) {
+    notes.push('writes outside the working directory and allowed paths are blocked');
+  }
+  if (!config.allowNetwork && NETWORK_ERRORS.test(stderr)) {
+    notes.push('network access is blocked');
+  }
+  if (config.cpuSeconds !== undefined && (exitCode === CPU_LIMIT_EXIT_CODE || CPU_ERRORS.test(stderr))) {
+    notes.push(`the CPU time limit of ${config.cpuSeconds}s was exceeded`);
+  }
+  if (config.memoryMB !== undefined && MEMORY_ERRORS.test(stderr)) {
+    notes.push(`the memory limit of ${config.memoryMB} MB may have been exceeded`);
+  }
+  return notes.length > 0 ? `Sandbox: ${notes.join('; ')}.` : null;
+}
@@ -0,0 +1,390 @@
+/**
+ * Persistent shell sessions for the Bash tool.
+ *
+ * Each agent session gets one long-lived bash process, so `cd`, exported
+ * variables, sourced environments and shell functions carry over between
+ * calls. Commands are framed with a random sentinel that reports the exit
+ * code and working directory once the command finishes.
+ */
+
+import { spawn, type ChildProcess } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { createLimiter, type Limiter } from '../../utils/concurrency.js';
+import { sandboxCommand, type SandboxConfig } from './sandbox.js';
+
+export interface ShellSessionOptions {
+  /** Initial working directory */
+  cwd: string;
+  /** Extra environment variables for the shell */
+  env?: Record<string, string>;
+  /** Run the shell in a sandbox; writes are allowed under the initial working directory */
+  sandbox?: SandboxConfig;
+}
+
+export interface ShellRunOptions {
+  /** Timeout in milliseconds */
+  timeout: number;
+  /** Abort signal for cancellation */
+  abortSignal?: AbortSignal;
+  /** Receives output as it arrives (sentinel framing already stripped) */
+  onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+}
+
+export interface ShellCommandResult {
+  stdout: string;
+  stderr: string;
+  /** Exit code of the command (or of the shell if it exited) */
+  exitCode: number | null;
+  /** The command hit its timeout and the shell was killed */
+  timedOut: boolean;
+  /** The command was aborted and the shell was killed */
+  aborted: boolean;
+  /** The shell process exited while running the command (e.g., `exit 1`) */
+  shellExited: boolean;
+}
+
+/**
+ * Quote a string for safe use inside single quotes in bash.
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Bash's own variables, and the framing's, are not carried out of a subshell
+const SHELL_STATE_SKIP = '^(BASH.*|EUID|PPID|UID|SHELLOPTS|RANDOM|SRANDOM|SECONDS|LINENO|FUNCNAME|GROUPS|PIPESTATUS|HISTCMD|EPOCHSECONDS|EPOCHREALTIME|DIRSTACK|COMP_WORDBREAKS|OPTIND|_|__sah_.*)$';
+
+/**
+ * Script running a command in a subshell with its own CPU time limit (a limit
+ * on the shell itself would add up across commands), then copying the
+ * subshell's working directory, variables, functions, aliases, traps, umask
+ * and options back into the shell. A subshell that ends without reporting its
+ * state ran `exit`, so the shell exits too, unless a signal (e.g. SIGXCPU)
+ * killed it.
+ */
+function cpuLimitedCommand(command: string, cpuSeconds: number): string {
+  return [
+    '{ __sah_state=$(',
+    '  (',
+    `    ulimit -St ${cpuSeconds}; ulimit -Ht ${cpuSeconds + 1}`,
+    '    __sah_vars=$(compgen -v); __sah_funcs=$(compgen -A function)',
+    `    eval ${shellQuote(command)} < /dev/null 3>&- 4>&-`,
+    '    { __sah_ec=$?; __sah_opts="$(set +o; shopt -p)"; set +eux; } 2>/dev/null',
+    `    __sah_skip=${shellQuote(SHELL_STATE_SKIP)}`,
+    '    {',
+    `      printf 'cd -- %q\\n' "$PWD"`,
+    '      printf \'%s\\n\' "$__sah_vars" | while IFS= read -r __sah_v; do',
+    '        [[ $__sah_v =~ $__sah_skip ]] || declare -p "$__sah_v" >/dev/null 2>&1 || echo "unset -v $__sah_v"',
+    '      done',
+    '      compgen -v | while IFS= read -r __sah_v; do',
+    '        [[ $__sah_v =~ $__sah_skip ]] || { echo "unset -v $__sah_v"; declare -p "$__sah_v"; }',
+    '      done',
+    '      printf \'%s\\n\' "$__sah_funcs" | while IFS= read -r __sah_f; do',
+    '        [ -n "$__sah_f" ] && ! declare -F "$__sah_f" >/dev/null && echo "unset -f $__sah_f"',
+    '      done',
+    '      declare -f; echo \'unalias -a\'; alias -p; trap -p',
+    `      printf 'umask %s\\n' "$(umask)"`,
+    '      printf \'%s\\n\' "$__sah_opts"',
+    '    } >&3 2>/dev/null',
+    '    exit $__sah_ec',
+    '  ) 3>&1 >&4',
+    '); } 4>&1',
+    '__sah_ec=$?',
+    'if [ -n "$__sah_state" ]; then',
+    '  eval "$__sah_state" 2>/dev/null',
+    'elif [ "$__sah_ec" -lt 128 ]; then',
+    '  exit "$__sah_ec"',
+    'fi',
+  ].join('\n');
+}
+
+export class ShellSession {
+  private proc: ChildProcess | null = null;
+  private cwd: string;
+  private env?: Record<string, string>;
+  private workingDir: string;
+  private sandbox?: SandboxConfig;
+  // Commands in one shell must not interleave
+  private serialize: Limiter = createLimiter(1);
+
+  constructor(options: ShellSessionOptions) {
+    this.cwd = options.cwd;
+    this.env = options.env;
+    this.workingDir = options.cwd;
+    this.sandbox = options.sandbox;
+  }
+
+  /**
+   * Sandbox the shell runs in, if any.
+   */
+  getSandbox(): SandboxConfig | undefined {
+    return this.sandbox;
+  }
+
+  /**
+   * Current working directory of the shell (as of the last command).
+   */
+  getCwd(): string {
+    return this.cwd;
+  }
+
+  /**
+   * Whether the shell process is running.
+   */
+  isAlive(): boolean {
+    return this.proc !== null && this.proc.exitCode === null && this.proc.signalCode === null;
+  }
+
+  /**
+   * Run a command in the shell. Starts (or restarts) the shell if needed.
+   */
+  run(command: string, options: ShellRunOptions): Promise<ShellCommandResult> {
+    return this.serialize(() => this.exec(command, options));
+  }
+
+  /**
+   * Kill the shell process and any children.
+   */
+  close(): void {
+    const proc = this.proc;
+    this.proc = null;
+    if (!proc || proc.exitCode !== null || proc.signalCode !== null) return;
+
+    try {
+      // Negative PID kills the whole process group (shell is detached)
+      process.kill(-proc.pid!, 'SIGKILL');
+    } catch {
+      proc.kill('SIGKILL');
+    }
+  }
+
+  private start(): ChildProcess {
+    const shell = ['bash', '--noprofile', '--norc'];
+    // Throws if the sandbox is unavailable; the shell never starts unsandboxed.
+    // The CPU limit is applied per command instead (see cpuLimitedCommand)
+    const { command, args, env } = this.sandbox
+      ? sandboxCommand(shell, { ...this.sandbox, cpuSeconds: undefined }, { workingDir: this.workingDir, env: this.env })
+      : { command: 'bash', args: shell.slice(1), env: { ...process.env, ...this.env } };
+
+    const proc = spawn(command, args, {
+      cwd: this.cwd,
+      env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      detached: true,
+    });
+
+    proc.stdout?.setEncoding('utf-8');
+    proc.stderr?.setEncoding('utf-8');
+    // Writes to a dead shell surface through the exit handler instead
+    proc.stdin?.on('error', () => {});
+    proc.on('error', () => {});
+
+    this.proc = proc;
+    this.setActive(proc, false);
+    return proc;
+  }
+
+  /**
+   * Keep the event loop alive for the shell only while a command runs, so an
+   * idle shell doesn't stop the process from exiting.
+   */
+  private setActive(proc: ChildProcess, active: boolean): void {
+    for (const handle of [proc, proc.stdin, proc.stdout, proc.stderr] as Array<{ ref?(): void; unref?(): void } | null>) {
+      if (active) {
+        handle?.ref?.();
+      } else {
+        handle?.unref?.();
+      }
+    }
+  }
+
+  private exec(command: string, options: ShellRunOptions): Promise<ShellCommandResult> {
+    const proc = this.isAlive() ? this.proc! : this.start();
+    const marker = `__SAH_${randomUUID().replace(/-/g, '')}__`;
+    this.setActive(proc, true);
+
+    return new Promise((resolve) => {
+      let stdout = '';
+      let stderr = '';
+      let status: { exitCode: number; cwd: string } | null = null;
+      let stderrDone = false;
+      let settled = false;
+      // How much of each stream has been passed to onOutput
+      let stdoutEmitted = 0;
+      let stderrEmitted = 0;
+
+      // Emit output up to `end`, holding back a tail that could be the start
+      // of a sentinel split across chunks
+      const emit = (stream: 'stdout' | 'stderr', text: string, emitted: number, end?: number): number => {
+        if (!options.onOutput) return emitted;
+        let safeEnd = end ?? text.length;
+        if (end === undefined) {
+          const sentinel = stream === 'stdout' ? `\n${marker} ` : `\n${marker}\n`;
+          for (let i = Math.max(emitted, text.length - sentinel.length + 1); i < text.length; i++) {
+            if (sentinel.startsWith(text.slice(i))) {
+              safeEnd = i;
+              break;
+            }
+          }
+        }
+        if (safeEnd > emitted) {
+          options.onOutput(text.slice(emitted, safeEnd), stream);
+        }
+        return Math.max(emitted, safeEnd);
+      };
+
+      const finish = (result: Partial<ShellCommandResult>) => {
+        if (settled) return;
+        settled = true;
+        this.setActive(proc, false);
+        emit('stdout', stdout, stdoutEmitted, stdout.length);
+        emit('stderr', stderr, stderrEmitted, stderr.length);
+        clearTimeout(timeoutId);
+        proc.stdout?.off('data', onStdout);
+        proc.stderr?.off('data', onStderr);
+        proc.off('exit', onExit);
+        options.abortSignal?.removeEventListener('abort', onAbort);
+
+        resolve({
+          stdout,
+          stderr,
+          exitCode: status?.exitCode ?? null,
+          timedOut: false,
+          aborted: false,
+          shellExited: false,
+          ...result,
+        });
+      };
+
+      const maybeFinish = () => {
+        if (status && stderrDone) {
+          this.cwd = status.cwd;
+          finish({});
+        }
+      };
+
+      const onStdout = (data: string) => {
+        if (status) return;
+        stdout += data;
+
+        const start = stdout.indexOf(`\n${marker} `);
+        if (start === -1) {
+          stdoutEmitted = emit('stdout', stdout, stdoutEmitted);
+          return;
+        }
+        const end = stdout.indexOf('\n', start + 1);
+        if (end === -1) return;
+
+        const line = stdout.slice(start + marker.length + 2, end);
+        const space = line.indexOf(' ');
+        status = {
+          exitCode: parseInt(line.slice(0, space), 10),
+          cwd: line.slice(space + 1),
+        };
+        stdout = stdout.slice(0, start);
+        maybeFinish();
+      };
+
+      const onStderr = (data: string) => {
+        if (stderrDone) return;
+        stderr += data;
+
+        const start = stderr.indexOf(`\n${marker}\n`);
+        if (start === -1) {
+          stderrEmitted = emit('stderr', stderr, stderrEmitted);
+          return;
+        }
+        stderr = stderr.slice(0, start);
+        stderrDone = true;
+        maybeFinish();
+      };
+
+      const onExit = (code: number | null) => {
+        this.proc = null;
+        finish({ exitCode: code, shellExited: true });
+      };
+
+      const onAbort = () => {
+        this.close();
+        finish({ aborted: true });
+      };
+
+      const timeoutId = setTimeout(() => {
+        this.close();
+        finish({ timedOut: true });
+      }, options.timeout);
+
+      proc.stdout?.on('data', onStdout);
+      proc.stderr?.on('data', onStderr);
+      proc.once('exit', onExit);
+
+      if (options.abortSignal?.aborted) {
+        onAbort();
+        return;
+      }
+      options.abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+      // eval keeps cd/export/function definitions in this shell, and a syntax
+      // error only fails the eval instead of desynchronizing the framing.
+      // stdin is /dev/null so commands can't swallow the sentinel script.
+      const cpuSeconds = this.sandbox?.cpuSeconds;
+      proc.stdin?.write(
+        (cpuSeconds === undefined
+          ? `eval ${shellQuote(command)} < /dev/null\n__sah_ec=$?\n`
+          : `${cpuLimitedCommand(command, cpuSeconds)}\n`) +
+          `printf '\\n%s %s %s\\n' '${marker}' "$__sah_ec" "$PWD"\n` +
+          `printf '\\n%s\\n' '${marker}' >&2\n`
+      );
+    });
+  }
+}
+
+// Shell sessions keyed by agent session ID
+const sessions = new Map<string, ShellSession>();
+let exitHandlerInstalled = false;
+
+/**
+ * Get the shell session for an agent session, creating it if needed.
+ */
+export function getShellSession(sessionId: string, options: ShellSessionOptions): ShellSession {
+  let session = sessions.get(sessionId);
+  // A shell started with different sandbox settings is replaced, never reused
+  if (session && JSON.stringify(session.getSandbox()) !== JSON.stringify(options.sandbox)) {
+    closeShellSession(sessionId);
+    session = undefined;
+  }
+  if (!session) {
+    session = new ShellSession(options);
+    sessions.set(sessionId, session);
+
+    if (!exitHandlerInstalled) {
+      exitHandlerInstalled = true;
+      process.on('exit', () => closeAllShellSessions());
+    }
+  }
+  return session;
+}
+
+/**
+ * Get the current working directory of a session's shell, if one exists.
+ */
+export function getShellSessionCwd(sessionId: string): string | undefined {
+  return sessions.get(sessionId)?.getCwd();
+}
+
+/**
+ * Close the shell for an agent session.
+ */
+export function closeShellSession(sessionId: string): void {
+  sessions.get(sessionId)?.close();
+  sessions.delete(sessionId);
+}
+
+/**
+ * Close all shell sessions.
+ */
+export function closeAllShellSessions(): void {
+  for (const session of sessions.values()) {
+    session.close();
+  }
+  sessions.clear();
+}
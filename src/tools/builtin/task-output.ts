@@ -3,7 +3,7 @@
  */
 
 import type { ToolDefinition, ToolContext, ToolResult } from '../types.js';
-import { getBackgroundTaskOutput } from './bash.js';
+import { getBackgroundTaskOutput, waitForBackgroundTask } from './bash.js';
 
 interface TaskOutputInput {
   task_id: string;
@@ -20,6 +20,7 @@ Usage:
 - Returns the task output along with status information
 - Use block=true (default) to wait for task completion
 - Use block=false for non-blocking check of current status
+- While blocking, new output is streamed as progress
 - Task IDs come from background Bash commands or Task tool
 
 Works with background shells and async agents.`,
@@ -48,13 +49,16 @@ Works with background shells and async agents.`,
     additionalProperties: false,
   },
 
-  async execute(input: unknown, _context: ToolContext): Promise<ToolResult> {
+  async execute(input: unknown, context: ToolContext): Promise<ToolResult> {
     const params = input as TaskOutputInput;
 
     // For now, only support background bash tasks
     // Worker task output will be handled separately by the agent loop
     if (params.task_id.startsWith('bg_')) {
-      return getBackgroundTaskOutput(params.task_id);
+      if (params.block === false) {
+        return getBackgroundTaskOutput(params.task_id);
+      }
+      return waitForBackgroundTask(params.task_id, params.timeout ?? 30000, context);
     }
 
     // Worker task IDs will be handled by WorkerManager
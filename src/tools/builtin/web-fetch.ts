@@ -46,6 +46,8 @@ Note: This is a basic implementation. Results may be summarized if content is ve
     additionalProperties: false,
   },
 
+  readOnly: true,
+
   async execute(input: unknown, _context: ToolContext): Promise<ToolResult> {
     const params = input as WebFetchInput;
     let url = params.url;
@@ -5,6 +5,8 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import type { ToolDefinition, ToolContext, ToolResult } from '../types.js';
+import { getFileStateTracker } from './file-state.js';
+import { MAX_RESULT_DIFF_LINES, createFileDiff, diffPath, formatUnifiedDiff } from '../../utils/diff.js';
 
 interface WriteInput {
   file_path: string;
@@ -17,6 +19,7 @@ export const writeTool: ToolDefinition = {
 
 Usage:
 - This tool will overwrite the existing file if there is one at the provided path
+- If this is an existing file, you MUST use the Read tool first. This tool will fail if you did not read the file first, or if it changed since you read it
 - The file_path must be an absolute path, not a relative path
 - Parent directories will be created automatically if they don't exist
 - Prefer editing existing files over creating new ones
@@ -48,16 +51,48 @@ Usage:
     }
 
     try {
+      // Refuse to overwrite files the session hasn't seen in their current state
+      const tracker = context.sessionId ? getFileStateTracker(context.sessionId) : null;
+      const staleError = await tracker?.checkWritable(filePath);
+      if (staleError) {
+        return {
+          content: staleError,
+          is_error: true,
+        };
+      }
+
+      // Keep the previous content for the diff
+      let previous: string | null = null;
+      try {
+        previous = await fs.readFile(filePath, 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+
       // Ensure parent directory exists
       const dir = path.dirname(filePath);
       await fs.mkdir(dir, { recursive: true });
 
       // Write the file
+      await context.beforeFileChange?.(filePath);
       await fs.writeFile(filePath, params.content, 'utf-8');
+      await tracker?.recordWrite(filePath, params.content);
+
+      const diff = createFileDiff(diffPath(filePath, context.workingDir), previous, params.content);
+
+      // A new file's diff would just echo the content back
+      if (previous === null) {
+        return {
+          content: `File created successfully at: ${filePath} (${diff.additions} lines)`,
+          is_error: false,
+          diffs: [diff],
+        };
+      }
 
       return {
-        content: `File created successfully at: ${filePath}`,
+        content: `File updated successfully at: ${filePath}\n\n${formatUnifiedDiff(diff, { maxLines: MAX_RESULT_DIFF_LINES })}`,
         is_error: false,
+        diffs: [diff],
       };
     } catch (error) {
       const err = error as NodeJS.ErrnoException;
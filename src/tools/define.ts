@@ -0,0 +1,146 @@
+/**
+ * Typed tool definitions.
+ *
+ * `defineTool()` derives the type of `execute`'s input from the tool's
+ * input_schema, so the schema is the single source of truth. The schema can
+ * be written as a literal (inferred as const) or with the `schema` builder.
+ * ToolRegistry validates input against the schema before calling execute,
+ * so the inferred type holds at runtime.
+ */
+
+import type { ToolContext, ToolDefinition, ToolResult } from './types.js';
+
+/** A JSON Schema as written in a literal inferred as const (arrays are readonly) */
+export interface SchemaLike {
+  readonly type?: string | readonly string[];
+  readonly properties?: { readonly [key: string]: SchemaLike };
+  readonly required?: readonly string[];
+  readonly items?: SchemaLike;
+  readonly enum?: readonly unknown[];
+  readonly const?: unknown;
+  readonly description?: string;
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type TypeName<T> = T extends 'string'
+  ? string
+  : T extends 'number' | 'integer'
+    ? number
+    : T extends 'boolean'
+      ? boolean
+      : T extends 'null'
+        ? null
+        : T extends 'array'
+          ? unknown[]
+          : T extends 'object'
+            ? Record<string, unknown>
+            : unknown;
+
+type ObjectFromSchema<P, R extends PropertyKey> = Simplify<
+  { -readonly [K in keyof P & R]: FromSchema<P[K]> } & {
+    -readonly [K in Exclude<keyof P, R>]?: FromSchema<P[K]>;
+  }
+>;
+
+/**
+ * The TypeScript type of values matching a schema.
+ */
+export type FromSchema<S> = S extends { readonly const: infer C }
+  ? C
+  : S extends { readonly enum: readonly (infer E)[] }
+    ? E
+    : S extends { readonly type: 'array'; readonly items: infer I }
+      ? FromSchema<I>[]
+      : S extends { readonly type: 'object'; readonly properties: infer P }
+        ? ObjectFromSchema<P, S extends { readonly required: readonly (infer R extends string)[] } ? R : never>
+        : S extends { readonly type: readonly (infer T)[] }
+          ? TypeName<T>
+          : S extends { readonly type: infer T }
+            ? TypeName<T>
+            : unknown;
+
+export interface TypedToolDefinition<S extends SchemaLike> extends Omit<ToolDefinition, 'input_schema' | 'execute'> {
+  /** JSON Schema for tool input; must describe an object */
+  input_schema: S;
+  /** Execute the tool with input already validated against input_schema */
+  execute(input: FromSchema<S>, context: ToolContext): Promise<ToolResult>;
+}
+
+/**
+ * Define a tool whose input type is inferred from its input_schema.
+ */
+export function defineTool<const S extends SchemaLike>(definition: TypedToolDefinition<S>): ToolDefinition {
+  if (definition.input_schema.type !== 'object') {
+    throw new Error(`Tool '${definition.name}' must have an object input_schema`);
+  }
+  return definition as unknown as ToolDefinition;
+}
+
+// Marks builder properties that may be omitted (type only; tracked at runtime below)
+declare const optionalMark: unique symbol;
+type Optional<S> = S & { readonly [optionalMark]: true };
+const optionalSchemas = new WeakSet<object>();
+
+type RequiredKeys<P> = { [K in keyof P]: P[K] extends { readonly [optionalMark]: true } ? never : K }[keyof P];
+
+interface Annotations {
+  description?: string;
+  default?: unknown;
+}
+
+/**
+ * Schema builder: each function returns a plain JSON Schema object typed
+ * precisely enough for `FromSchema` to recover the value type.
+ */
+export const schema = {
+  string(options?: Annotations & { minLength?: number; maxLength?: number; pattern?: string }): {
+    readonly type: 'string';
+  } {
+    return { type: 'string', ...options };
+  },
+
+  number(options?: Annotations & { minimum?: number; maximum?: number }): { readonly type: 'number' } {
+    return { type: 'number', ...options };
+  },
+
+  integer(options?: Annotations & { minimum?: number; maximum?: number }): { readonly type: 'integer' } {
+    return { type: 'integer', ...options };
+  },
+
+  boolean(options?: Annotations): { readonly type: 'boolean' } {
+    return { type: 'boolean', ...options };
+  },
+
+  enum<const V extends readonly (string | number)[]>(values: V, options?: Annotations): { readonly enum: V } {
+    return { enum: values, ...options };
+  },
+
+  array<const I extends SchemaLike>(
+    items: I,
+    options?: Annotations & { minItems?: number; maxItems?: number }
+  ): { readonly type: 'array'; readonly items: I } {
+    return { type: 'array', items, ...options };
+  },
+
+  /** An object schema; properties are required unless wrapped in `optional()`, and no others are allowed */
+  object<const P extends Record<string, SchemaLike>>(
+    properties: P,
+    options?: Annotations
+  ): {
+    readonly type: 'object';
+    readonly properties: P;
+    readonly required: readonly RequiredKeys<P>[];
+    readonly additionalProperties: false;
+  } {
+    const required = Object.keys(properties).filter((key) => !optionalSchemas.has(properties[key])) as RequiredKeys<P>[];
+    return { type: 'object', properties, required, additionalProperties: false, ...options };
+  },
+
+  /** Mark an object property as optional */
+  optional<const S extends SchemaLike>(property: S): Optional<S> {
+    const copy = { ...property };
+    optionalSchemas.add(copy);
+    return copy as Optional<S>;
+  },
+};
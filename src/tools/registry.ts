@@ -4,6 +4,7 @@
 
 import type { ToolDefinition, ToolContext, ToolResult } from './types.js';
 import { ToolNotFoundError, ToolTimeoutError } from './types.js';
+import { formatSchemaErrors, validateSchema } from '../utils/json-schema.js';
 
 export interface ToolRegistryOptions {
   /** Default timeout for tool execution in milliseconds */
@@ -77,7 +78,8 @@ export class ToolRegistry {
   }
 
   /**
-   * Execute a tool with timeout.
+   * Execute a tool with timeout. Input that doesn't match the tool's
+   * input_schema is rejected with an error result naming each bad field.
    */
   async execute(
     name: string,
@@ -91,6 +93,14 @@ export class ToolRegistry {
       throw new ToolNotFoundError(name);
     }
 
+    const errors = validateSchema(input, tool.input_schema);
+    if (errors.length > 0) {
+      return {
+        content: `Invalid input for ${name}:\n${formatSchemaErrors(errors)}`,
+        is_error: true,
+      };
+    }
+
     const effectiveTimeout = timeout ?? this.defaultTimeout;
 
     // Create abort controller for timeout
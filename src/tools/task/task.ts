@@ -2,7 +2,7 @@
  * Task tool - Spawn worker agents to handle complex tasks.
  */
 
-import type { ToolDefinition, ToolContext, ToolResult } from '../types.js';
+import type { JSONSchema, ToolDefinition, ToolContext, ToolResult } from '../types.js';
 import { WorkerManager, type WorkerModel } from './worker-manager.js';
 
 interface TaskInput {
@@ -13,6 +13,7 @@ interface TaskInput {
   max_turns?: number;
   run_in_background?: boolean;
   resume?: string;
+  output_schema?: JSONSchema;
 }
 
 // Global worker manager instance (can be injected)
@@ -36,6 +37,7 @@ Usage:
 - Include a short description (3-5 words) of what the agent will do
 - Launch multiple agents in parallel when possible
 - Use run_in_background for long tasks you don't need immediately
+- Pass output_schema to get the result as JSON matching that schema
 - Worker results are not visible to the user - summarize when done`,
 
   input_schema: {
@@ -71,6 +73,10 @@ Usage:
         type: 'string',
         description: 'Optional agent ID to resume from previous execution',
       },
+      output_schema: {
+        type: 'object',
+        description: "JSON Schema for the agent's final answer; the result is then JSON matching it",
+      },
     },
     required: ['description', 'prompt', 'subagent_type'],
     additionalProperties: false,
@@ -80,7 +86,7 @@ Usage:
     const params = input as TaskInput;
 
     if (!workerManager) {
-      workerManager = new WorkerManager(context.hooks, context.workingDir);
+      workerManager = new WorkerManager(context.hooks, context.workingDir, context.clientOptions);
     }
 
     // Handle resume (placeholder - would need to persist worker state)
@@ -115,6 +121,13 @@ Usage:
           workingDir: context.workingDir,
           background: true,
           system: systemPrompt,
+          usageLedger: context.usageLedger,
+          parentSessionId: context.sessionId,
+          budget: context.budget,
+          permissions: context.permissions,
+          redactor: context.redactor,
+          sandbox: context.sandbox,
+          outputSchema: params.output_schema,
         });
 
         return {
@@ -133,6 +146,13 @@ Usage:
           workingDir: context.workingDir,
           background: false,
           system: systemPrompt,
+          usageLedger: context.usageLedger,
+          parentSessionId: context.sessionId,
+          budget: context.budget,
+          permissions: context.permissions,
+          redactor: context.redactor,
+          sandbox: context.sandbox,
+          outputSchema: params.output_schema,
         });
 
         return {
@@ -5,10 +5,17 @@
  */
 
 import { AgentLoop } from '../../agent/loop.js';
+import type { AnthropicClientOptions } from '../../client/api-client.js';
+import type { Usage } from '../../client/types.js';
 import { HookRegistry } from '../../agent/hooks.js';
 import { builtinTools } from '../builtin/index.js';
-import type { ToolDefinition } from '../types.js';
+import type { JSONSchema, ToolDefinition } from '../types.js';
 import type { AgentEvent } from '../../agent/types.js';
+import type { UsageLedger } from '../../agent/usage.js';
+import type { BudgetTracker } from '../../agent/budget.js';
+import type { PermissionManager } from '../../agent/permissions.js';
+import type { SecretRedactor } from '../../agent/redaction.js';
+import type { SandboxConfig } from '../builtin/sandbox.js';
 
 export type WorkerModel = 'opus' | 'sonnet' | 'haiku';
 
@@ -21,6 +28,20 @@ export interface WorkerConfig {
   workingDir?: string;
   background?: boolean;
   system?: string;
+  /** Ledger to record the worker's usage in (e.g. the spawning loop's) */
+  usageLedger?: UsageLedger;
+  /** Session that spawned the worker; its usage is counted there */
+  parentSessionId?: string;
+  /** Budget shared with the spawning loop */
+  budget?: BudgetTracker;
+  /** Permission rules for the worker's tool calls */
+  permissions?: PermissionManager;
+  /** Redactor applied to the worker's tool results */
+  redactor?: SecretRedactor;
+  /** Sandbox for the worker's Bash commands */
+  sandbox?: SandboxConfig;
+  /** JSON Schema for the worker's final answer; the result is then that answer as JSON */
+  outputSchema?: JSONSchema;
 }
 
 export interface WorkerInfo {
@@ -32,6 +53,10 @@ export interface WorkerInfo {
   endTime?: number;
   result?: string;
   error?: string;
+  /** Tokens used by the worker's requests */
+  usage?: Usage;
+  /** Validated final answer, when spawned with an output schema */
+  output?: unknown;
 }
 
 export interface WorkerResult {
@@ -63,10 +88,16 @@ export class WorkerManager {
   private workerIdCounter = 0;
   private hooks: HookRegistry;
   private defaultWorkingDir: string;
+  private clientOptions: AnthropicClientOptions;
 
-  constructor(hooks: HookRegistry = new HookRegistry(), workingDir: string = process.cwd()) {
+  constructor(
+    hooks: HookRegistry = new HookRegistry(),
+    workingDir: string = process.cwd(),
+    clientOptions: AnthropicClientOptions = {}
+  ) {
     this.hooks = hooks;
     this.defaultWorkingDir = workingDir;
+    this.clientOptions = clientOptions;
   }
 
   /**
@@ -95,7 +126,10 @@ export class WorkerManager {
 
     // Create worker agent loop
     const loop = new AgentLoop({
+      ...this.clientOptions,
       workingDir: config.workingDir ?? this.defaultWorkingDir,
+      usageLedger: config.usageLedger,
+      worker: { id: workerId, parentSessionId: config.parentSessionId },
     });
 
     // Register tools (builtins + custom)
@@ -135,14 +169,20 @@ export class WorkerManager {
         maxTurns: config.maxTurns ?? 50,
         workingDir: config.workingDir ?? this.defaultWorkingDir,
         thinking: { enabled: true, budgetTokens: 5000 },
+        budget: config.budget,
+        permissions: config.permissions,
+        redaction: config.redactor,
+        sandbox: config.sandbox,
+        outputSchema: config.outputSchema,
       })) {
-        this.processWorkerEvent(event, output);
+        this.processWorkerEvent(event, output, workerInfo);
       }
 
       // Mark completed
       workerInfo.status = 'completed';
       workerInfo.endTime = Date.now();
-      workerInfo.result = output.join('');
+      workerInfo.result =
+        workerInfo.output !== undefined ? JSON.stringify(workerInfo.output, null, 2) : output.join('');
 
       // Fire WorkerStop hook
       await this.hooks.run('WorkerStop', {
@@ -177,11 +217,12 @@ export class WorkerManager {
         error: errorMessage,
       };
     } finally {
+      loop.close();
       this.runningWorkers.delete(workerId);
     }
   }
 
-  private processWorkerEvent(event: AgentEvent, output: string[]): void {
+  private processWorkerEvent(event: AgentEvent, output: string[], workerInfo: WorkerInfo): void {
     switch (event.type) {
       case 'text':
         output.push(event.content);
@@ -194,6 +235,10 @@ export class WorkerManager {
           output.push(`\n[Tool ${event.name} error: ${event.content}]\n`);
         }
         break;
+      case 'done':
+        workerInfo.usage = event.totalUsage;
+        workerInfo.output = event.output;
+        break;
     }
   }
 
@@ -2,7 +2,14 @@
  * Tool system type definitions.
  */
 
+import type { AnthropicClientOptions } from '../client/api-client.js';
 import type { HookRegistry } from '../agent/hooks.js';
+import type { BudgetTracker } from '../agent/budget.js';
+import type { PermissionManager } from '../agent/permissions.js';
+import type { SecretRedactor } from '../agent/redaction.js';
+import type { SandboxConfig } from './builtin/sandbox.js';
+import type { UsageLedger } from '../agent/usage.js';
+import type { FileDiff } from '../utils/diff.js';
 
 export interface JSONSchema {
   type?: string;
@@ -16,6 +23,13 @@ export interface JSONSchema {
   [key: string]: unknown;
 }
 
+export interface ToolProgress {
+  /** Output chunk or status text */
+  content: string;
+  /** Source stream for shell output */
+  stream?: 'stdout' | 'stderr';
+}
+
 export interface ToolContext {
   /** Current working directory */
   workingDir: string;
@@ -27,6 +41,22 @@ export interface ToolContext {
   abortSignal?: AbortSignal;
   /** Environment variables to use for commands */
   env?: Record<string, string>;
+  /** Report incremental output from long-running work (rate limited by the agent loop) */
+  onProgress?: (progress: ToolProgress) => void;
+  /** Called before a tool creates, changes or deletes a file (used for checkpoints) */
+  beforeFileChange?: (filePath: string) => Promise<void>;
+  /** Usage ledger of the running loop, shared with workers it spawns */
+  usageLedger?: UsageLedger;
+  /** Budget of the running loop, shared with workers it spawns */
+  budget?: BudgetTracker;
+  /** Permission rules of the running loop, shared with workers it spawns */
+  permissions?: PermissionManager;
+  /** Secret redactor of the running loop, shared with workers it spawns */
+  redactor?: SecretRedactor;
+  /** Sandbox for shell commands (unsandboxed if omitted) */
+  sandbox?: SandboxConfig;
+  /** API client options (auth, base URL, retry) of the running loop, used by workers it spawns */
+  clientOptions?: AnthropicClientOptions;
 }
 
 export interface ToolResult {
@@ -34,6 +64,8 @@ export interface ToolResult {
   content: string | ToolResultContent[];
   /** Whether this result represents an error */
   is_error?: boolean;
+  /** File changes made by the tool, for rendering (not sent to the API) */
+  diffs?: FileDiff[];
 }
 
 export interface ToolResultContent {
@@ -53,6 +85,8 @@ export interface ToolDefinition {
   description: string;
   /** JSON Schema for tool input */
   input_schema: JSONSchema;
+  /** Whether the tool only reads state (safe to run in parallel with other read-only tools) */
+  readOnly?: boolean;
   /** Execute the tool with given input and context */
   execute(input: unknown, context: ToolContext): Promise<ToolResult>;
 }
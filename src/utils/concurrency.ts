@@ -0,0 +1,38 @@
+/**
+ * Concurrency utilities.
+ */
+
+export type Limiter = <T>(fn: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a limiter that runs at most `maxConcurrency` tasks at once.
+ * Tasks beyond the limit are queued and started in submission order.
+ */
+export function createLimiter(maxConcurrency: number): Limiter {
+  const limit = Math.max(1, Math.floor(maxConcurrency));
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    if (active >= limit) return;
+    const start = queue.shift();
+    if (start) {
+      active++;
+      start();
+    }
+  };
+
+  return <T>(fn: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        Promise.resolve()
+          .then(fn)
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+}
@@ -0,0 +1,258 @@
+/**
+ * Line diffs in unified format.
+ *
+ * Uses Myers' O(ND) algorithm on the lines between the common prefix and
+ * suffix. Very large edit distances fall back to replacing the whole changed
+ * region, which is still a correct (if less minimal) diff.
+ */
+
+import * as path from 'node:path';
+
+/** Marker line for content that doesn't end with a newline */
+export const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/** Diff lines included in tool results; the full diff is on the tool_result event */
+export const MAX_RESULT_DIFF_LINES = 100;
+
+const DEFAULT_CONTEXT_LINES = 3;
+const MAX_EDIT_DISTANCE = 2000;
+
+export interface DiffHunk {
+  /** 1-based start line in the old file (0 when the hunk inserts at the top of an empty range) */
+  oldStart: number;
+  oldLines: number;
+  /** 1-based start line in the new file */
+  newStart: number;
+  newLines: number;
+  /** Lines prefixed with ' ', '-' or '+', plus NO_NEWLINE_MARKER entries */
+  lines: string[];
+}
+
+export interface FileDiff {
+  /** Path shown in diff headers (relative to the working directory when possible) */
+  filePath: string;
+  type: 'create' | 'modify' | 'delete';
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+interface DiffOp {
+  type: ' ' | '-' | '+';
+  /** Line including its terminator, if any */
+  line: string;
+}
+
+/**
+ * Split text into lines, keeping each line's terminator so a missing final
+ * newline shows up as a change.
+ */
+function splitLines(text: string): string[] {
+  return text ? text.split(/(?<=\n)/) : [];
+}
+
+/**
+ * Myers diff of two line arrays.
+ */
+function myersDiff(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d-1 .. d+1] as it was before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: ' ', line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: '+', line: b[--y] });
+      } else {
+        ops.push({ type: '-', line: a[--x] });
+      }
+    }
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Diff two line arrays into a sequence of kept, removed and added lines.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const middle = myersDiff(oldMiddle, newMiddle) ?? [
+    ...oldMiddle.map((line): DiffOp => ({ type: '-', line })),
+    ...newMiddle.map((line): DiffOp => ({ type: '+', line })),
+  ];
+
+  return [
+    ...a.slice(0, prefix).map((line): DiffOp => ({ type: ' ', line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((line): DiffOp => ({ type: ' ', line })),
+  ];
+}
+
+/**
+ * Group diff operations into hunks with surrounding context.
+ */
+function buildHunks(ops: DiffOp[], context: number): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  // Line numbers before each op
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    oldBefore.push(oldLine);
+    newBefore.push(newLine);
+    if (op.type !== '+') oldLine++;
+    if (op.type !== '-') newLine++;
+  }
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === ' ') {
+      i++;
+      continue;
+    }
+
+    // Extend the hunk while the next change is close enough to share context
+    const start = Math.max(0, i - context);
+    let lastChange = i;
+    for (let j = i + 1; j < ops.length && j - lastChange <= 2 * context + 1; j++) {
+      if (ops[j].type !== ' ') lastChange = j;
+    }
+    const end = Math.min(ops.length, lastChange + context + 1);
+
+    const lines: string[] = [];
+    let oldLines = 0;
+    let newLines = 0;
+    for (const op of ops.slice(start, end)) {
+      lines.push(op.type + op.line.replace(/\r?\n$/, ''));
+      if (!op.line.endsWith('\n')) lines.push(NO_NEWLINE_MARKER);
+      if (op.type !== '+') oldLines++;
+      if (op.type !== '-') newLines++;
+    }
+
+    hunks.push({
+      oldStart: oldLines === 0 ? oldBefore[start] : oldBefore[start] + 1,
+      oldLines,
+      newStart: newLines === 0 ? newBefore[start] : newBefore[start] + 1,
+      newLines,
+      lines,
+    });
+    i = end;
+  }
+
+  return hunks;
+}
+
+/**
+ * Path to show in diff headers: relative to the working directory when the
+ * file is inside it, otherwise absolute.
+ */
+export function diffPath(absolutePath: string, workingDir: string): string {
+  const relative = path.relative(workingDir, absolutePath);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : absolutePath;
+}
+
+/**
+ * Compute the diff between two versions of a file.
+ * Pass null for oldText when the file is created, or for newText when it is deleted.
+ */
+export function createFileDiff(
+  filePath: string,
+  oldText: string | null,
+  newText: string | null,
+  context: number = DEFAULT_CONTEXT_LINES
+): FileDiff {
+  const ops = diffLines(splitLines(oldText ?? ''), splitLines(newText ?? ''));
+
+  return {
+    filePath,
+    type: oldText === null ? 'create' : newText === null ? 'delete' : 'modify',
+    additions: ops.filter((op) => op.type === '+').length,
+    deletions: ops.filter((op) => op.type === '-').length,
+    hunks: buildHunks(ops, context),
+  };
+}
+
+/**
+ * Render a diff as unified diff text.
+ * With maxLines, the hunk body is cut off after that many lines.
+ */
+export function formatUnifiedDiff(diff: FileDiff, options: { maxLines?: number } = {}): string {
+  const label = (prefix: string) => (path.isAbsolute(diff.filePath) ? diff.filePath : `${prefix}/${diff.filePath}`);
+  const header = [
+    `--- ${diff.type === 'create' ? '/dev/null' : label('a')}`,
+    `+++ ${diff.type === 'delete' ? '/dev/null' : label('b')}`,
+  ];
+
+  const body: string[] = [];
+  for (const hunk of diff.hunks) {
+    body.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`, ...hunk.lines);
+  }
+
+  if (options.maxLines !== undefined && body.length > options.maxLines) {
+    const omitted = body.length - options.maxLines;
+    body.length = options.maxLines;
+    body.push(`[... ${omitted} more diff lines not shown]`);
+  }
+
+  return [...header, ...body].join('\n');
+}
@@ -0,0 +1,54 @@
+/**
+ * Minimal glob matching for rule patterns.
+ *
+ * Supports `*` (within a path segment), `**` (across segments), `?` and
+ * `{a,b}` alternation. Paths are compared with forward slashes.
+ */
+
+/**
+ * Convert a glob pattern to an anchored regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          // "**/" matches zero or more directories
+          i++;
+          re += '(?:.*/)?';
+        } else {
+          re += '.*';
+        }
+      } else {
+        re += '[^/]*';
+      }
+    } else if (c === '?') {
+      re += '[^/]';
+    } else if (c === '{') {
+      braceDepth++;
+      re += '(?:';
+    } else if (c === '}' && braceDepth > 0) {
+      braceDepth--;
+      re += ')';
+    } else if (c === ',' && braceDepth > 0) {
+      re += '|';
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${re}$`);
+}
+
+/**
+ * Test whether a path matches a glob pattern.
+ */
+export function matchesGlob(filePath: string, glob: string): boolean {
+  return globToRegExp(glob).test(filePath.replace(/\\/g, '/'));
+}
@@ -0,0 +1,155 @@
+/**
+ * Minimal JSON Schema validation.
+ *
+ * Covers the subset used in tool and output schemas: type, enum, const,
+ * properties, required, additionalProperties, items, numeric and length
+ * bounds, and pattern. Unknown keywords are ignored.
+ */
+
+import type { JSONSchema } from '../tools/types.js';
+
+export interface SchemaError {
+  /** Location of the offending value, e.g. `$.files[2].path` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Validate a value against a schema. Returns every error found (empty when valid).
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, path = '$'): SchemaError[] {
+  const errors: SchemaError[] = [];
+  const fail = (message: string, at = path) => errors.push({ path: at, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`expected ${types.join(' or ')}, got ${describeType(value)}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => deepEqual(option, value))) {
+    fail(`must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'number') {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema as Record<string, unknown>;
+    if (typeof minimum === 'number' && value < minimum) fail(`must be >= ${minimum}`);
+    if (typeof maximum === 'number' && value > maximum) fail(`must be <= ${maximum}`);
+    if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) fail(`must be > ${exclusiveMinimum}`);
+    if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) fail(`must be < ${exclusiveMaximum}`);
+  }
+
+  if (typeof value === 'string') {
+    const { minLength, maxLength, pattern } = schema as Record<string, unknown>;
+    if (typeof minLength === 'number' && value.length < minLength) fail(`must be at least ${minLength} characters`);
+    if (typeof maxLength === 'number' && value.length > maxLength) fail(`must be at most ${maxLength} characters`);
+    if (typeof pattern === 'string') {
+      const regex = compilePattern(pattern);
+      if (!regex) fail(`schema pattern /${pattern}/ is not a valid regular expression`);
+      else if (!regex.test(value)) fail(`must match /${pattern}/`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const { minItems, maxItems } = schema as Record<string, unknown>;
+    if (typeof minItems === 'number' && value.length < minItems) fail(`must have at least ${minItems} items`);
+    if (typeof maxItems === 'number' && value.length > maxItems) fail(`must have at most ${maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) fail(`missing required property "${key}"`);
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      const at = propertyPath(path, key);
+      if (propertySchema) {
+        errors.push(...validateSchema(item, propertySchema, at));
+      } else if (schema.additionalProperties === false) {
+        fail('unexpected property', at);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(item, schema.additionalProperties, at));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Format errors as one line each, for sending back to the model.
+ */
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map((error) => `- ${error.path}: ${error.message}`).join('\n');
+}
+
+/**
+ * Compile a schema pattern. Unicode mode rejects escapes like `\_` and `\@`
+ * that schemas written for other engines use, so those compile without it.
+ */
+function compilePattern(pattern: string): RegExp | null {
+  for (const flags of ['u', '']) {
+    try {
+      return new RegExp(pattern, flags);
+    } catch {
+      // Try the next mode
+    }
+  }
+  return null;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function propertyPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) => deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+  );
+}
@@ -0,0 +1,336 @@
+/**
+ * Unified diff parsing and fuzzy application.
+ *
+ * Parsing is lenient about what models tend to get wrong: hunk line counts
+ * are recomputed from the body, and blank lines inside a hunk are treated as
+ * empty context lines. Hunks are located near their stated position, then
+ * with whitespace-insensitive matching, then with up to two context lines
+ * dropped from each end (like `patch --fuzz`).
+ */
+
+import { NO_NEWLINE_MARKER, type DiffHunk } from './diff.js';
+
+const MAX_FUZZ = 2;
+
+export interface FilePatch {
+  /** Path from the `---` header, or null for a new file */
+  oldPath: string | null;
+  /** Path from the `+++` header, or null for a deleted file */
+  newPath: string | null;
+  hunks: DiffHunk[];
+}
+
+export interface HunkApplication {
+  /** 1-based hunk index */
+  hunk: number;
+  /** Lines between the stated and actual position */
+  offset: number;
+  /** Context lines dropped from each end to make the hunk match */
+  fuzz: number;
+  /** Whether matching ignored whitespace differences */
+  ignoredWhitespace: boolean;
+}
+
+export type ApplyHunksResult =
+  | { content: string; applied: HunkApplication[] }
+  | { error: string };
+
+export class PatchParseError extends Error {
+  constructor(
+    message: string,
+    public line: number
+  ) {
+    super(`Invalid patch (line ${line}): ${message}`);
+    this.name = 'PatchParseError';
+  }
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse a header path, stripping timestamps and git's a/ b/ prefixes.
+ */
+function parseHeaderPath(raw: string): string | null {
+  let filePath = raw.split('\t')[0].trim();
+  if (filePath.startsWith('"') && filePath.endsWith('"')) {
+    filePath = filePath.slice(1, -1);
+  }
+  if (filePath === '/dev/null') return null;
+  return filePath.replace(/^[ab]\//, '');
+}
+
+/**
+ * Old and new line counts stated in a hunk header (1 when omitted).
+ */
+function hunkLineCounts(header: RegExpMatchArray): { old: number; new: number } {
+  return { old: parseInt(header[2] ?? '1', 10), new: parseInt(header[4] ?? '1', 10) };
+}
+
+function countHunkLine(left: { old: number; new: number }, line: string): void {
+  if (line[0] === ' ' || line[0] === '-') left.old--;
+  if (line[0] === ' ' || line[0] === '+') left.new--;
+}
+
+function isFileHeader(lines: string[], i: number): boolean {
+  return lines[i]?.startsWith('--- ') === true && lines[i + 1]?.startsWith('+++ ') === true;
+}
+
+/**
+ * Whether a file header starts at line `i` of a hunk body. Within the stated
+ * line counts, `---`/`+++` lines are removals and additions (e.g. of a
+ * `-- comment`) unless a hunk header follows them, as models overstate counts.
+ */
+function endsHunk(lines: string[], i: number, left: { old: number; new: number }): boolean {
+  if (!isFileHeader(lines, i)) return false;
+  return (left.old <= 0 && left.new <= 0) || lines[i + 2]?.startsWith('@@') === true;
+}
+
+/**
+ * Parse a unified diff that may span multiple files.
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n');
+  const patches: FilePatch[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (!isFileHeader(lines, i)) {
+      // Skip preamble such as `diff --git` and `index` lines
+      if (lines[i].startsWith('@@')) {
+        throw new PatchParseError('hunk without a preceding ---/+++ file header', i + 1);
+      }
+      i++;
+      continue;
+    }
+
+    const patch: FilePatch = {
+      oldPath: parseHeaderPath(lines[i].slice(4)),
+      newPath: parseHeaderPath(lines[i + 1].slice(4)),
+      hunks: [],
+    };
+    if (patch.oldPath === null && patch.newPath === null) {
+      throw new PatchParseError('both file paths are /dev/null', i + 1);
+    }
+    i += 2;
+
+    while (i < lines.length && lines[i].startsWith('@@')) {
+      const header = lines[i].match(HUNK_HEADER);
+      if (!header) {
+        throw new PatchParseError(`malformed hunk header '${lines[i]}'`, i + 1);
+      }
+      i++;
+
+      const left = hunkLineCounts(header);
+      const body: string[] = [];
+      while (i < lines.length && !lines[i].startsWith('@@') && !lines[i].startsWith('diff ')) {
+        if (endsHunk(lines, i, left)) break;
+        const line = lines[i];
+        if (line === '') {
+          body.push(' ');
+        } else if (line.startsWith('\\')) {
+          body.push(NO_NEWLINE_MARKER);
+        } else if (line[0] === ' ' || line[0] === '-' || line[0] === '+') {
+          body.push(line);
+        } else {
+          break;
+        }
+        countHunkLine(left, body[body.length - 1]);
+        i++;
+      }
+
+      // Blank lines trailing a hunk are usually separators, not context
+      while (body.length > 0 && body[body.length - 1] === ' ') {
+        body.pop();
+      }
+      if (!body.some((line) => line[0] === '-' || line[0] === '+')) {
+        throw new PatchParseError('hunk has no changes', i);
+      }
+
+      patch.hunks.push({
+        oldStart: parseInt(header[1], 10),
+        oldLines: body.filter((line) => line[0] === ' ' || line[0] === '-').length,
+        newStart: parseInt(header[3], 10),
+        newLines: body.filter((line) => line[0] === ' ' || line[0] === '+').length,
+        lines: body,
+      });
+    }
+
+    if (patch.hunks.length === 0 && patch.newPath !== null) {
+      throw new PatchParseError(`no hunks for '${patch.newPath}'`, i + 1);
+    }
+    patches.push(patch);
+  }
+
+  if (patches.length === 0) {
+    throw new PatchParseError('no file headers (--- / +++) found', 1);
+  }
+
+  return patches;
+}
+
+/**
+ * List the file paths a patch touches, without validating it fully. Every
+ * `---`/`+++` line outside a hunk body is taken as a header, so this covers
+ * at least the files parsePatch would.
+ */
+export function patchFilePaths(text: string): string[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const paths = new Set<string>();
+  const left = { old: 0, new: 0 };
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      Object.assign(left, hunkLineCounts(header));
+    } else if ((left.old > 0 || left.new > 0) && /^[ +-]|^$/.test(line) && !endsHunk(lines, i, left)) {
+      countHunkLine(left, line || ' ');
+    } else if (!line.startsWith('\\')) {
+      // Anything else ends the hunk
+      left.old = left.new = 0;
+      if (line.startsWith('--- ') || line.startsWith('+++ ')) {
+        const filePath = parseHeaderPath(line.slice(4));
+        if (filePath) paths.add(filePath);
+      }
+    }
+  }
+  return [...paths];
+}
+
+type LineComparator = (a: string, b: string) => boolean;
+
+const COMPARATORS: Array<{ compare: LineComparator; ignoredWhitespace: boolean }> = [
+  { compare: (a, b) => a === b, ignoredWhitespace: false },
+  { compare: (a, b) => a.trimEnd() === b.trimEnd(), ignoredWhitespace: true },
+  { compare: (a, b) => a.trim() === b.trim(), ignoredWhitespace: true },
+];
+
+/**
+ * Find where `expected` occurs in `lines`, searching outward from `near`.
+ */
+function findBlock(
+  lines: string[],
+  expected: string[],
+  near: number,
+  min: number,
+  compare: LineComparator
+): number {
+  const max = lines.length - expected.length;
+  if (max < min) return -1;
+  const origin = Math.min(Math.max(near, min), max);
+
+  const matchesAt = (pos: number) => expected.every((line, j) => compare(lines[pos + j], line));
+
+  for (let distance = 0; origin - distance >= min || origin + distance <= max; distance++) {
+    if (origin - distance >= min && matchesAt(origin - distance)) return origin - distance;
+    if (distance > 0 && origin + distance <= max && matchesAt(origin + distance)) return origin + distance;
+  }
+  return -1;
+}
+
+/**
+ * Apply hunks to file content. Returns the new content, or an error
+ * describing the first hunk that could not be placed.
+ */
+export function applyHunks(content: string, hunks: DiffHunk[]): ApplyHunksResult {
+  const crlf = content.includes('\r\n');
+  let endsWithNewline = content === '' || content.endsWith('\n');
+  const lines = content === '' ? [] : content.split(/\r?\n/);
+  if (content.endsWith('\n')) lines.pop();
+
+  const applied: HunkApplication[] = [];
+  // Net lines added by earlier hunks, and where the last one ended
+  let delta = 0;
+  let minPosition = 0;
+
+  for (const [index, hunk] of hunks.entries()) {
+    const body = hunk.lines.filter((line) => line !== NO_NEWLINE_MARKER);
+    const leadingContext = body.findIndex((line) => line[0] !== ' ');
+    const trailingContext = body.length - 1 - findLastIndex(body, (line) => line[0] !== ' ');
+
+    let placed: { position: number; trimmed: string[]; fuzz: number; ignoredWhitespace: boolean } | null = null;
+
+    for (let fuzz = 0; fuzz <= MAX_FUZZ && !placed; fuzz++) {
+      if (fuzz > 0 && fuzz > leadingContext && fuzz > trailingContext) break;
+      const trimmed = body.slice(Math.min(fuzz, leadingContext), body.length - Math.min(fuzz, trailingContext));
+      const expected = trimmed.filter((line) => line[0] !== '+').map((line) => line.slice(1));
+      const stated = Math.max(0, hunk.oldStart - 1) + delta + Math.min(fuzz, leadingContext);
+
+      // Pure insertions (e.g. into a new file) go at the stated position
+      if (expected.length === 0) {
+        placed = { position: Math.min(Math.max(stated, minPosition), lines.length), trimmed, fuzz, ignoredWhitespace: false };
+        break;
+      }
+
+      for (const { compare, ignoredWhitespace } of COMPARATORS) {
+        const position = findBlock(lines, expected, stated, minPosition, compare);
+        if (position !== -1) {
+          placed = { position, trimmed, fuzz, ignoredWhitespace };
+          break;
+        }
+      }
+    }
+
+    if (!placed) {
+      const preview = body
+        .filter((line) => line[0] !== '+')
+        .slice(0, 5)
+        .map((line) => `  ${line.slice(1)}`)
+        .join('\n');
+      return {
+        error: `Hunk ${index + 1} (@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@) does not match the file. Expected lines like:\n${preview}`,
+      };
+    }
+
+    // Build the replacement, keeping the file's own text for context lines
+    const { position, trimmed } = placed;
+    const replacement: string[] = [];
+    let cursor = position;
+    for (const line of trimmed) {
+      if (line[0] === ' ') {
+        replacement.push(lines[cursor++]);
+      } else if (line[0] === '-') {
+        cursor++;
+      } else {
+        replacement.push(line.slice(1));
+      }
+    }
+    const removed = cursor - position;
+    lines.splice(position, removed, ...replacement);
+
+    applied.push({
+      hunk: index + 1,
+      offset: position - (Math.max(0, hunk.oldStart - 1) + delta + Math.min(placed.fuzz, leadingContext)),
+      fuzz: placed.fuzz,
+      ignoredWhitespace: placed.ignoredWhitespace,
+    });
+    delta += replacement.length - removed;
+    minPosition = position + replacement.length;
+
+    // A hunk reaching the end of the file decides the final newline
+    if (position + replacement.length === lines.length) {
+      const newSideNoNewline = markerFollows(hunk.lines, (line) => line[0] === '+' || line[0] === ' ');
+      const oldSideNoNewline = markerFollows(hunk.lines, (line) => line[0] === '-' || line[0] === ' ');
+      if (newSideNoNewline) endsWithNewline = false;
+      else if (oldSideNoNewline) endsWithNewline = true;
+    }
+  }
+
+  const eol = crlf ? '\r\n' : '\n';
+  const joined = lines.join(eol);
+  return { content: lines.length > 0 && endsWithNewline ? joined + eol : joined, applied };
+}
+
+/**
+ * Whether the last line of one side of a hunk is followed by the no-newline marker.
+ */
+function markerFollows(lines: string[], isSide: (line: string) => boolean): boolean {
+  const last = findLastIndex(lines, (line) => line !== NO_NEWLINE_MARKER && isSide(line));
+  return last !== -1 && lines[last + 1] === NO_NEWLINE_MARKER;
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,163 @@
+/**
+ * Offline token estimation.
+ *
+ * Used when the count_tokens endpoint is unavailable. Deliberately errs on
+ * the high side: an overestimate compacts a little early, an underestimate
+ * fails the request.
+ */
+
+import type { APIToolInput, ContentBlock, CountTokensParams, ImageContent, Message, SystemBlock } from '../client/types.js';
+
+// Framing tokens around each message and content block
+const MESSAGE_OVERHEAD = 4;
+const BLOCK_OVERHEAD = 3;
+// Tool-use instructions the API adds to the system prompt when tools are present
+const TOOLS_PREAMBLE = 350;
+// Server tools (e.g. web_search) carry a fixed definition
+const SERVER_TOOL_TOKENS = 150;
+
+// Images are scaled to fit these bounds before being tokenized
+const MAX_IMAGE_EDGE = 1568;
+const MAX_IMAGE_PIXELS = 1_150_000;
+const PIXELS_PER_TOKEN = 750;
+// Used when an image's dimensions can't be read
+const MAX_IMAGE_TOKENS = Math.ceil(MAX_IMAGE_PIXELS / PIXELS_PER_TOKEN);
+
+/**
+ * Estimate tokens in text. ASCII averages about four characters per token;
+ * other characters (CJK, emoji, accents) are closer to one each.
+ */
+export function estimateTextTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4 + other);
+}
+
+/**
+ * Estimate tokens for an image from its dimensions, as the API bills them
+ * (about width * height / 750 after downscaling).
+ */
+export function estimateImageTokens(image: ImageContent): number {
+  const size = readImageSize(image.source.data);
+  if (!size) return MAX_IMAGE_TOKENS;
+
+  let { width, height } = size;
+  const edgeScale = Math.min(1, MAX_IMAGE_EDGE / Math.max(width, height));
+  const pixelScale = Math.min(1, Math.sqrt(MAX_IMAGE_PIXELS / (width * height)));
+  const scale = Math.min(edgeScale, pixelScale);
+  width = Math.max(1, Math.round(width * scale));
+  height = Math.max(1, Math.round(height * scale));
+  return Math.ceil((width * height) / PIXELS_PER_TOKEN);
+}
+
+/**
+ * Estimate tokens for message content.
+ */
+export function estimateContentTokens(content: string | ContentBlock[]): number {
+  if (typeof content === 'string') {
+    return estimateTextTokens(content);
+  }
+
+  let tokens = 0;
+  for (const block of content) {
+    tokens += BLOCK_OVERHEAD;
+    switch (block.type) {
+      case 'text':
+        tokens += estimateTextTokens(block.text);
+        break;
+      case 'thinking':
+        tokens += estimateTextTokens(block.thinking);
+        break;
+      case 'image':
+        tokens += estimateImageTokens(block);
+        break;
+      case 'tool_use':
+      case 'server_tool_use':
+        tokens += estimateTextTokens(block.name) + estimateTextTokens(JSON.stringify(block.input ?? {}));
+        break;
+      case 'tool_result':
+        tokens += estimateContentTokens(block.content);
+        break;
+      default:
+        tokens += estimateTextTokens(JSON.stringify(block));
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Estimate input tokens for a request: system prompt, tool definitions and messages.
+ */
+export function estimateRequestTokens(params: CountTokensParams): number {
+  return estimateSystemTokens(params.system) + estimateToolTokens(params.tools) + estimateMessageTokens(params.messages);
+}
+
+export function estimateMessageTokens(messages: Message[]): number {
+  return messages.reduce((sum, message) => sum + MESSAGE_OVERHEAD + estimateContentTokens(message.content), 0);
+}
+
+function estimateSystemTokens(system: string | SystemBlock[] | undefined): number {
+  if (!system) return 0;
+  if (typeof system === 'string') return estimateTextTokens(system);
+  return system.reduce((sum, block) => sum + BLOCK_OVERHEAD + estimateTextTokens(block.text), 0);
+}
+
+function estimateToolTokens(tools: APIToolInput[] | undefined): number {
+  if (!tools || tools.length === 0) return 0;
+  return tools.reduce(
+    (sum, tool) => sum + ('input_schema' in tool ? estimateTextTokens(JSON.stringify(tool)) : SERVER_TOOL_TOKENS),
+    TOOLS_PREAMBLE
+  );
+}
+
+/**
+ * Read the pixel size of a base64 PNG, GIF, JPEG or WebP image from its header.
+ */
+function readImageSize(base64: string): { width: number; height: number } | null {
+  // Headers are near the start; JPEG frame markers may follow metadata
+  const bytes = Buffer.from(base64.slice(0, 87_384), 'base64');
+
+  // PNG: IHDR chunk holds big-endian width and height
+  if (bytes.length >= 24 && bytes.readUInt32BE(0) === 0x89504e47) {
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+  }
+
+  // GIF: little-endian logical screen size
+  if (bytes.length >= 10 && bytes.toString('ascii', 0, 3) === 'GIF') {
+    return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+  }
+
+  // WebP: lossy (VP8), lossless (VP8L) or extended (VP8X)
+  if (bytes.length >= 30 && bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = bytes.toString('ascii', 12, 16);
+    if (chunk === 'VP8 ') {
+      return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = bytes.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      return { width: bytes.readUIntLE(24, 3) + 1, height: bytes.readUIntLE(27, 3) + 1 };
+    }
+  }
+
+  // JPEG: find the start-of-frame marker
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + bytes.readUInt16BE(offset + 2);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,860 @@
+/**
+ * AgentLoop end-to-end tests against the mock Messages API server.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { AgentLoop, type AgentLoopOptions } from '../../src/agent/loop.js';
+import { ApiKeyAuthProvider } from '../../src/client/auth.js';
+import { MockMessagesServer } from '../../src/testing/mock-server.js';
+import { readTool } from '../../src/tools/builtin/read.js';
+import { bashTool } from '../../src/tools/builtin/bash.js';
+import { editTool } from '../../src/tools/builtin/edit.js';
+import { writeTool } from '../../src/tools/builtin/write.js';
+import { closeAllShellSessions } from '../../src/tools/builtin/shell-session.js';
+import { taskTool, setWorkerManager, clearWorkerManager } from '../../src/tools/builtin/index.js';
+import { WorkerManager } from '../../src/tools/task/worker-manager.js';
+import { HookRegistry } from '../../src/agent/hooks.js';
+import type { AgentEvent, RunParams } from '../../src/agent/types.js';
+import type { ToolDefinition } from '../../src/tools/types.js';
+
+const server = new MockMessagesServer({ jsonChunkSize: 5 });
+let baseUrl: string;
+let workDir: string;
+
+function createLoop(options: Partial<AgentLoopOptions> = {}): AgentLoop {
+  return new AgentLoop({
+    baseUrl,
+    auth: new ApiKeyAuthProvider('test-key'),
+    workingDir: workDir,
+    transcripts: false,
+    checkpoints: false,
+    retry: { initialDelayMs: 1, jitter: 0 },
+    ...options,
+  });
+}
+
+async function runLoop(loop: AgentLoop, params: Partial<RunParams> = {}): Promise<AgentEvent[]> {
+  const events: AgentEvent[] = [];
+  for await (const event of loop.run({
+    messages: [{ role: 'user', content: 'go' }],
+    thinking: { enabled: false },
+    ...params,
+  })) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('AgentLoop (mock server)', () => {
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'harness-e2e-'));
+  });
+
+  afterEach(async () => {
+    closeAllShellSessions();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('streams a text response and finishes with end_turn', async () => {
+    server.enqueue({ type: 'message', content: [{ type: 'text', text: 'Hello there' }] });
+
+    const events = await runLoop(createLoop());
+
+    expect(events.filter((e) => e.type === 'text').map((e) => (e as { content: string }).content).join(''))
+      .toBe('Hello there');
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', stopReason: 'end_turn', turnCount: 1 });
+  });
+
+  it('runs a tool cycle and sends the tool result back', async () => {
+    await fs.writeFile(path.join(workDir, 'notes.txt'), 'secret plan');
+    server.enqueue(
+      {
+        type: 'message',
+        content: [
+          { type: 'thinking', thinking: 'I should read the file', signature: 'sig-123' },
+          { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'notes.txt' } },
+        ],
+      },
+      { type: 'message', content: [{ type: 'text', text: 'Done reading' }] }
+    );
+
+    const loop = createLoop();
+    loop.registerTools([readTool]);
+    const events = await runLoop(loop, { thinking: { enabled: true, budgetTokens: 1024 } });
+
+    expect(events.find((e) => e.type === 'tool_use')).toMatchObject({
+      name: 'Read',
+      input: { file_path: 'notes.txt' },
+    });
+    expect(events.find((e) => e.type === 'tool_result')).toMatchObject({ id: 'toolu_1', is_error: false });
+
+    const second = server.requests[1].body;
+    const assistant = second.messages[1];
+    expect(assistant.content).toContainEqual({ type: 'thinking', thinking: 'I should read the file', signature: 'sig-123' });
+    const toolResult = (second.messages[2].content as Array<{ type: string; content?: unknown }>)[0];
+    expect(toolResult.type).toBe('tool_result');
+    expect(String(toolResult.content)).toContain('secret plan');
+  });
+
+  it('runs read-only tools in parallel batches, with writes as barriers', async () => {
+    const log: string[] = [];
+    let active = 0;
+    let maxActive = 0;
+    const tool = (name: string, readOnly: boolean): ToolDefinition => ({
+      name,
+      description: name,
+      input_schema: { type: 'object', properties: { id: { type: 'string' }, ms: { type: 'number' } } },
+      readOnly,
+      async execute(input) {
+        const { id, ms } = input as { id: string; ms: number };
+        active++;
+        maxActive = Math.max(maxActive, active);
+        log.push(`start ${id}`);
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        log.push(`end ${id}`);
+        active--;
+        return { content: `result ${id}`, is_error: false };
+      },
+    });
+    const call = (name: string, id: string, ms: number) => ({
+      type: 'tool_use' as const,
+      id: `toolu_${id}`,
+      name,
+      input: { id, ms },
+    });
+    server.enqueue(
+      {
+        type: 'message',
+        content: [
+          call('Lookup', 'r1', 60),
+          call('Lookup', 'r2', 10),
+          call('Lookup', 'r3', 10),
+          call('Save', 'w', 10),
+          call('Lookup', 'r4', 10),
+        ],
+      },
+      { type: 'message', content: [{ type: 'text', text: 'ok' }] }
+    );
+
+    const loop = createLoop();
+    loop.registerTools([tool('Lookup', true), tool('Save', false)]);
+    const events = await runLoop(loop, { parallelTools: { enabled: true, maxConcurrency: 2 } });
+
+    // r1 and r2 overlap, r3 waits for a slot, and the write runs alone
+    expect(log.slice(0, 2)).toEqual(['start r1', 'start r2']);
+    expect(maxActive).toBe(2);
+    expect(log.indexOf('start w')).toBe(log.indexOf('end r1') + 1);
+    expect(log.slice(log.indexOf('start w'))).toEqual(['start w', 'end w', 'start r4', 'end r4']);
+
+    const ids = ['toolu_r1', 'toolu_r2', 'toolu_r3', 'toolu_w', 'toolu_r4'];
+    expect(events.filter((e) => e.type === 'tool_result').map((e) => (e as { id: string }).id)).toEqual(ids);
+    const sent = server.requests[1].body.messages.at(-1).content;
+    expect(sent.map((block: { tool_use_id: string }) => block.tool_use_id)).toEqual(ids);
+  });
+
+  it('retries after a 429 and an in-stream overload', async () => {
+    server.enqueue(
+      { type: 'error', status: 429, errorType: 'rate_limit_error', retryAfter: 0 },
+      { type: 'stream_error', errorType: 'overloaded_error' },
+      { type: 'message', content: [{ type: 'text', text: 'ok' }] }
+    );
+
+    const events = await runLoop(createLoop());
+
+    expect(events.filter((e) => e.type === 'retry')).toHaveLength(2);
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', stopReason: 'end_turn' });
+  });
+
+  it('blocks tool calls denied by permission rules', async () => {
+    server.enqueue(
+      { type: 'message', content: [{ type: 'tool_use', name: 'Read', input: { file_path: '.env' } }] },
+      { type: 'message', content: [{ type: 'text', text: 'ok' }] }
+    );
+
+    const loop = createLoop();
+    loop.registerTools([readTool]);
+    const events = await runLoop(loop, { permissions: { deny: ['Read(.env*)'] } });
+
+    expect(events.find((e) => e.type === 'tool_result')).toMatchObject({
+      is_error: true,
+      content: "Permission denied: Denied by rule 'Read(.env*)'",
+    });
+  });
+
+  it('reports non-retryable errors', async () => {
+    server.enqueue({ type: 'error', status: 400, errorType: 'invalid_request_error', message: 'bad request' });
+
+    const events = await runLoop(createLoop());
+
+    expect(events.find((e) => e.type === 'error')).toMatchObject({ error: { message: 'bad request' } });
+  });
+
+  it('streams Bash output as tool_progress events before the result', async () => {
+    server.enqueue(
+      {
+        type: 'message',
+        content: [
+          { type: 'tool_use', id: 'toolu_bash', name: 'Bash', input: { command: 'echo first; sleep 0.3; echo second' } },
+        ],
+      },
+      { type: 'message', content: [{ type: 'text', text: 'ok' }] }
+    );
+
+    const loop = createLoop();
+    loop.registerTools([bashTool]);
+    const events = await runLoop(loop, { toolProgress: { intervalMs: 10 } });
+
+    const progress = events.filter((e) => e.type === 'tool_progress');
+    expect(progress.length).toBeGreaterThanOrEqual(2);
+    expect(progress[0]).toMatchObject({ id: 'toolu_bash', name: 'Bash', stream: 'stdout' });
+    expect((progress[0] as { content: string }).content).toContain('first');
+    expect((progress[0] as { content: string }).content).not.toContain('second');
+    expect(progress.map((e) => (e as { content: string }).content).join('')).toBe('first\nsecond\n');
+
+    const resultIndex = events.findIndex((e) => e.type === 'tool_result');
+    expect(events.indexOf(progress[progress.length - 1])).toBeLessThan(resultIndex);
+  });
+
+  it('does not emit tool_progress when disabled', async () => {
+    server.enqueue(
+      { type: 'message', content: [{ type: 'tool_use', name: 'Bash', input: { command: 'echo hi' } }] },
+      { type: 'message', content: [{ type: 'text', text: 'ok' }] }
+    );
+
+    const loop = createLoop();
+    loop.registerTools([bashTool]);
+    const events = await runLoop(loop, { toolProgress: { enabled: false } });
+
+    expect(events.some((e) => e.type === 'tool_progress')).toBe(false);
+    expect(events.find((e) => e.type === 'tool_result')).toMatchObject({ content: expect.stringContaining('hi') });
+  });
+
+  it('does not write checkpoints unless enabled', async () => {
+    const home = process.env.HOME;
+    process.env.HOME = workDir;
+    try {
+      server.enqueue(
+        { type: 'message', content: [{ type: 'tool_use', name: 'Write', input: { file_path: 'a.txt', content: 'x' } }] },
+        { type: 'message', content: [{ type: 'text', text: 'done' }] }
+      );
+
+      const loop = createLoop({ checkpoints: undefined });
+      loop.registerTools([writeTool]);
+      await runLoop(loop);
+
+      expect(await loop.listCheckpoints()).toEqual([]);
+      await expect(fs.access(path.join(workDir, '.claude', 'checkpoints'))).rejects.toThrow();
+    } finally {
+      process.env.HOME = home;
+    }
+  });
+
+  it('rewinds files, history and transcript to a checkpoint', async () => {
+    const home = process.env.HOME;
+    process.env.HOME = workDir;
+    try {
+      const file = path.join(workDir, 'a.txt');
+      await fs.writeFile(file, 'v1\n');
+      server.enqueue(
+        { type: 'message', content: [{ type: 'tool_use', name: 'Read', input: { file_path: 'a.txt' } }] },
+        {
+          type: 'message',
+          content: [
+            { type: 'tool_use', name: 'Edit', input: { file_path: 'a.txt', old_string: 'v1', new_string: 'v2' } },
+            { type: 'tool_use', name: 'Write', input: { file_path: 'new.txt', content: 'created' } },
+          ],
+        },
+        { type: 'message', content: [{ type: 'text', text: 'done' }] }
+      );
+
+      const loop = createLoop({ transcripts: true, checkpoints: { dir: path.join(workDir, '.checkpoints') } });
+      loop.registerTools([readTool, editTool, writeTool]);
+      await runLoop(loop);
+
+      expect(await fs.readFile(file, 'utf-8')).toBe('v2\n');
+      const checkpoints = await loop.listCheckpoints();
+      expect(checkpoints.map((c) => [c.turn, c.messageCount, c.files.length])).toEqual([
+        [1, 1, 0],
+        [2, 3, 2],
+        [3, 5, 0],
+      ]);
+
+      const result = await loop.rewindTo(2);
+
+      expect(result).toMatchObject({ turn: 2, messageCount: 3, restoredFiles: [file] });
+      expect(result.deletedFiles).toEqual([path.join(workDir, 'new.txt')]);
+      expect(await fs.readFile(file, 'utf-8')).toBe('v1\n');
+      await expect(fs.access(path.join(workDir, 'new.txt'))).rejects.toThrow();
+      expect(loop.getHistory()).toHaveLength(3);
+      expect((await loop.listCheckpoints()).map((c) => c.turn)).toEqual([1]);
+
+      // A fresh loop resumes from the truncated transcript and checkpoints
+      const resumed = createLoop({ transcripts: true, checkpoints: { dir: path.join(workDir, '.checkpoints') } });
+      const loaded = await resumed.loadSession(loop.getSessionId()!);
+      expect(loaded.messageCount).toBe(3);
+      expect((await resumed.listCheckpoints()).map((c) => c.turn)).toEqual([1]);
+    } finally {
+      process.env.HOME = home;
+    }
+  });
+
+  it('compacts older turns into a summary and resumes from it', async () => {
+    const home = process.env.HOME;
+    process.env.HOME = workDir;
+    try {
+      await fs.writeFile(path.join(workDir, 'a.txt'), 'content');
+      const read = { type: 'tool_use' as const, name: 'Read', input: { file_path: 'a.txt' } };
+      server.enqueue(
+        { type: 'message', content: [read] },
+        { type: 'message', content: [read] },
+        { type: 'message', content: [read] },
+        { type: 'message', content: [{ type: 'text', text: '## Goals\nRead a.txt' }] },
+        { type: 'message', content: [{ type: 'text', text: 'done' }] }
+      );
+
+      // Crosses the threshold once the third tool result is in
+      server.setTokenCounter((params) => (params.messages.length >= 7 ? 900 : 100));
+
+      const checkpointDir = path.join(workDir, '.checkpoints');
+      const loop = createLoop({ transcripts: true, checkpoints: { dir: checkpointDir } });
+      loop.registerTools([readTool]);
+      const events = await runLoop(loop, {
+        maxContextTokens: 1000,
+        autoCompact: { enabled: true, thresholdPercent: 80, keepRecentTurns: 2 },
+      });
+
+      expect(events.find((e) => e.type === 'compact')).toMatchObject({ previousMessageCount: 7, newMessageCount: 5 });
+      expect(server.countRequests).toHaveLength(4);
+      expect(events[events.length - 1]).toMatchObject({ type: 'done', stopReason: 'end_turn' });
+
+      // Compaction happens before the request that would overflow. The summarizer
+      // sees the older turns as text; the request then starts from the summary
+      const summaryRequest = server.requests[3].body;
+      expect(summaryRequest.tools).toBeUndefined();
+      expect(summaryRequest.messages[0].content).toContain('[Tool call Read: {"file_path":"a.txt"}]');
+      const next = server.requests[4].body.messages;
+      expect(next).toHaveLength(5);
+      expect(next[0].content).toContain('## Goals\nRead a.txt');
+      expect(next.slice(1).map((m) => m.role)).toEqual(['assistant', 'user', 'assistant', 'user']);
+
+      const history = loop.getHistory();
+      expect(history).toHaveLength(6);
+      const checkpoints = await loop.listCheckpoints();
+      expect(checkpoints.map((c) => [c.turn, c.messageCount, c.compacted ?? false])).toEqual([
+        [1, 1, true],
+        [2, 1, false],
+        [3, 3, false],
+        [4, 5, false],
+      ]);
+      await expect(loop.rewindTo(1)).rejects.toThrow('compacted');
+
+      const resumed = createLoop({ transcripts: true, checkpoints: { dir: checkpointDir } });
+      await resumed.loadSession(loop.getSessionId()!);
+      expect(resumed.getHistory()).toEqual(history);
+
+      await resumed.rewindTo(3);
+      expect(resumed.getHistory()).toEqual(history.slice(0, 3));
+
+      const reloaded = createLoop({ transcripts: true, checkpoints: { dir: checkpointDir } });
+      await reloaded.loadSession(loop.getSessionId()!);
+      expect(reloaded.getHistory()).toEqual(history.slice(0, 3));
+    } finally {
+      process.env.HOME = home;
+    }
+  });
+
+  it('elides stale tool results before sending requests', async () => {
+    await fs.writeFile(path.join(workDir, 'big.txt'), 'some text\n'.repeat(500));
+    await fs.writeFile(path.join(workDir, 'small.txt'), 'tiny');
+    server.enqueue(
+      { type: 'message', content: [{ type: 'tool_use', name: 'Read', input: { file_path: 'big.txt' } }] },
+      { type: 'message', content: [{ type: 'tool_use', name: 'Read', input: { file_path: 'small.txt' } }] },
+      { type: 'message', content: [{ type: 'tool_use', name: 'Read', input: { file_path: 'small.txt' } }] },
+      { type: 'message', content: [{ type: 'text', text: 'done' }] }
+    );
+
+    const loop = createLoop();
+    loop.registerTools([readTool]);
+    const events = await runLoop(loop, { toolResultElision: { enabled: true, keepRecentTurns: 2 } });
+
+    expect(events.filter((e) => e.type === 'elide')).toEqual([
+      expect.objectContaining({ toolResults: 1, charsSaved: expect.any(Number) }),
+    ]);
+    const lastRequest = server.requests[3].body.messages;
+    expect(lastRequest[2].content).toEqual([
+      expect.objectContaining({ content: '[elided: Read big.txt, 501 lines, re-read if needed]' }),
+    ]);
+    expect(loop.getHistory()[2]).toEqual(lastRequest[2]);
+  });
+
+  it('compacts and retries when the prompt is too long', async () => {
+    await fs.writeFile(path.join(workDir, 'a.txt'), 'content');
+    const read = { type: 'tool_use' as const, name: 'Read', input: { file_path: 'a.txt' } };
+    server.enqueue(
+      { type: 'message', content: [read] },
+      { type: 'message', content: [read] },
+      { type: 'error', status: 400, errorType: 'invalid_request_error', message: 'prompt is too long: 210000 tokens > 200000 maximum' },
+      { type: 'message', content: [{ type: 'text', text: '## Goals\nRead a.txt' }] },
+      { type: 'message', content: [{ type: 'text', text: 'done' }] }
+    );
+
+    const loop = createLoop();
+    loop.registerTools([readTool]);
+    const events = await runLoop(loop);
+
+    expect(events.find((e) => e.type === 'compact')).toMatchObject({ previousMessageCount: 5, newMessageCount: 3 });
+    expect(events.some((e) => e.type === 'error')).toBe(false);
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', stopReason: 'end_turn', turnCount: 3 });
+    expect(server.requests[4].body.messages).toHaveLength(3);
+  });
+
+  it('stops with context_overflow when the conversation cannot be shrunk', async () => {
+    const tooLong = { type: 'error' as const, status: 400, errorType: 'invalid_request_error', message: 'prompt is too long' };
+    server.enqueue(tooLong);
+
+    const events = await runLoop(createLoop());
+
+    expect(events.find((e) => e.type === 'error')).toMatchObject({ error: { name: 'PromptTooLongError' } });
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', stopReason: 'context_overflow' });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('answers a tool call cut off by max_tokens with an error and continues', async () => {
+    server.enqueue(
+      {
+        type: 'message',
+        content: [
+          { type: 'text', text: 'Writing the file' },
+          { type: 'tool_use', name: 'Write', input: { file_path: 'big.txt' } },
+        ],
+        stopReason: 'max_tokens',
+      },
+      { type: 'message', content: [{ type: 'text', text: 'done' }] }
+    );
+
+    const loop = createLoop();
+    loop.registerTools([writeTool]);
+    const events = await runLoop(loop);
+
+    expect(events.find((e) => e.type === 'tool_result')).toMatchObject({
+      name: 'Write',
+      is_error: true,
+      content: expect.stringContaining('output token limit'),
+    });
+    await expect(fs.access(path.join(workDir, 'big.txt'))).rejects.toThrow();
+    const followUp = server.requests[1].body.messages;
+    expect(followUp[followUp.length - 1].content).toEqual([expect.objectContaining({ type: 'tool_result', is_error: true })]);
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', stopReason: 'end_turn' });
+  });
+
+  it('records usage for the loop and its workers, and restores it with the session', async () => {
+    const home = process.env.HOME;
+    process.env.HOME = workDir;
+    const workers = new WorkerManager(undefined, workDir, {
+      baseUrl,
+      auth: new ApiKeyAuthProvider('test-key'),
+      retry: { initialDelayMs: 1, jitter: 0 },
+    });
+    setWorkerManager(workers);
+    try {
+      server.enqueue(
+        {
+          type: 'message',
+          content: [
+            {
+              type: 'tool_use',
+              name: 'Task',
+              input: { description: 'Find files', prompt: 'List files', subagent_type: 'Explore', model: 'haiku' },
+            },
+          ],
+          usage: { input_tokens: 1000, output_tokens: 100, cache_read_input_tokens: 5000 },
+        },
+        { type: 'message', content: [{ type: 'text', text: 'no files' }], usage: { input_tokens: 400, output_tokens: 50 } },
+        { type: 'message', content: [{ type: 'text', text: 'done' }], usage: { input_tokens: 1200, output_tokens: 20 } }
+      );
+
+      const loop = createLoop({ transcripts: true });
+      loop.registerTools([taskTool]);
+      await runLoop(loop, { model: 'claude-sonnet-4-5-20250929' });
+      const sessionId = loop.getSessionId()!;
+
+      const report = loop.getUsageReport(sessionId);
+      expect(report.total).toMatchObject({ requests: 3, inputTokens: 2600, outputTokens: 170, cacheReadTokens: 5000 });
+      const [workerId] = workers.list().map((w) => w.id);
+      expect(report.byWorker).toMatchObject({ main: { requests: 2 }, [workerId]: { requests: 1, inputTokens: 400 } });
+      expect(report.byModel['claude-haiku-4-5-20251001'].costUSD).toBeCloseTo((400 * 1 + 50 * 5) / 1_000_000);
+      expect(report.byTool).toMatchObject({ prompt: { requests: 2 }, Task: { requests: 1 } });
+      expect(workers.get(workerId)?.usage).toMatchObject({ input_tokens: 400, output_tokens: 50 });
+
+      const resumed = createLoop({ transcripts: true });
+      await resumed.loadSession(sessionId);
+      expect(resumed.getUsageReport(sessionId)).toEqual(report);
+    } finally {
+      clearWorkerManager();
+      process.env.HOME = home;
+    }
+  });
+
+  it('applies the loop permission rules to workers', async () => {
+    await fs.writeFile(path.join(workDir, 'secret.txt'), 'hidden');
+    setWorkerManager(
+      new WorkerManager(undefined, workDir, {
+        baseUrl,
+        auth: new ApiKeyAuthProvider('test-key'),
+        retry: { initialDelayMs: 1, jitter: 0 },
+      })
+    );
+    try {
+      server.enqueue(
+        {
+          type: 'message',
+          content: [
+            {
+              type: 'tool_use',
+              name: 'Task',
+              input: { description: 'Read secret', prompt: 'Read secret.txt', subagent_type: 'Explore', model: 'haiku' },
+            },
+          ],
+        },
+        { type: 'message', content: [{ type: 'tool_use', name: 'Read', input: { file_path: 'secret.txt' } }] },
+        { type: 'message', content: [{ type: 'text', text: 'denied' }] },
+        { type: 'message', content: [{ type: 'text', text: 'done' }] }
+      );
+
+      const loop = createLoop();
+      loop.registerTools([taskTool]);
+      await runLoop(loop, { permissions: { deny: ['Read(secret.txt)'] } });
+
+      const workerResult = server.requests[2].body.messages.at(-1).content[0];
+      expect(workerResult).toMatchObject({ type: 'tool_result', is_error: true });
+      expect(workerResult.content).toContain("Denied by rule 'Read(secret.txt)'");
+    } finally {
+      clearWorkerManager();
+    }
+  });
+
+  it('runs Task workers with the loop client options', async () => {
+    clearWorkerManager();
+    try {
+      server.enqueue(
+        {
+          type: 'message',
+          content: [
+            {
+              type: 'tool_use',
+              name: 'Task',
+              input: { description: 'Look around', prompt: 'Say hi', subagent_type: 'Explore', model: 'haiku' },
+            },
+          ],
+        },
+        { type: 'message', content: [{ type: 'text', text: 'hi' }] },
+        { type: 'message', content: [{ type: 'text', text: 'done' }] }
+      );
+
+      const loop = createLoop({ auth: new ApiKeyAuthProvider('parent-key') });
+      loop.registerTools([taskTool]);
+      await runLoop(loop);
+
+      expect(server.requests).toHaveLength(3);
+      expect(server.requests[1].body.messages[0].content).toContain('Say hi');
+      expect(server.requests[1].headers['x-api-key']).toBe('parent-key');
+      expect(server.requests[2].body.messages.at(-1).content[0]).toMatchObject({ type: 'tool_result' });
+    } finally {
+      clearWorkerManager();
+    }
+  });
+
+  it('switches models near the budget and stops once it is spent', async () => {
+    await fs.writeFile(path.join(workDir, 'a.txt'), 'content');
+    const read = { type: 'tool_use' as const, name: 'Read', input: { file_path: 'a.txt' } };
+    server.enqueue(
+      { type: 'message', content: [read], usage: { input_tokens: 850, output_tokens: 10 } },
+      { type: 'message', content: [read], usage: { input_tokens: 850, output_tokens: 10 } },
+      { type: 'message', content: [{ type: 'text', text: 'never sent' }] }
+    );
+
+    const loop = createLoop();
+    loop.registerTools([readTool]);
+    const events = await runLoop(loop, {
+      model: 'claude-sonnet-4-5-20250929',
+      budget: { maxInputTokens: 1000, downgradeModel: 'claude-haiku-4-5-20251001' },
+    });
+
+    expect(events.filter((e) => e.type === 'budget')).toEqual([
+      expect.objectContaining({ level: 'warning', limit: 'inputTokens', used: 850, downgradedTo: 'claude-haiku-4-5-20251001' }),
+      expect.objectContaining({ level: 'exceeded', limit: 'inputTokens', used: 1700, max: 1000 }),
+    ]);
+    expect(server.requests.map((r) => r.body.model)).toEqual(['claude-sonnet-4-5-20250929', 'claude-haiku-4-5-20251001']);
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', stopReason: 'budget_exceeded', turnCount: 2 });
+    expect(loop.getHistory()).toHaveLength(5);
+  });
+
+  it('aborts a tool call that runs past the time limit', async () => {
+    server.enqueue(
+      { type: 'message', content: [{ type: 'tool_use', name: 'Bash', input: { command: 'sleep 5' } }] },
+      { type: 'message', content: [{ type: 'text', text: 'never sent' }] }
+    );
+
+    const loop = createLoop();
+    loop.registerTools([bashTool]);
+    const started = Date.now();
+    const events = await runLoop(loop, { budget: { maxDurationMs: 300 } });
+
+    expect(Date.now() - started).toBeLessThan(3000);
+    expect(server.requests).toHaveLength(1);
+    expect(events.find((e) => e.type === 'tool_result')).toMatchObject({ is_error: true });
+    expect(events.filter((e) => e.type === 'budget')).toEqual([
+      expect.objectContaining({ level: 'exceeded', limit: 'durationMs', max: 300 }),
+    ]);
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', stopReason: 'budget_exceeded', turnCount: 1 });
+  });
+
+  it('returns a structured answer after sending validation errors back', async () => {
+    const outputSchema = {
+      type: 'object',
+      properties: { files: { type: 'array', items: { type: 'string' } } },
+      required: ['files'],
+    };
+    server.enqueue(
+      { type: 'message', content: [{ type: 'text', text: 'The files are a.txt and b.txt' }] },
+      { type: 'message', content: [{ type: 'tool_use', name: 'StructuredOutput', input: { files: 'a.txt' } }] },
+      { type: 'message', content: [{ type: 'tool_use', name: 'StructuredOutput', input: { files: ['a.txt', 'b.txt'] } }] }
+    );
+
+    const loop = createLoop();
+    const events = await runLoop(loop, { outputSchema });
+
+    expect(server.requests[0].body.tools?.map((t) => t.name)).toContain('StructuredOutput');
+    expect(server.requests[1].body.messages.at(-1)?.content).toContain('You must finish by calling the StructuredOutput tool');
+    expect(events.filter((e) => e.type === 'tool_result')).toEqual([
+      expect.objectContaining({ is_error: true, content: expect.stringContaining('$.files: expected array, got string') }),
+      expect.objectContaining({ is_error: false, content: 'Output accepted.' }),
+    ]);
+    expect(events[events.length - 1]).toMatchObject({
+      type: 'done',
+      stopReason: 'end_turn',
+      turnCount: 3,
+      output: { files: ['a.txt', 'b.txt'] },
+    });
+    // The answer is paired with its tool_result so the conversation can continue
+    expect(loop.getHistory().at(-1)?.role).toBe('user');
+  });
+
+  it('stops with invalid_output when repairs run out', async () => {
+    server.enqueue(
+      { type: 'message', content: [{ type: 'text', text: 'no' }] },
+      { type: 'message', content: [{ type: 'text', text: 'still no' }] }
+    );
+
+    const events = await runLoop(createLoop(), { outputSchema: { type: 'string' }, outputRepairAttempts: 1 });
+
+    expect(server.requests).toHaveLength(2);
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', stopReason: 'invalid_output' });
+  });
+
+  it('gives workers an output schema and returns their answer as JSON', async () => {
+    const home = process.env.HOME;
+    process.env.HOME = workDir;
+    try {
+      server.enqueue({
+        type: 'message',
+        content: [{ type: 'tool_use', name: 'StructuredOutput', input: { value: 42 } }],
+      });
+
+      const workers = new WorkerManager(undefined, workDir, {
+        baseUrl,
+        auth: new ApiKeyAuthProvider('test-key'),
+        retry: { initialDelayMs: 1, jitter: 0 },
+      });
+      const result = await workers.spawn({ prompt: 'Count', description: 'Count', outputSchema: { type: 'integer' } });
+
+      expect(result).toBe('42');
+      expect(workers.list()[0]).toMatchObject({ status: 'completed', output: 42 });
+    } finally {
+      process.env.HOME = home;
+    }
+  });
+
+  it('reports tool calls with invalid JSON input instead of running them', async () => {
+    server.enqueue(
+      { type: 'message', content: [{ type: 'tool_use', name: 'Write', input: {}, rawInput: '{"file_path": "x.txt", "content": ' }] },
+      { type: 'message', content: [{ type: 'text', text: 'ok' }] }
+    );
+
+    const loop = createLoop();
+    loop.registerTools([writeTool]);
+    const events = await runLoop(loop);
+
+    expect(events.find((e) => e.type === 'tool_result')).toMatchObject({
+      is_error: true,
+      content: expect.stringMatching(/^Invalid JSON in tool input: /),
+    });
+    await expect(fs.access(path.join(workDir, 'x.txt'))).rejects.toThrow();
+    // The call is kept in history with an empty object, as the API requires
+    expect(server.requests[1].body.messages[1].content).toEqual([
+      expect.objectContaining({ type: 'tool_use', name: 'Write', input: {} }),
+    ]);
+  });
+
+  it('keeps going when a Stop hook blocks, and runs lifecycle hooks', async () => {
+    server.enqueue(
+      { type: 'message', content: [{ type: 'text', text: 'All done' }] },
+      { type: 'message', content: [{ type: 'text', text: 'Fixed the tests' }] }
+    );
+
+    const calls: string[] = [];
+    const hooks = new HookRegistry();
+    hooks.register({ event: 'SessionStart', handler: ({ source }) => (calls.push(`start:${source}`), { allow: true }) });
+    hooks.register({ event: 'SessionEnd', handler: ({ reason }) => (calls.push(`end:${reason}`), { allow: true }) });
+    hooks.register({
+      event: 'UserPromptSubmit',
+      handler: ({ messages }) => ({ allow: true, modified: [...messages, { role: 'user', content: 'Run the tests.' }] }),
+    });
+    hooks.register({
+      event: 'PreRequest',
+      handler: ({ params }) => ({ allow: true, modified: { ...params, system: 'Be brief.' } }),
+    });
+    hooks.register({
+      event: 'PostResponse',
+      handler: ({ turn, stopReason }) => (calls.push(`response:${turn}:${stopReason}`), { allow: true }),
+    });
+    hooks.register({
+      event: 'Stop',
+      handler: ({ stopHookActive }) =>
+        stopHookActive ? { allow: true } : { allow: false, reason: 'Tests are failing.' },
+    });
+
+    const loop = createLoop();
+    const events = await runLoop(loop, { hooks });
+    loop.close();
+
+    expect(server.requests).toHaveLength(2);
+    expect(server.requests[0].body.messages.map((m) => m.content)).toEqual(['go', 'Run the tests.']);
+    expect(JSON.stringify(server.requests[0].body.system)).toContain('Be brief.');
+    expect(server.requests[1].body.messages.at(-1)).toEqual({ role: 'user', content: 'Stop hook feedback: Tests are failing.' });
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', stopReason: 'end_turn', turnCount: 2 });
+    expect(calls).toEqual(['start:new', 'response:1:end_turn', 'response:2:end_turn', 'end:close']);
+  });
+
+  it('ends with blocked when a UserPromptSubmit hook rejects the prompt', async () => {
+    const hooks = new HookRegistry();
+    hooks.register({ event: 'UserPromptSubmit', handler: () => ({ allow: false, reason: 'contains a secret' }) });
+
+    const events = await runLoop(createLoop(), { hooks });
+
+    expect(server.requests).toHaveLength(0);
+    expect(events.map((e) => e.type)).toEqual(['error', 'done']);
+    expect(events[events.length - 1]).toMatchObject({ stopReason: 'blocked', turnCount: 0 });
+  });
+
+  it('ends with error when hook or permission settings fail to load', async () => {
+    const missing = path.join(workDir, 'missing-settings.json');
+
+    const hookEvents = await runLoop(createLoop(), { hooks: { settingsFile: missing } });
+    const permissionEvents = await runLoop(createLoop(), { permissions: { settingsFile: missing } });
+
+    expect(server.requests).toHaveLength(0);
+    for (const events of [hookEvents, permissionEvents]) {
+      expect(events.map((e) => e.type)).toEqual(['error', 'done']);
+      expect(events[1]).toMatchObject({ stopReason: 'error', turnCount: 0 });
+    }
+    expect((hookEvents[0] as { error: Error }).error.message).toContain('Hook settings file not found');
+    expect((permissionEvents[0] as { error: Error }).error.message).toContain('Permission settings file not found');
+  });
+
+  it('sends the PostToolUse-rewritten result to the model', async () => {
+    server.enqueue(
+      {
+        type: 'message',
+        content: [{ type: 'tool_use', name: 'Bash', input: { command: 'echo token=ghp_secret' } }],
+      },
+      { type: 'message', content: [{ type: 'text', text: 'Done' }] }
+    );
+
+    const hooks = new HookRegistry();
+    hooks.register({
+      event: 'PostToolUse',
+      name: 'redact',
+      handler: ({ result }) => ({ allow: true, modified: String(result).replace(/ghp_\w+/, '[REDACTED]'), isError: true }),
+    });
+
+    const loop = createLoop();
+    loop.registerTools([bashTool]);
+    const events = await runLoop(loop, { hooks });
+
+    const sent = server.requests[1].body.messages.at(-1).content[0];
+    expect(sent).toMatchObject({ type: 'tool_result', content: expect.stringContaining('token=[REDACTED]'), is_error: true });
+    expect(sent.content).not.toContain('ghp_secret');
+    expect(events.find((e) => e.type === 'tool_result')).toMatchObject({
+      content: expect.stringContaining('token=[REDACTED]'),
+      is_error: true,
+    });
+  });
+
+  it('redacts secrets in tool results sent to the API and written to the transcript', async () => {
+    const home = process.env.HOME;
+    process.env.HOME = workDir;
+    try {
+      const token = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+      await fs.writeFile(path.join(workDir, '.env'), `GITHUB_TOKEN=${token}\n`);
+      server.enqueue(
+        { type: 'message', content: [{ type: 'tool_use', name: 'Bash', input: { command: 'cat .env' } }] },
+        { type: 'message', content: [{ type: 'text', text: 'Found it' }] }
+      );
+
+      const loop = createLoop({ transcripts: true });
+      loop.registerTools([bashTool]);
+      const events = await runLoop(loop, { redaction: {} });
+      const sessionId = loop.getSessionId()!;
+
+      const sent = server.requests[1].body.messages.at(-1).content[0];
+      expect(sent.content).toMatch(/^GITHUB_TOKEN=\[REDACTED:github_token:[0-9a-f]{8}\]/);
+      expect(events.find((e) => e.type === 'tool_result')).toMatchObject({ content: sent.content });
+
+      const resumed = createLoop({ transcripts: true });
+      await resumed.loadSession(sessionId);
+      const history = JSON.stringify(resumed.getHistory());
+      expect(history).toContain('[REDACTED:github_token:');
+      expect(history).not.toContain(token);
+    } finally {
+      process.env.HOME = home;
+    }
+  });
+
+  it('redacts secrets in tool_progress chunks and result diffs', async () => {
+    const token = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+    server.enqueue(
+      {
+        type: 'message',
+        content: [
+          { type: 'tool_use', name: 'Bash', input: { command: `echo ${token}` } },
+          { type: 'tool_use', name: 'Write', input: { file_path: 'token.txt', content: `${token}\n` } },
+        ],
+      },
+      { type: 'message', content: [{ type: 'text', text: 'ok' }] }
+    );
+
+    const loop = createLoop();
+    loop.registerTools([bashTool, writeTool]);
+    const events = await runLoop(loop, { redaction: {}, toolProgress: { intervalMs: 10 } });
+
+    const progress = events.filter((e) => e.type === 'tool_progress');
+    expect(progress.length).toBeGreaterThan(0);
+    const write = events.find((e) => e.type === 'tool_result' && e.name === 'Write');
+    expect(write).toMatchObject({ diffs: [{ hunks: [{ lines: [expect.stringMatching(/^\+\[REDACTED:github_token:[0-9a-f]{8}\]/)] }] }] });
+    const output = events.filter((e) => e.type === 'tool_progress' || e.type === 'tool_result');
+    expect(JSON.stringify(output)).not.toContain(token);
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * AnthropicClient unit tests.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AnthropicClient } from '../../src/client/api-client.js';
+import { TokenManager } from '../../src/client/token-manager.js';
+import { ApiKeyAuthProvider, CallbackAuthProvider } from '../../src/client/auth.js';
+import { PromptTooLongError, type StreamEvent } from '../../src/client/types.js';
+
+function sseResponse(events: object[]): Response {
+  const body = events
+    .map((e) => `event: ${(e as { type: string }).type}\ndata: ${JSON.stringify(e)}\n\n`)
+    .join('');
+  return new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } });
+}
+
+function errorResponse(status: number, type: string, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ error: { type, message: `${type} happened` } }), {
+    status,
+    headers,
+  });
+}
+
+const messageStart = {
+  type: 'message_start',
+  message: {
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    content: [],
+    model: 'test',
+    stop_reason: null,
+    stop_sequence: null,
+    usage: { input_tokens: 10, output_tokens: 0 },
+  },
+};
+
+const textTurn = [
+  messageStart,
+  { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+  { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'hi' } },
+  { type: 'content_block_stop', index: 0 },
+  { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 1 } },
+  { type: 'message_stop' },
+];
+
+async function collect(client: AnthropicClient, signal?: AbortSignal): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of client.streamMessage(
+    {
+      model: 'test',
+      max_tokens: 100,
+      messages: [{ role: 'user', content: 'hello' }],
+    },
+    { signal }
+  )) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('AnthropicClient retries', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(TokenManager.prototype, 'getAccessToken').mockResolvedValue('token');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('retries overloaded responses and then streams the result', async () => {
+    fetchMock
+      .mockResolvedValueOnce(errorResponse(529, 'overloaded_error'))
+      .mockResolvedValueOnce(sseResponse(textTurn));
+
+    const onRetry = vi.fn();
+    const client = new AnthropicClient({ retry: { initialDelayMs: 1, jitter: 0, onRetry } });
+    const events = await collect(client);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(events[0]).toMatchObject({ type: 'retry', attempt: 1, delayMs: 1 });
+    expect(events.filter((e) => e.type === 'message_start')).toHaveLength(1);
+  });
+
+  it('honors retry-after on rate limit errors', async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(errorResponse(429, 'rate_limit_error', { 'retry-after': '2' }))
+      .mockResolvedValueOnce(sseResponse(textTurn));
+
+    const client = new AnthropicClient({ retry: { initialDelayMs: 1 } });
+    const pending = collect(client);
+    await vi.advanceTimersByTimeAsync(2000);
+    const events = await pending;
+    vi.useRealTimers();
+
+    expect(events[0]).toMatchObject({ type: 'retry', delayMs: 2000 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockResolvedValue(errorResponse(400, 'invalid_request_error'));
+
+    const client = new AnthropicClient({ retry: { initialDelayMs: 1 } });
+
+    await expect(collect(client)).rejects.toThrow('invalid_request_error happened');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('classifies prompt-too-long errors', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          error: { type: 'invalid_request_error', message: 'prompt is too long: 210000 tokens > 200000 maximum' },
+        }),
+        { status: 400 }
+      )
+    );
+
+    const error = await collect(new AnthropicClient()).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PromptTooLongError);
+    expect(error).toMatchObject({ promptTokens: 210000, maxTokens: 200000 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    fetchMock.mockImplementation(async () => errorResponse(500, 'api_error'));
+
+    const client = new AnthropicClient({ retry: { maxAttempts: 3, initialDelayMs: 1, jitter: 0 } });
+
+    await expect(collect(client)).rejects.toThrow('api_error happened');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries network errors by code, but not other TypeErrors or aborts', async () => {
+    const networkError = new TypeError('fetch failed', { cause: Object.assign(new Error('reset'), { code: 'ECONNRESET' }) });
+    fetchMock.mockRejectedValueOnce(networkError).mockResolvedValueOnce(sseResponse(textTurn));
+    const client = new AnthropicClient({ retry: { initialDelayMs: 1, jitter: 0 } });
+
+    expect((await collect(client))[0]).toMatchObject({ type: 'retry', error: networkError });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    fetchMock.mockReset();
+    fetchMock.mockRejectedValueOnce(new TypeError("Cannot read properties of undefined (reading 'x')"));
+    await expect(collect(client)).rejects.toThrow('Cannot read properties');
+
+    fetchMock.mockRejectedValueOnce(new DOMException('This operation was aborted', 'AbortError'));
+    await expect(collect(client)).rejects.toThrow('aborted');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops waiting to retry when the signal aborts', async () => {
+    fetchMock.mockImplementation(async () => errorResponse(529, 'overloaded_error'));
+    const client = new AnthropicClient({ retry: { initialDelayMs: 60_000, jitter: 0 } });
+    const controller = new AbortController();
+
+    const started = Date.now();
+    const result = collect(client, controller.signal);
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries an in-stream overload that arrives before any content', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        sseResponse([
+          messageStart,
+          { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+        ])
+      )
+      .mockResolvedValueOnce(sseResponse(textTurn));
+
+    const client = new AnthropicClient({ retry: { initialDelayMs: 1, jitter: 0 } });
+    const events = await collect(client);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(events.map((e) => e.type)).toEqual([
+      'retry',
+      'message_start',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_stop',
+      'message_delta',
+      'message_stop',
+    ]);
+  });
+});
+
+describe('AnthropicClient auth providers', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function lastRequest(): { headers: Record<string, string>; body: { system: { text: string }[] } } {
+    const [, init] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1];
+    return { headers: init.headers, body: JSON.parse(init.body) };
+  }
+
+  it('sends OAuth headers and the required system prefix by default', async () => {
+    vi.spyOn(TokenManager.prototype, 'getAccessToken').mockResolvedValue('oauth-token');
+    fetchMock.mockResolvedValue(sseResponse(textTurn));
+
+    await collect(new AnthropicClient());
+    const { headers, body } = lastRequest();
+
+    expect(headers.Authorization).toBe('Bearer oauth-token');
+    expect(headers['anthropic-beta']).toContain('oauth-2025-04-20');
+    expect(body.system[0].text).toMatch(/^You are Claude Code/);
+  });
+
+  it('sends x-api-key without OAuth betas or system prefix for API keys', async () => {
+    fetchMock.mockResolvedValue(sseResponse(textTurn));
+
+    await collect(new AnthropicClient({ auth: new ApiKeyAuthProvider('sk-test') }));
+    const { headers, body } = lastRequest();
+
+    expect(headers['x-api-key']).toBe('sk-test');
+    expect(headers.Authorization).toBeUndefined();
+    expect(headers['anthropic-beta']).not.toContain('oauth-2025-04-20');
+    expect(body.system).toEqual([]);
+  });
+
+  it('asks callback providers for a fresh token after a 401', async () => {
+    const callback = vi.fn(async (forceRefresh: boolean) => (forceRefresh ? 'new' : 'old'));
+    fetchMock
+      .mockResolvedValueOnce(errorResponse(401, 'authentication_error'))
+      .mockResolvedValueOnce(sseResponse(textTurn));
+
+    await collect(new AnthropicClient({ auth: new CallbackAuthProvider(callback) }));
+
+    expect(callback).toHaveBeenLastCalledWith(true);
+    expect(lastRequest().headers['x-api-key']).toBe('new');
+  });
+});
+
+describe('AnthropicClient.countTokens', () => {
+  const fetchMock = vi.fn();
+  const params = { model: 'test', messages: [{ role: 'user' as const, content: 'hello world' }] };
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('calls the count_tokens endpoint', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ input_tokens: 42 }), { status: 200 }));
+
+    const client = new AnthropicClient({ auth: new ApiKeyAuthProvider('sk-test'), baseUrl: 'http://api.test/' });
+    const count = await client.countTokens(params);
+
+    expect(count).toEqual({ input_tokens: 42, estimated: false });
+    expect(fetchMock.mock.calls[0][0]).toBe('http://api.test/v1/messages/count_tokens');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).not.toHaveProperty('max_tokens');
+  });
+
+  it('falls back to a local estimate and stops asking when the endpoint is unavailable', async () => {
+    fetchMock.mockResolvedValue(errorResponse(404, 'not_found_error'));
+
+    const client = new AnthropicClient({ auth: new ApiKeyAuthProvider('sk-test') });
+    const first = await client.countTokens(params);
+    const second = await client.countTokens(params);
+
+    expect(first.estimated).toBe(true);
+    expect(first.input_tokens).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Budget tracker unit tests.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { BudgetTracker } from '../../src/agent/budget.js';
+import type { UsageRecord } from '../../src/agent/usage.js';
+
+function record(overrides: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    timestamp: new Date().toISOString(),
+    sessionId: 's1',
+    model: 'claude-sonnet-4-5-20250929',
+    workerId: null,
+    turn: 1,
+    kind: 'turn',
+    causedBy: [],
+    inputTokens: 100,
+    outputTokens: 10,
+    cacheWriteTokens: 50,
+    cacheReadTokens: 850,
+    costUSD: 0.01,
+    ...overrides,
+  };
+}
+
+describe('BudgetTracker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts cache tokens as input', () => {
+    const budget = new BudgetTracker({});
+    budget.add(record());
+    budget.add(record({ workerId: 'worker_1' }));
+
+    expect(budget.getUsage()).toMatchObject({ inputTokens: 2000, outputTokens: 20, costUSD: 0.02 });
+  });
+
+  it('warns past the warning percentage and reports the exhausted limit', () => {
+    const budget = new BudgetTracker({ maxInputTokens: 2400, maxOutputTokens: 100, maxCostUSD: 0.02 });
+    expect(budget.check()).toEqual({ warnings: [], exceeded: null });
+
+    budget.add(record());
+    budget.add(record());
+    expect(budget.check()).toEqual({
+      warnings: [{ limit: 'inputTokens', used: 2000, max: 2400 }],
+      exceeded: { limit: 'costUSD', used: 0.02, max: 0.02 },
+    });
+  });
+
+  it('measures duration from creation', () => {
+    vi.useFakeTimers();
+    const budget = new BudgetTracker({ maxDurationMs: 1000, warnPercent: 50 });
+
+    vi.advanceTimersByTime(600);
+    expect(budget.check().warnings).toEqual([{ limit: 'durationMs', used: 600, max: 1000 }]);
+
+    vi.advanceTimersByTime(400);
+    expect(budget.check().exceeded).toEqual({ limit: 'durationMs', used: 1000, max: 1000 });
+  });
+});
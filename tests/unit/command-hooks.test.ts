@@ -0,0 +1,108 @@
+/**
+ * Command hook unit tests.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createCommandHook, loadCommandHooks } from '../../src/agent/command-hooks.js';
+import { HookRegistry } from '../../src/agent/hooks.js';
+
+describe('command hooks', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await fs.rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('sends the input as JSON on stdin and reads the result from stdout', async () => {
+    const hooks = new HookRegistry();
+    // Echo the received input back as the replacement input
+    hooks.register(
+      createCommandHook({
+        event: 'PreToolUse',
+        command: `node -e 'let s="";process.stdin.on("data",d=>s+=d).on("end",()=>{const i=JSON.parse(s);console.log(JSON.stringify({modified:{...i.input,event:i.event}}))})'`,
+      })
+    );
+
+    const result = await hooks.run('PreToolUse', { tool: 'Bash', input: { command: 'ls' } });
+
+    expect(result).toMatchObject({ allow: true, modified: { command: 'ls', event: 'PreToolUse' } });
+  });
+
+  it('denies on exit code 2 with stderr as the reason', async () => {
+    const hook = createCommandHook({ event: 'PreToolUse', command: 'echo "no pushing" >&2; exit 2' });
+
+    expect(await hook.handler({ tool: 'Bash', input: {} })).toEqual({ allow: false, reason: 'no pushing' });
+  });
+
+  it('denies when stdout says so', async () => {
+    const hook = createCommandHook({
+      event: 'PreToolUse',
+      command: `echo '{"decision":"deny","reason":"policy"}'`,
+    });
+
+    expect(await hook.handler({ tool: 'Write', input: {} })).toEqual({ allow: false, reason: 'policy' });
+  });
+
+  it('only runs for tools matching the matcher', async () => {
+    const hook = createCommandHook({ event: 'PostToolUse', matcher: 'Write|mcp__*', command: 'exit 2' });
+    const input = { input: {}, result: '', is_error: false };
+
+    expect((await hook.handler({ ...input, tool: 'Read' })).allow).toBe(true);
+    expect((await hook.handler({ ...input, tool: 'Write' })).allow).toBe(false);
+    expect((await hook.handler({ ...input, tool: 'mcp__github__create_issue' })).allow).toBe(false);
+  });
+
+  it('treats other exit codes, invalid output and timeouts as errors', async () => {
+    const run = (command: string, timeout?: number) =>
+      createCommandHook({ event: 'Stop', command, timeout }).handler({
+        sessionId: 's',
+        turnCount: 1,
+        messages: [],
+        stopHookActive: false,
+      });
+
+    await expect(run('echo broken >&2; exit 1')).rejects.toThrow('exited with code 1: broken');
+    await expect(run('echo not json')).rejects.toThrow('printed invalid JSON');
+    await expect(run('sleep 5', 100)).rejects.toThrow('timed out after 100ms');
+  });
+
+  it('times out without waiting for children that hold the output open', async () => {
+    const hook = createCommandHook({ event: 'Stop', command: 'sleep 5 & setsid sleep 2 & wait', timeout: 100 });
+    const started = Date.now();
+
+    await expect(
+      hook.handler({ sessionId: 's', turnCount: 1, messages: [], stopHookActive: false })
+    ).rejects.toThrow('timed out after 100ms');
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('loads hooks from a settings file, running commands in its directory', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-'));
+    await fs.writeFile(path.join(dir, 'policy.sh'), 'echo \'{"appendToResult":"checked"}\'');
+    const file = path.join(dir, 'settings.json');
+    await fs.writeFile(
+      file,
+      JSON.stringify({ hooks: { PostToolUse: [{ matcher: 'Bash', command: 'bash policy.sh', timeout: 5000 }] } })
+    );
+
+    expect(await loadCommandHooks(file)).toEqual([
+      { event: 'PostToolUse', matcher: 'Bash', command: 'bash policy.sh', timeout: 5000, cwd: dir },
+    ]);
+
+    const hooks = await HookRegistry.fromConfig({ settingsFile: file });
+    const result = await hooks.run('PostToolUse', { tool: 'Bash', input: {}, result: 'ok', is_error: false });
+    expect(result.appendToResult).toBe('checked');
+  });
+
+  it('rejects unknown events in a settings file', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-'));
+    const file = path.join(dir, 'settings.json');
+    await fs.writeFile(file, JSON.stringify({ hooks: { PreToolCall: [{ command: 'true' }] } }));
+
+    await expect(loadCommandHooks(file)).rejects.toThrow("Unknown hook event 'PreToolCall'");
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Compaction unit tests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AnthropicClient } from '../../src/client/api-client.js';
+import type { Message, StreamEvent } from '../../src/client/types.js';
+import {
+  SUMMARY_PREFIX,
+  countKeptMessages,
+  createCompactor,
+  findCompactionSplit,
+  renderConversation,
+} from '../../src/agent/compaction.js';
+
+const toolTurn = (id: string): Message[] => [
+  {
+    role: 'assistant',
+    content: [
+      { type: 'thinking', thinking: 'let me look', signature: `sig-${id}` },
+      { type: 'tool_use', id, name: 'Read', input: { file_path: `${id}.ts` } },
+    ],
+  },
+  { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content: `contents of ${id}` }] },
+];
+
+const conversation: Message[] = [
+  { role: 'user', content: 'fix the bug' },
+  ...toolTurn('t1'),
+  ...toolTurn('t2'),
+  ...toolTurn('t3'),
+  { role: 'assistant', content: [{ type: 'text', text: 'fixed' }] },
+];
+
+function summarizingClient(summary: string, requests: unknown[] = []): AnthropicClient {
+  return {
+    async *streamMessage(params: unknown): AsyncGenerator<StreamEvent> {
+      requests.push(params);
+      yield { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: summary } };
+    },
+  } as unknown as AnthropicClient;
+}
+
+describe('findCompactionSplit', () => {
+  it('keeps the most recent turns starting at an assistant message', () => {
+    expect(findCompactionSplit(conversation, 2)).toBe(5);
+    expect(conversation[5].role).toBe('assistant');
+  });
+
+  it('returns null when too little would be summarized', () => {
+    expect(findCompactionSplit(conversation, 4)).toBeNull();
+    expect(findCompactionSplit(conversation.slice(0, 3), 1)).toBeNull();
+  });
+});
+
+describe('renderConversation', () => {
+  it('renders tool calls and results as text, without thinking', () => {
+    const text = renderConversation(conversation.slice(0, 3));
+
+    expect(text).toBe(
+      'User:\nfix the bug\n\nAssistant:\n[Tool call Read: {"file_path":"t1.ts"}]\n\nUser:\n[Tool result: contents of t1]'
+    );
+  });
+
+  it('clips long tool results', () => {
+    const text = renderConversation([
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'x', content: 'x'.repeat(5000), is_error: true }] },
+    ]);
+
+    expect(text).toContain('[Tool result (error): xxx');
+    expect(text).toContain('[3000 more characters]');
+  });
+});
+
+describe('createCompactor', () => {
+  it('replaces older turns with a summary and keeps recent messages intact', async () => {
+    const requests: Array<{ messages: Message[] }> = [];
+    const compact = createCompactor(summarizingClient('## Goals\nFix the bug', requests), {
+      model: 'test-model',
+      keepRecentTurns: 2,
+    });
+
+    const compacted = await compact(conversation, 'session');
+
+    expect(compacted).toHaveLength(4);
+    expect(compacted[0]).toEqual({ role: 'user', content: `${SUMMARY_PREFIX}\n\n## Goals\nFix the bug` });
+    expect(compacted.slice(1)).toEqual(conversation.slice(5));
+    expect(countKeptMessages(conversation, compacted)).toBe(3);
+    expect(requests[0].messages[0].content).toContain('contents of t2');
+    expect(requests[0].messages[0].content).not.toContain('contents of t3');
+  });
+
+  it('returns the input when there is nothing to summarize', async () => {
+    const compact = createCompactor(summarizingClient('unused'), { model: 'test-model', keepRecentTurns: 10 });
+
+    expect(await compact(conversation, 'session')).toBe(conversation);
+  });
+
+  it('fails on an empty summary', async () => {
+    const compact = createCompactor(summarizingClient('  '), { model: 'test-model', keepRecentTurns: 1 });
+
+    await expect(compact(conversation, 'session')).rejects.toThrow('empty summary');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Concurrency utility unit tests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createLimiter } from '../../src/utils/concurrency.js';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('createLimiter', () => {
+  it('never runs more than the configured number of tasks at once', async () => {
+    const limit = createLimiter(2);
+    let active = 0;
+    let peak = 0;
+
+    const task = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(10);
+      active--;
+    };
+
+    await Promise.all([1, 2, 3, 4, 5].map(() => limit(task)));
+
+    expect(peak).toBe(2);
+  });
+
+  it('resolves each task with its own result', async () => {
+    const limit = createLimiter(3);
+
+    const results = await Promise.all(
+      [30, 10, 20].map((ms) => limit(async () => {
+        await delay(ms);
+        return ms;
+      }))
+    );
+
+    expect(results).toEqual([30, 10, 20]);
+  });
+
+  it('propagates rejections without stalling the queue', async () => {
+    const limit = createLimiter(1);
+
+    const failing = limit(() => {
+      throw new Error('boom');
+    });
+    const following = limit(async () => 'ok');
+
+    await expect(failing).rejects.toThrow('boom');
+    await expect(following).resolves.toBe('ok');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Typed tool definition unit tests.
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { defineTool, schema, type FromSchema } from '../../src/tools/define.js';
+import { ToolRegistry } from '../../src/tools/registry.js';
+
+describe('defineTool', () => {
+  it('infers input types from a literal schema', async () => {
+    const tool = defineTool({
+      name: 'Tag',
+      description: 'Tag a file',
+      input_schema: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' } },
+          color: { type: 'string', enum: ['red', 'blue'] },
+        },
+        required: ['path', 'tags'],
+      },
+      async execute(input) {
+        expectTypeOf(input).toEqualTypeOf<{ path: string; tags: string[]; color?: 'red' | 'blue' }>();
+        return { content: `${input.path}: ${input.tags.join(', ')}` };
+      },
+    });
+
+    const registry = new ToolRegistry();
+    registry.register(tool);
+    expect(await registry.execute('Tag', { path: 'a.ts', tags: ['x', 'y'] }, { workingDir: '/' })).toEqual({
+      content: 'a.ts: x, y',
+    });
+  });
+
+  it('rejects schemas that are not objects', () => {
+    expect(() =>
+      defineTool({ name: 'Bad', description: '', input_schema: { type: 'string' }, execute: async () => ({ content: '' }) })
+    ).toThrow("Tool 'Bad' must have an object input_schema");
+  });
+});
+
+describe('schema builder', () => {
+  const input = schema.object({
+    path: schema.string({ description: 'File path' }),
+    count: schema.optional(schema.integer({ minimum: 0 })),
+    mode: schema.enum(['fast', 'slow']),
+    items: schema.array(schema.object({ id: schema.number(), done: schema.optional(schema.boolean()) })),
+  });
+
+  it('builds plain JSON Schema', () => {
+    expect(input).toEqual({
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'File path' },
+        count: { type: 'integer', minimum: 0 },
+        mode: { enum: ['fast', 'slow'] },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { id: { type: 'number' }, done: { type: 'boolean' } },
+            required: ['id'],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ['path', 'mode', 'items'],
+      additionalProperties: false,
+    });
+  });
+
+  it('derives the value type', () => {
+    expectTypeOf<FromSchema<typeof input>>().toEqualTypeOf<{
+      path: string;
+      mode: 'fast' | 'slow';
+      items: { id: number; done?: boolean }[];
+      count?: number;
+    }>();
+  });
+
+  it('is validated by the registry', async () => {
+    const registry = new ToolRegistry();
+    registry.register(
+      defineTool({ name: 'Batch', description: '', input_schema: input, execute: async (i) => ({ content: i.mode }) })
+    );
+
+    const result = await registry.execute('Batch', { path: 'a', mode: 'slow', items: [{ id: '1' }] }, { workingDir: '/' });
+    expect(result).toEqual({ content: 'Invalid input for Batch:\n- $.items[0].id: expected number, got string', is_error: true });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Diff and patch utility unit tests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createFileDiff, formatUnifiedDiff } from '../../src/utils/diff.js';
+import { applyHunks, parsePatch, patchFilePaths, PatchParseError } from '../../src/utils/patch.js';
+
+const lines = (count: number, prefix = 'line') =>
+  Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`).join('\n') + '\n';
+
+describe('createFileDiff', () => {
+  it('produces unified hunks with context', () => {
+    const diff = createFileDiff('src/a.ts', 'a\nb\nc\n', 'a\nB\nc\n');
+
+    expect(diff).toMatchObject({ type: 'modify', additions: 1, deletions: 1 });
+    expect(formatUnifiedDiff(diff)).toBe(['--- a/src/a.ts', '+++ b/src/a.ts', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c'].join('\n'));
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const before = lines(30);
+    const after = before.replace('line 2\n', 'line two\n').replace('line 28\n', 'line twenty-eight\n');
+
+    const diff = createFileDiff('f.txt', before, after);
+
+    expect(diff.hunks).toHaveLength(2);
+    expect(diff.hunks[1]).toMatchObject({ oldStart: 25, oldLines: 6, newStart: 25, newLines: 6 });
+  });
+
+  it('marks a missing final newline', () => {
+    const diff = createFileDiff('f.txt', 'a\nb', 'a\nb\n');
+
+    expect(diff.hunks[0].lines).toEqual([' a', '-b', '\\ No newline at end of file', '+b']);
+  });
+
+  it('describes created and deleted files', () => {
+    expect(formatUnifiedDiff(createFileDiff('new.txt', null, 'x\n'))).toBe('--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,1 @@\n+x');
+    expect(createFileDiff('old.txt', 'x\ny\n', null)).toMatchObject({ type: 'delete', deletions: 2 });
+  });
+
+  it('truncates long diffs when asked', () => {
+    const diff = createFileDiff('f.txt', null, lines(50));
+    const text = formatUnifiedDiff(diff, { maxLines: 10 });
+
+    expect(text.split('\n')).toHaveLength(13);
+    expect(text).toContain('[... 41 more diff lines not shown]');
+  });
+});
+
+describe('parsePatch / applyHunks', () => {
+  it('round-trips diffs produced by createFileDiff', () => {
+    const before = lines(40);
+    const after = before
+      .replace('line 3\n', 'line three\nextra\n')
+      .replace('line 20\n', '')
+      .replace('line 39\n', 'line 39 changed\n');
+
+    const [patch] = parsePatch(formatUnifiedDiff(createFileDiff('f.txt', before, after)));
+    const result = applyHunks(before, patch.hunks);
+
+    expect(result).toMatchObject({ content: after });
+  });
+
+  it('parses multi-file git diffs', () => {
+    const patches = parsePatch(
+      [
+        'diff --git a/one.txt b/one.txt',
+        'index 123..456 100644',
+        '--- a/one.txt',
+        '+++ b/one.txt',
+        '@@ -1 +1 @@',
+        '-old',
+        '+new',
+        'diff --git a/two.txt b/two.txt',
+        '--- /dev/null',
+        '+++ b/two.txt',
+        '@@ -0,0 +1,2 @@',
+        '+hello',
+        '+world',
+      ].join('\n')
+    );
+
+    expect(patches.map((p) => [p.oldPath, p.newPath])).toEqual([
+      ['one.txt', 'one.txt'],
+      [null, 'two.txt'],
+    ]);
+    expect(applyHunks('', patches[1].hunks)).toMatchObject({ content: 'hello\nworld\n' });
+  });
+
+  it('finds hunks whose line numbers are off', () => {
+    const content = 'header\n'.repeat(10) + 'a\nb\nc\n';
+    const [patch] = parsePatch('--- a/f\n+++ b/f\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n');
+
+    const result = applyHunks(content, patch.hunks);
+
+    expect(result).toMatchObject({ content: 'header\n'.repeat(10) + 'a\nB\nc\n', applied: [{ offset: 10, fuzz: 0 }] });
+  });
+
+  it('tolerates whitespace differences and keeps the file indentation', () => {
+    const content = 'function f() {\n\treturn 1;\n}\n';
+    const [patch] = parsePatch('--- a/f\n+++ b/f\n@@ -1,3 +1,3 @@\n function f() {\n-    return 1;\n+\treturn 2;\n }\n');
+
+    const result = applyHunks(content, patch.hunks);
+
+    expect(result).toMatchObject({ content: 'function f() {\n\treturn 2;\n}\n', applied: [{ ignoredWhitespace: true }] });
+  });
+
+  it('applies with fuzz when outer context lines are wrong', () => {
+    const content = 'one\ntwo\nthree\nfour\nfive\n';
+    const [patch] = parsePatch('--- a/f\n+++ b/f\n@@ -1,5 +1,5 @@\n wrong\n two\n-three\n+THREE\n four\n also wrong\n');
+
+    const result = applyHunks(content, patch.hunks);
+
+    expect(result).toMatchObject({ content: 'one\ntwo\nTHREE\nfour\nfive\n', applied: [{ fuzz: 1 }] });
+  });
+
+  it('reports hunks that cannot be placed', () => {
+    const [patch] = parsePatch('--- a/f\n+++ b/f\n@@ -1,2 +1,2 @@\n-missing\n+present\n');
+
+    const result = applyHunks('something else\n', patch.hunks);
+
+    expect(result).toHaveProperty('error');
+    expect((result as { error: string }).error).toContain('Hunk 1');
+  });
+
+  it('preserves CRLF line endings', () => {
+    const [patch] = parsePatch('--- a/f\n+++ b/f\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n');
+
+    expect(applyHunks('a\r\nb\r\n', patch.hunks)).toMatchObject({ content: 'a\r\nc\r\n' });
+  });
+
+  it('rejects input without file headers', () => {
+    expect(() => parsePatch('@@ -1 +1 @@\n-a\n+b\n')).toThrow(PatchParseError);
+    expect(() => parsePatch('just some text')).toThrow(PatchParseError);
+  });
+
+  it('lists the paths a patch touches', () => {
+    expect(patchFilePaths('--- a/x.ts\n+++ b/x.ts\n--- /dev/null\n+++ b/y.ts\n')).toEqual(['x.ts', 'y.ts']);
+  });
+
+  it('reads --- and +++ lines within a hunk as changes, not headers', () => {
+    const patch = '--- a/q.sql\n+++ b/q.sql\n@@ -1,2 +1,2 @@\n--- old comment\n+++ new comment\n select 1;\n--- a/x.ts\n+++ b/x.ts\n@@ -1 +1 @@\n-a\n+b\n';
+
+    expect(patchFilePaths(patch)).toEqual(['q.sql', 'x.ts']);
+    const patches = parsePatch(patch);
+    expect(patches.map((p) => p.newPath)).toEqual(['q.sql', 'x.ts']);
+    expect(patches[0].hunks[0].lines).toEqual(['--- old comment', '+++ new comment', ' select 1;']);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tool result elision unit tests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Message } from '../../src/client/types.js';
+import { elideToolResults } from '../../src/agent/elision.js';
+
+const bigFile = Array.from({ length: 300 }, (_, i) => `${String(i + 1).padStart(6)}\tline ${i + 1}`).join('\n');
+
+function turn(id: string, name: string, input: unknown, output: string, isError = false): Message[] {
+  return [
+    { role: 'assistant', content: [{ type: 'tool_use', id, name, input }] },
+    { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content: output, is_error: isError }] },
+  ];
+}
+
+function resultOf(messages: Message[], index: number): unknown {
+  return (messages[index].content as Array<{ content: unknown }>)[0].content;
+}
+
+const filler = (n: number): Message[] =>
+  Array.from({ length: n }, (_, i) => turn(`f${i}`, 'Glob', { pattern: '*.md' }, 'README.md')).flat();
+
+describe('elideToolResults', () => {
+  it('elides large results older than the recent turns', () => {
+    const messages: Message[] = [
+      { role: 'user', content: 'start' },
+      ...turn('r1', 'Read', { file_path: '/work/src/x.ts' }, bigFile),
+      ...turn('g1', 'Grep', { pattern: 'TODO' }, bigFile),
+      ...filler(3),
+    ];
+
+    const result = elideToolResults(messages, { workingDir: '/work' });
+
+    expect(result.elided).toBe(2);
+    expect(resultOf(result.messages, 2)).toBe('[elided: Read src/x.ts, 300 lines, re-read if needed]');
+    expect(resultOf(result.messages, 4)).toBe('[elided: Grep "TODO", 300 lines, re-run if needed]');
+    expect(result.charsSaved).toBeGreaterThan(bigFile.length);
+    // Untouched messages are shared, and the input is not mutated
+    expect(result.messages[5]).toBe(messages[5]);
+    expect(resultOf(messages, 2)).toBe(bigFile);
+  });
+
+  it('keeps recent, small and error results', () => {
+    const messages: Message[] = [
+      { role: 'user', content: 'start' },
+      ...turn('e1', 'Bash', { command: 'make' }, bigFile, true),
+      ...turn('s1', 'Read', { file_path: 'small.ts' }, 'tiny'),
+      ...filler(2),
+      ...turn('r1', 'Read', { file_path: 'x.ts' }, bigFile),
+    ];
+
+    const result = elideToolResults(messages, { workingDir: '/work' });
+
+    expect(result.elided).toBe(0);
+    expect(result.messages).toBe(messages);
+  });
+
+  it('elides a Read superseded by a later read of the same file', () => {
+    const messages: Message[] = [
+      { role: 'user', content: 'start' },
+      ...turn('r1', 'Read', { file_path: 'x.ts' }, bigFile),
+      ...turn('r2', 'Read', { file_path: '/work/x.ts' }, bigFile),
+      ...turn('b1', 'Bash', { command: 'npm test' }, 'ok'),
+    ];
+
+    const result = elideToolResults(messages, { workingDir: '/work' });
+
+    expect(result.elided).toBe(1);
+    expect(resultOf(result.messages, 2)).toContain('[elided: Read x.ts');
+    expect(resultOf(result.messages, 4)).toBe(bigFile);
+  });
+
+  it('never touches the last two user messages', () => {
+    const messages: Message[] = [
+      { role: 'user', content: 'start' },
+      ...turn('r1', 'Read', { file_path: 'x.ts' }, bigFile),
+      ...turn('r2', 'Read', { file_path: 'x.ts' }, bigFile),
+    ];
+
+    expect(elideToolResults(messages, { keepRecentTurns: 1 }).elided).toBe(0);
+  });
+
+  it('is stable once results are elided', () => {
+    const messages: Message[] = [{ role: 'user', content: 'start' }, ...turn('r1', 'Read', { file_path: 'x.ts' }, bigFile), ...filler(3)];
+
+    const first = elideToolResults(messages, { workingDir: '/work' });
+    const second = elideToolResults(first.messages, { workingDir: '/work' });
+
+    expect(second.elided).toBe(0);
+    expect(second.messages).toBe(first.messages);
+  });
+});
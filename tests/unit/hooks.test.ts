@@ -0,0 +1,138 @@
+/**
+ * Hook registry unit tests.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { HookRegistry } from '../../src/agent/hooks.js';
+import type { MessageParams } from '../../src/client/types.js';
+
+describe('HookRegistry', () => {
+  it('chains message rewrites from UserPromptSubmit hooks', async () => {
+    const hooks = new HookRegistry();
+    hooks.register({
+      event: 'UserPromptSubmit',
+      handler: ({ messages }) => ({ allow: true, modified: [...messages, { role: 'user', content: 'second' }] }),
+    });
+    hooks.register({
+      event: 'UserPromptSubmit',
+      handler: ({ messages }) => ({ allow: true, modified: messages.map((m) => ({ ...m, content: `[${m.content}]` })) }),
+    });
+
+    const result = await hooks.run('UserPromptSubmit', { sessionId: 's', messages: [{ role: 'user', content: 'first' }] });
+
+    expect(result.modified).toEqual([
+      { role: 'user', content: '[first]' },
+      { role: 'user', content: '[second]' },
+    ]);
+  });
+
+  it('returns the request unchanged when no PreRequest hook rewrites it', async () => {
+    const params: MessageParams = { model: 'm', messages: [], max_tokens: 10 };
+    const hooks = new HookRegistry();
+    hooks.register({ event: 'PreRequest', handler: () => ({ allow: true }) });
+
+    expect((await hooks.run('PreRequest', { sessionId: 's', turn: 1, params })).modified).toBe(params);
+  });
+
+  it('stops at the first hook that blocks', async () => {
+    const hooks = new HookRegistry();
+    const calls: string[] = [];
+    hooks.register({ event: 'Stop', handler: () => (calls.push('a'), { allow: false, reason: 'tests failing' }) });
+    hooks.register({ event: 'Stop', handler: () => (calls.push('b'), { allow: true }) });
+
+    const result = await hooks.run('Stop', { sessionId: 's', turnCount: 1, messages: [], stopHookActive: false });
+
+    expect(result).toEqual({ allow: false, reason: 'tests failing' });
+    expect(calls).toEqual(['a']);
+  });
+
+  it('runs hooks by priority, then registration order', async () => {
+    const hooks = new HookRegistry();
+    const calls: string[] = [];
+    const record = (name: string) => () => (calls.push(name), { allow: true });
+    hooks.register({ event: 'PreToolUse', name: 'a', handler: record('a') });
+    hooks.register({ event: 'PreToolUse', name: 'b', priority: 10, handler: record('b') });
+    hooks.register({ event: 'PreToolUse', name: 'c', handler: record('c') });
+    hooks.register({ event: 'PreToolUse', name: 'd', priority: -1, handler: record('d') });
+
+    await hooks.run('PreToolUse', { tool: 'Bash', input: {} });
+
+    expect(calls).toEqual(['b', 'a', 'c', 'd']);
+    expect(hooks.getHooks('PreToolUse').map((h) => h.name)).toEqual(['b', 'a', 'c', 'd']);
+  });
+
+  it('unregisters hooks by name', () => {
+    const hooks = new HookRegistry();
+    hooks.register({ event: 'PostToolUse', name: 'audit', handler: () => ({ allow: true }) });
+
+    expect(() => hooks.register({ event: 'Stop', name: 'audit', handler: () => ({ allow: true }) })).toThrow(
+      "Hook 'audit' is already registered"
+    );
+    expect(hooks.unregister('audit')).toBe(true);
+    expect(hooks.unregister('audit')).toBe(false);
+    expect(hooks.hasHooks('PostToolUse')).toBe(false);
+  });
+
+  it('lets PostToolUse hooks rewrite the result and flip is_error', async () => {
+    const hooks = new HookRegistry();
+    hooks.register({
+      event: 'PostToolUse',
+      handler: ({ result }) => ({ allow: true, modified: String(result).replace(/sk-\w+/g, '[REDACTED]') }),
+    });
+    hooks.register({
+      event: 'PostToolUse',
+      handler: ({ result, is_error }) => ({
+        allow: true,
+        isError: !is_error && String(result).includes('FAILED'),
+      }),
+    });
+
+    const result = await hooks.run('PostToolUse', {
+      tool: 'Bash',
+      input: {},
+      result: 'key sk-abc123\n1 FAILED',
+      is_error: false,
+    });
+
+    expect(result).toMatchObject({ allow: true, modified: 'key [REDACTED]\n1 FAILED', isError: true });
+  });
+
+  it('logs hook errors and continues by default', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const hooks = new HookRegistry();
+    hooks.register({ event: 'PreToolUse', handler: () => Promise.reject(new Error('boom')) });
+    hooks.register({ event: 'PreToolUse', handler: () => ({ allow: true, reason: 'second ran' }) });
+
+    const result = await hooks.run('PreToolUse', { tool: 'Bash', input: {} });
+
+    expect(result).toMatchObject({ allow: true, reason: 'second ran' });
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('denies when a hook fails under the block policy', async () => {
+    const hooks = new HookRegistry({ onError: 'block' });
+    hooks.register({
+      event: 'PreToolUse',
+      name: 'policy',
+      handler: () => {
+        throw new Error('policy server unreachable');
+      },
+    });
+    hooks.register({
+      event: 'PreToolUse',
+      onError: 'continue',
+      priority: 1,
+      handler: () => {
+        throw new Error('optional check failed');
+      },
+    });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await hooks.run('PreToolUse', { tool: 'Bash', input: {} });
+
+    expect(result).toEqual({ allow: false, reason: "Hook 'policy' failed: policy server unreachable" });
+    expect(error).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+});
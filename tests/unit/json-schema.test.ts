@@ -0,0 +1,74 @@
+/**
+ * JSON Schema validation unit tests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateSchema, formatSchemaErrors } from '../../src/utils/json-schema.js';
+import { createOutputTool } from '../../src/agent/structured-output.js';
+import type { JSONSchema } from '../../src/tools/types.js';
+
+const schema: JSONSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, pattern: '^[a-z]+$' },
+    count: { type: 'integer', minimum: 0, maximum: 10 },
+    mode: { enum: ['fast', 'slow'] },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    extra: { type: ['string', 'null'] },
+  },
+  required: ['name', 'count'],
+  additionalProperties: false,
+};
+
+describe('validateSchema', () => {
+  it('accepts a matching value', () => {
+    expect(validateSchema({ name: 'abc', count: 3, mode: 'fast', tags: ['x'], extra: null }, schema)).toEqual([]);
+  });
+
+  it('reports each problem with its path', () => {
+    const errors = validateSchema({ name: 'ABC', count: 2.5, mode: 'medium', tags: ['x', 1, 'z'], other: true }, schema);
+
+    expect(errors).toEqual([
+      { path: '$.name', message: 'must match /^[a-z]+$/' },
+      { path: '$.count', message: 'expected integer, got number' },
+      { path: '$.mode', message: 'must be one of "fast", "slow"' },
+      { path: '$.tags', message: 'must have at most 2 items' },
+      { path: '$.tags[1]', message: 'expected string, got integer' },
+      { path: '$.other', message: 'unexpected property' },
+    ]);
+  });
+
+  it('reports missing properties and bounds', () => {
+    const errors = validateSchema({ count: 11 }, schema);
+    expect(formatSchemaErrors(errors)).toBe('- $: missing required property "name"\n- $.count: must be <= 10');
+    expect(validateSchema([], schema)).toEqual([{ path: '$', message: 'expected object, got array' }]);
+  });
+
+  it('handles patterns that are invalid in unicode mode or invalid altogether', () => {
+    const email = { type: 'string', pattern: '^[\\w.]+\\@[\\w.]+$' };
+    expect(validateSchema('a.b@c.d', email)).toEqual([]);
+    expect(validateSchema('a.b', email)).toEqual([{ path: '$', message: 'must match /^[\\w.]+\\@[\\w.]+$/' }]);
+    expect(validateSchema('a', { type: 'string', pattern: '(' })).toEqual([
+      { path: '$', message: 'schema pattern /(/ is not a valid regular expression' },
+    ]);
+  });
+});
+
+describe('createOutputTool', () => {
+  it('uses an object schema as the tool input', () => {
+    const tool = createOutputTool(schema);
+    expect(tool.definition.input_schema).toBe(schema);
+    expect(tool.validate({ name: 'ok', count: 1 })).toEqual({ valid: true, value: { name: 'ok', count: 1 } });
+    expect(tool.validate({ name: 'ok' })).toEqual({
+      valid: false,
+      error: 'Output does not match the schema:\n- $: missing required property "count"',
+    });
+  });
+
+  it('wraps and unwraps other schemas', () => {
+    const tool = createOutputTool({ type: 'array', items: { type: 'number' } });
+    expect(tool.definition.input_schema.type).toBe('object');
+    expect(tool.validate({ value: [1, 2] })).toEqual({ valid: true, value: [1, 2] });
+    expect(tool.validate({ value: ['1'] })).toMatchObject({ valid: false });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * PermissionManager unit tests.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  PermissionManager,
+  setPermissionHandler,
+  clearPermissionHandler,
+} from '../../src/agent/permissions.js';
+
+const ctx = { workingDir: '/repo', sessionId: 'test' };
+
+describe('PermissionManager', () => {
+  afterEach(() => {
+    clearPermissionHandler();
+  });
+
+  it('allows calls that match no rule by default', () => {
+    const pm = new PermissionManager({ deny: ['Bash(git push:*)'] });
+
+    expect(pm.evaluate('Read', { file_path: '/repo/a.ts' }, '/repo').decision).toBe('allow');
+  });
+
+  it('matches Bash prefix rules, including inside compound commands', () => {
+    const pm = new PermissionManager({ allow: ['Bash(git:*)'], deny: ['Bash(git push:*)'] });
+
+    expect(pm.evaluate('Bash', { command: 'git status' }, '/repo')).toEqual({
+      decision: 'allow',
+      rule: 'Bash(git:*)',
+    });
+    expect(pm.evaluate('Bash', { command: 'git add . && git push origin main' }, '/repo').decision).toBe('deny');
+    expect(pm.evaluate('Bash', { command: 'FOO=1 git push' }, '/repo').decision).toBe('deny');
+    expect(pm.evaluate('Bash', { command: 'echo "a && git push"' }, '/repo').decision).toBe('allow');
+  });
+
+  it('finds denied commands behind background jobs, subshells, substitutions and wrappers', () => {
+    const pm = new PermissionManager({ deny: ['Bash(git push:*)'] });
+    const bypasses = [
+      'sleep 0 & git push origin',
+      '(git push)',
+      'echo $(git push)',
+      'echo "$(git push)"',
+      'echo `git push`',
+      'cat <(git push)',
+      'git  push',
+      "git 'push'",
+      'env git push',
+      'env -u HOME FOO=1 git push',
+      'command git push',
+      'exec git push',
+      'if true; then git push; fi',
+      '{ git push; }',
+    ];
+
+    for (const command of bypasses) {
+      expect(pm.evaluate('Bash', { command }, '/repo'), command).toEqual({ decision: 'deny', rule: 'Bash(git push:*)' });
+    }
+    expect(pm.evaluate('Bash', { command: 'git status 2>&1 &> /dev/null' }, '/repo').decision).toBe('allow');
+    expect(pm.evaluate('Bash', { command: 'echo $((1 + 2))' }, '/repo').decision).toBe('allow');
+  });
+
+  it('asks for Bash commands that cannot be parsed', () => {
+    const pm = new PermissionManager({ allow: ['Bash(echo:*)'] });
+
+    expect(pm.evaluate('Bash', { command: 'echo "unterminated' }, '/repo').decision).toBe('ask');
+    expect(pm.evaluate('Bash', { command: 'echo $(date' }, '/repo').decision).toBe('ask');
+    expect(pm.evaluate('Bash', { command: 'env -S "git push"' }, '/repo').decision).toBe('ask');
+    expect(new PermissionManager({ deny: ['Bash'] }).evaluate('Bash', { command: '(' }, '/repo').decision).toBe('deny');
+  });
+
+  it('asks for Bash commands whose command name is not known until run', () => {
+    const pm = new PermissionManager({ deny: ['Bash(git push:*)'], defaultDecision: 'allow' });
+    const decide = (command: string) => pm.evaluate('Bash', { command }, '/repo').decision;
+
+    expect(decide("eval 'git push'")).toBe('ask');
+    expect(decide("bash -c 'git push'")).toBe('ask');
+    expect(decide("sh -c 'git push'")).toBe('ask');
+    expect(decide("$'git' push")).toBe('ask');
+    expect(decide('git${IFS}push')).toBe('ask');
+    expect(decide('x=git; $x push')).toBe('ask');
+    expect(decide('f(){ git push; }; f')).toBe('ask');
+    expect(decide('function f { git push; }; f')).toBe('ask');
+    expect(decide('git status')).toBe('allow');
+  });
+
+  it('matches denied commands behind sudo, timeout, nohup, nice and xargs', () => {
+    const pm = new PermissionManager({ deny: ['Bash(git push:*)'], defaultDecision: 'allow' });
+    const decide = (command: string) => pm.evaluate('Bash', { command }, '/repo').decision;
+
+    expect(decide('sudo git push')).toBe('deny');
+    expect(decide('sudo -u root git push')).toBe('deny');
+    expect(decide('timeout 5 git push')).toBe('deny');
+    expect(decide('timeout -s KILL 5 git push')).toBe('deny');
+    expect(decide('nohup git push')).toBe('deny');
+    expect(decide('nice git push')).toBe('deny');
+    expect(decide('nice -n 10 git push')).toBe('deny');
+    expect(decide('echo main | xargs git push')).toBe('deny');
+    expect(decide('builtin command git push')).toBe('deny');
+  });
+
+  it('matches git subcommands behind global options', () => {
+    const pm = new PermissionManager({ deny: ['Bash(git push:*)'], defaultDecision: 'allow' });
+    const decide = (command: string) => pm.evaluate('Bash', { command }, '/repo').decision;
+
+    expect(decide('git -C . push')).toBe('deny');
+    expect(decide('git -c user.name=x --no-pager push origin')).toBe('deny');
+    expect(decide('git -C . status')).toBe('allow');
+  });
+
+  it('matches Bash prefix rules on whole words', () => {
+    const pm = new PermissionManager({ allow: ['Bash(npm test:*)'], deny: ['Bash(git push:*)'], defaultDecision: 'ask' });
+    const decide = (command: string) => pm.evaluate('Bash', { command }, '/repo').decision;
+
+    expect(decide('git push')).toBe('deny');
+    expect(decide('git push --force')).toBe('deny');
+    expect(decide('git pushx')).toBe('ask');
+    expect(decide('npm test -- --watch')).toBe('allow');
+    expect(decide('npm testify')).toBe('ask');
+  });
+
+  it('requires allow rules to cover every part of a Bash command', () => {
+    const pm = new PermissionManager({ allow: ['Bash(npm test)'], defaultDecision: 'ask' });
+
+    expect(pm.evaluate('Bash', { command: 'npm test' }, '/repo').decision).toBe('allow');
+    expect(pm.evaluate('Bash', { command: 'npm test; rm -rf /' }, '/repo').decision).toBe('ask');
+  });
+
+  it('matches file path globs relative to the working directory', () => {
+    const pm = new PermissionManager({
+      allow: ['Write(src/**)'],
+      deny: ['Write(.env*)', 'Edit(.env*)'],
+      defaultDecision: 'deny',
+    });
+
+    expect(pm.evaluate('Write', { file_path: '/repo/src/a/b.ts' }, '/repo').decision).toBe('allow');
+    expect(pm.evaluate('Write', { file_path: 'src/index.ts' }, '/repo').decision).toBe('allow');
+    expect(pm.evaluate('Write', { file_path: '/repo/README.md' }, '/repo').decision).toBe('deny');
+    expect(pm.evaluate('Write', { file_path: '/repo/src/.env.local' }, '/repo').decision).toBe('deny');
+    expect(pm.evaluate('Edit', { file_path: '/repo/.env' }, '/repo').decision).toBe('deny');
+  });
+
+  it('checks every file path in an ApplyPatch call', () => {
+    const pm = new PermissionManager({ allow: ['ApplyPatch(src/**)'], deny: ['ApplyPatch(.env*)'], defaultDecision: 'ask' });
+    const patch = (...files: string[]) =>
+      files.map((f) => `--- a/${f}\n+++ b/${f}\n@@ -1 +1 @@\n-a\n+b`).join('\n');
+
+    expect(pm.evaluate('ApplyPatch', { patch: patch('src/a.ts', 'src/b.ts') }, '/repo').decision).toBe('allow');
+    expect(pm.evaluate('ApplyPatch', { patch: patch('src/a.ts', 'README.md') }, '/repo').decision).toBe('ask');
+    expect(pm.evaluate('ApplyPatch', { patch: patch('src/a.ts', '.env') }, '/repo').decision).toBe('deny');
+  });
+
+  it('applies Edit path rules to MultiEdit', () => {
+    const pm = new PermissionManager({ allow: ['Edit(src/**)'], deny: ['Edit(.env*)'] });
+
+    expect(pm.evaluate('MultiEdit', { file_path: '.env', edits: [] }, '/repo')).toEqual({
+      decision: 'deny',
+      rule: 'Edit(.env*)',
+    });
+    expect(pm.evaluate('MultiEdit', { file_path: 'src/a.ts', edits: [] }, '/repo').decision).toBe('allow');
+  });
+
+  it('applies Edit and Write path rules to every file in an ApplyPatch call', () => {
+    const pm = new PermissionManager({ allow: ['Edit(src/**)'], deny: ['Edit(.env*)', 'Write(secrets/**)'] });
+    const patch = (...files: string[]) =>
+      files.map((f) => `--- a/${f}\n+++ b/${f}\n@@ -1 +1 @@\n-a\n+b`).join('\n');
+
+    expect(pm.evaluate('ApplyPatch', { patch: patch('src/a.ts', '.env') }, '/repo')).toEqual({
+      decision: 'deny',
+      rule: 'Edit(.env*)',
+    });
+    expect(pm.evaluate('ApplyPatch', { patch: patch('secrets/key.pem') }, '/repo')).toEqual({
+      decision: 'deny',
+      rule: 'Write(secrets/**)',
+    });
+    expect(pm.evaluate('ApplyPatch', { patch: patch('src/a.ts') }, '/repo').decision).toBe('allow');
+  });
+
+  it('matches WebFetch domains and subdomains', () => {
+    const pm = new PermissionManager({ allow: ['WebFetch(domain:github.com)'], defaultDecision: 'deny' });
+
+    expect(pm.evaluate('WebFetch', { url: 'https://github.com/a/b' }, '/repo').decision).toBe('allow');
+    expect(pm.evaluate('WebFetch', { url: 'https://api.github.com/x' }, '/repo').decision).toBe('allow');
+    expect(pm.evaluate('WebFetch', { url: 'https://evilgithub.com' }, '/repo').decision).toBe('deny');
+  });
+
+  it('supports wildcards in tool names', () => {
+    const pm = new PermissionManager({ deny: ['mcp__github__*'] });
+
+    expect(pm.evaluate('mcp__github__create_issue', {}, '/repo').decision).toBe('deny');
+    expect(pm.evaluate('mcp__slack__post', {}, '/repo').decision).toBe('allow');
+  });
+
+  it('routes ask decisions to the approval handler', async () => {
+    const onAsk = vi.fn().mockResolvedValue(true);
+    const pm = new PermissionManager({ ask: ['Bash(rm:*)'], onAsk });
+
+    const result = await pm.check('Bash', { command: 'rm -rf build' }, ctx);
+
+    expect(result.allowed).toBe(true);
+    expect(onAsk).toHaveBeenCalledWith(expect.objectContaining({ tool: 'Bash', rule: 'Bash(rm:*)' }));
+  });
+
+  it('falls back to the global handler and denies without one', async () => {
+    const pm = new PermissionManager({ ask: ['Write'] });
+
+    const denied = await pm.check('Write', { file_path: '/repo/a' }, ctx);
+    expect(denied.allowed).toBe(false);
+    expect(denied.reason).toContain('no approval handler');
+
+    setPermissionHandler(() => false);
+    const rejected = await pm.check('Write', { file_path: '/repo/a' }, ctx);
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.reason).toContain('Rejected by user');
+  });
+
+  it('loads rules from a settings file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'perm-'));
+    const file = path.join(dir, 'settings.json');
+    await fs.writeFile(file, JSON.stringify({ permissions: { deny: ['Bash(git push:*)'] } }));
+
+    const pm = await PermissionManager.fromConfig({ settingsFile: file });
+    await fs.rm(dir, { recursive: true, force: true });
+
+    expect(pm.getRules().deny).toEqual(['Bash(git push:*)']);
+    expect(pm.evaluate('Bash', { command: 'git push' }, '/repo').decision).toBe('deny');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tool progress reporter unit tests.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createProgressReporter } from '../../src/agent/progress.js';
+import type { ToolProgress } from '../../src/tools/types.js';
+
+describe('createProgressReporter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('coalesces chunks per stream within an interval', () => {
+    vi.useFakeTimers();
+    const emitted: ToolProgress[] = [];
+    const reporter = createProgressReporter((p) => emitted.push(p), { intervalMs: 100, maxChars: 1000 });
+
+    reporter.report({ content: 'a', stream: 'stdout' });
+    reporter.report({ content: 'b', stream: 'stdout' });
+    reporter.report({ content: 'oops', stream: 'stderr' });
+    expect(emitted).toHaveLength(0);
+
+    vi.advanceTimersByTime(100);
+    expect(emitted).toEqual([
+      { content: 'ab', stream: 'stdout' },
+      { content: 'oops', stream: 'stderr' },
+    ]);
+  });
+
+  it('keeps only the tail of oversized output', () => {
+    const emitted: ToolProgress[] = [];
+    const reporter = createProgressReporter((p) => emitted.push(p), { intervalMs: 100, maxChars: 4 });
+
+    reporter.report({ content: '0123456789' });
+    reporter.flush();
+
+    expect(emitted).toEqual([{ content: '[... 6 characters omitted ...]\n6789' }]);
+  });
+
+  it('emits buffered output on flush and nothing afterwards', () => {
+    vi.useFakeTimers();
+    const emitted: ToolProgress[] = [];
+    const reporter = createProgressReporter((p) => emitted.push(p), { intervalMs: 100, maxChars: 1000 });
+
+    reporter.report({ content: 'done' });
+    reporter.flush();
+    vi.advanceTimersByTime(500);
+
+    expect(emitted).toEqual([{ content: 'done' }]);
+  });
+});
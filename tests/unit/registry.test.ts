@@ -0,0 +1,64 @@
+/**
+ * Tool registry unit tests.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ToolRegistry } from '../../src/tools/registry.js';
+import type { ToolDefinition } from '../../src/tools/types.js';
+
+function createTool(): ToolDefinition & { execute: ReturnType<typeof vi.fn> } {
+  return {
+    name: 'Resize',
+    description: 'Resize an image',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string' },
+        width: { type: 'integer', minimum: 1, maximum: 4096 },
+        format: { type: 'string', enum: ['png', 'jpeg'] },
+      },
+      required: ['path', 'width'],
+      additionalProperties: false,
+    },
+    execute: vi.fn(async () => ({ content: 'resized' })),
+  };
+}
+
+describe('ToolRegistry', () => {
+  it('executes tools whose input matches the schema', async () => {
+    const registry = new ToolRegistry();
+    const tool = createTool();
+    registry.register(tool);
+
+    const result = await registry.execute('Resize', { path: 'a.png', width: 100, format: 'png' }, { workingDir: '/' });
+
+    expect(result).toEqual({ content: 'resized' });
+    expect(tool.execute).toHaveBeenCalledOnce();
+  });
+
+  it('rejects invalid input without executing, naming each field', async () => {
+    const registry = new ToolRegistry();
+    const tool = createTool();
+    registry.register(tool);
+
+    const result = await registry.execute(
+      'Resize',
+      { width: '100', format: 'gif', height: 50 },
+      { workingDir: '/' }
+    );
+
+    expect(result).toEqual({
+      content:
+        'Invalid input for Resize:\n' +
+        '- $: missing required property "path"\n' +
+        '- $.width: expected integer, got string\n' +
+        '- $.format: must be one of "png", "jpeg"\n' +
+        '- $.height: unexpected property',
+      is_error: true,
+    });
+    expect(tool.execute).not.toHaveBeenCalled();
+
+    const tooWide = await registry.execute('Resize', { path: 'a.png', width: 5000 }, { workingDir: '/' });
+    expect(tooWide.content).toBe('Invalid input for Resize:\n- $.width: must be <= 4096');
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Offline token estimation unit tests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ImageContent } from '../../src/client/types.js';
+import { estimateImageTokens, estimateRequestTokens, estimateTextTokens } from '../../src/utils/tokens.js';
+
+function pngOfSize(width: number, height: number): ImageContent {
+  const header = Buffer.alloc(24);
+  header.writeUInt32BE(0x89504e47, 0);
+  header.writeUInt32BE(0x0d0a1a0a, 4);
+  header.write('IHDR', 12, 'ascii');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return { type: 'image', source: { type: 'base64', media_type: 'image/png', data: header.toString('base64') } };
+}
+
+describe('estimateTextTokens', () => {
+  it('counts ASCII at about four characters per token and other characters individually', () => {
+    expect(estimateTextTokens('abcdefgh')).toBe(2);
+    expect(estimateTextTokens('日本語')).toBe(3);
+  });
+});
+
+describe('estimateImageTokens', () => {
+  it('uses the image dimensions', () => {
+    expect(estimateImageTokens(pngOfSize(750, 100))).toBe(100);
+  });
+
+  it('accounts for downscaling of large images', () => {
+    expect(estimateImageTokens(pngOfSize(4000, 3000))).toBeLessThanOrEqual(1534);
+    expect(estimateImageTokens(pngOfSize(4000, 3000))).toBeGreaterThan(1400);
+  });
+
+  it('assumes the maximum when the format is unknown', () => {
+    const unknown: ImageContent = { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } };
+    expect(estimateImageTokens(unknown)).toBe(1534);
+  });
+});
+
+describe('estimateRequestTokens', () => {
+  it('includes system blocks and tool schemas', () => {
+    const messages = [{ role: 'user' as const, content: 'hi' }];
+    const base = estimateRequestTokens({ model: 'm', messages });
+
+    const withSystem = estimateRequestTokens({ model: 'm', messages, system: [{ type: 'text', text: 'x'.repeat(400) }] });
+    const withTools = estimateRequestTokens({
+      model: 'm',
+      messages,
+      tools: [{ name: 'Read', description: 'Reads a file', input_schema: { type: 'object' } }],
+    });
+
+    expect(withSystem - base).toBeGreaterThanOrEqual(100);
+    expect(withTools - base).toBeGreaterThan(350);
+  });
+
+  it('counts tool results and images inside messages', () => {
+    const small = estimateRequestTokens({
+      model: 'm',
+      messages: [{ role: 'user', content: [{ type: 'tool_result', tool_use_id: 't', content: 'ok' }] }],
+    });
+    const withImage = estimateRequestTokens({
+      model: 'm',
+      messages: [{ role: 'user', content: [{ type: 'tool_result', tool_use_id: 't', content: [pngOfSize(750, 750)] }] }],
+    });
+
+    expect(withImage - small).toBeGreaterThanOrEqual(740);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * ApplyPatch tool unit tests.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { applyPatchTool } from '../../../src/tools/builtin/apply-patch.js';
+import { editTool } from '../../../src/tools/builtin/edit.js';
+import { readTool } from '../../../src/tools/builtin/read.js';
+import { clearFileState } from '../../../src/tools/builtin/file-state.js';
+import type { ToolContext } from '../../../src/tools/types.js';
+
+let workDir: string;
+let context: ToolContext;
+
+const read = (name: string) => fs.readFile(path.join(workDir, name), 'utf-8');
+
+describe('ApplyPatch tool', () => {
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'harness-apply-patch-'));
+    context = { workingDir: workDir };
+    await fs.writeFile(path.join(workDir, 'a.txt'), 'alpha\nbeta\ngamma\n');
+    await fs.writeFile(path.join(workDir, 'b.txt'), 'one\ntwo\n');
+  });
+
+  afterEach(async () => {
+    clearFileState('apply-patch-test');
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('applies a multi-file patch and returns structured diffs', async () => {
+    const patch = [
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      '@@ -1,3 +1,3 @@',
+      ' alpha',
+      '-beta',
+      '+BETA',
+      ' gamma',
+      '--- /dev/null',
+      '+++ b/new/c.txt',
+      '@@ -0,0 +1 @@',
+      '+created',
+      '--- a/b.txt',
+      '+++ /dev/null',
+      '@@ -1,2 +0,0 @@',
+      '-one',
+      '-two',
+    ].join('\n');
+
+    const result = await applyPatchTool.execute({ patch }, context);
+
+    expect(result.is_error).toBe(false);
+    expect(result.content).toContain('- modify a.txt: +1 -1');
+    expect(result.content).toContain('+BETA');
+    expect(result.diffs?.map((d) => [d.type, d.filePath])).toEqual([
+      ['modify', 'a.txt'],
+      ['create', path.join('new', 'c.txt')],
+      ['delete', 'b.txt'],
+    ]);
+    expect(await read('a.txt')).toBe('alpha\nBETA\ngamma\n');
+    expect(await read('new/c.txt')).toBe('created\n');
+    await expect(fs.access(path.join(workDir, 'b.txt'))).rejects.toThrow();
+  });
+
+  it('changes nothing when any hunk fails', async () => {
+    const patch = [
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      '@@ -1,2 +1,2 @@',
+      '-alpha',
+      '+ALPHA',
+      '--- a/b.txt',
+      '+++ b/b.txt',
+      '@@ -1,2 +1,2 @@',
+      '-three',
+      '+THREE',
+    ].join('\n');
+
+    const result = await applyPatchTool.execute({ patch }, context);
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('No files were changed');
+    expect(result.content).toContain('b.txt: Hunk 1');
+    expect(await read('a.txt')).toBe('alpha\nbeta\ngamma\n');
+  });
+
+  it('validates without writing in dry-run mode', async () => {
+    const patch = '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-alpha\n+ALPHA\n';
+
+    const result = await applyPatchTool.execute({ patch, dry_run: true }, context);
+
+    expect(result.is_error).toBe(false);
+    expect(result.content).toContain('dry run');
+    expect(result.diffs).toHaveLength(1);
+    expect(await read('a.txt')).toBe('alpha\nbeta\ngamma\n');
+  });
+
+  it('reports malformed patches', async () => {
+    const result = await applyPatchTool.execute({ patch: 'not a diff' }, context);
+
+    expect(result).toMatchObject({ is_error: true });
+    expect(result.content).toContain('Invalid patch');
+  });
+
+  it('requires existing files to have been read in the session', async () => {
+    const sessionContext = { ...context, sessionId: 'apply-patch-test' };
+    const patch = '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-alpha\n+ALPHA\n';
+
+    const before = await applyPatchTool.execute({ patch }, sessionContext);
+    expect(before.content).toContain('has not been read yet');
+
+    await readTool.execute({ file_path: 'a.txt' }, sessionContext);
+    const after = await applyPatchTool.execute({ patch }, sessionContext);
+    expect(after.is_error).toBe(false);
+  });
+});
+
+describe('Edit tool diffs', () => {
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'harness-edit-diff-'));
+    await fs.writeFile(path.join(workDir, 'a.txt'), 'alpha\nbeta\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('includes a unified diff in the result', async () => {
+    const result = await editTool.execute(
+      { file_path: 'a.txt', old_string: 'beta', new_string: 'gamma' },
+      { workingDir: workDir }
+    );
+
+    expect(result.content).toContain('--- a/a.txt\n+++ b/a.txt\n@@ -1,2 +1,2 @@\n alpha\n-beta\n+gamma');
+    expect(result.diffs).toEqual([
+      expect.objectContaining({ filePath: 'a.txt', type: 'modify', additions: 1, deletions: 1 }),
+    ]);
+  });
+});
@@ -2,8 +2,13 @@
  * Bash tool unit tests.
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach, beforeEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import { bashTool } from '../../../src/tools/builtin/bash.js';
+import { isSandboxAvailable, type SandboxConfig } from '../../../src/tools/builtin/sandbox.js';
+import { closeAllShellSessions } from '../../../src/tools/builtin/shell-session.js';
 import type { ToolContext } from '../../../src/tools/types.js';
 
 const mockContext: ToolContext = {
@@ -105,3 +110,226 @@ describe('Bash tool', () => {
     expect(result.content).toContain('bg_');
   });
 });
+
+describe('Bash tool (persistent session)', () => {
+  const sessionContext: ToolContext = {
+    workingDir: process.cwd(),
+    sessionId: 'bash-test-session',
+  };
+
+  afterEach(() => {
+    closeAllShellSessions();
+  });
+
+  it('keeps the working directory between calls', async () => {
+    await bashTool.execute({ command: `cd ${os.tmpdir()}` }, sessionContext);
+    const result = await bashTool.execute({ command: 'pwd' }, sessionContext);
+
+    expect(result.is_error).toBe(false);
+    expect(String(result.content).trim()).toBe(os.tmpdir());
+  });
+
+  it('keeps exported variables and functions between calls', async () => {
+    await bashTool.execute(
+      { command: 'export GREETING=hi; greet() { echo "$GREETING $1"; }' },
+      sessionContext
+    );
+    const result = await bashTool.execute({ command: 'greet there' }, sessionContext);
+
+    expect(result.content).toBe('hi there\n');
+  });
+
+  it('reports exit codes and separates stderr', async () => {
+    const result = await bashTool.execute(
+      { command: 'echo out; echo err >&2; false' },
+      sessionContext
+    );
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toBe('out\n\nerr\n');
+  });
+
+  it('survives syntax errors', async () => {
+    const bad = await bashTool.execute({ command: 'if then fi (' }, sessionContext);
+    expect(bad.is_error).toBe(true);
+
+    const good = await bashTool.execute({ command: 'echo still alive' }, sessionContext);
+    expect(good.content).toContain('still alive');
+  });
+
+  it('does not let commands consume the framing from stdin', async () => {
+    const result = await bashTool.execute({ command: 'cat; echo after' }, sessionContext);
+
+    expect(result.is_error).toBe(false);
+    expect(result.content).toContain('after');
+  });
+
+  it('restarts the shell after it exits', async () => {
+    await bashTool.execute({ command: 'export GONE=1' }, sessionContext);
+    const exited = await bashTool.execute({ command: 'exit 3' }, sessionContext);
+
+    expect(exited.is_error).toBe(true);
+    expect(exited.content).toContain('Shell exited with code 3');
+
+    const result = await bashTool.execute({ command: 'echo "[$GONE]"' }, sessionContext);
+    expect(result.content).toContain('[]');
+  });
+
+  it('restarts the shell in the same directory after a timeout', async () => {
+    await bashTool.execute({ command: 'cd / && export FOO=bar' }, sessionContext);
+    const timedOut = await bashTool.execute({ command: 'sleep 10', timeout: 100 }, sessionContext);
+
+    expect(timedOut.is_error).toBe(true);
+    expect(timedOut.content).toContain('timed out');
+    expect(timedOut.content).toContain('in the same working directory');
+
+    const result = await bashTool.execute({ command: 'pwd; echo "[$FOO]"' }, sessionContext);
+    expect(result.content).toBe('/\n[]\n');
+  }, 10000);
+
+  it('does not keep the process alive while the shell is idle', async () => {
+    const count = () => process.getActiveResourcesInfo().filter((r) => r === 'ProcessWrap').length;
+    const before = count();
+
+    const pending = bashTool.execute({ command: 'sleep 0.2' }, sessionContext);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(count()).toBe(before + 1);
+
+    await pending;
+    expect(count()).toBe(before);
+  });
+});
+
+describe.skipIf(!isSandboxAvailable())('Bash tool sandbox', () => {
+  let workDir: string;
+  let outsideDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sandbox-work-'));
+    outsideDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sandbox-outside-'));
+  });
+
+  afterEach(async () => {
+    closeAllShellSessions();
+    await fs.rm(workDir, { recursive: true, force: true });
+    await fs.rm(outsideDir, { recursive: true, force: true });
+  });
+
+  const sandboxed = (sandbox: SandboxConfig = {}, sessionId?: string): ToolContext => ({
+    workingDir: workDir,
+    sandbox,
+    ...(sessionId && { sessionId }),
+  });
+
+  it('allows writes in the working directory and blocks them elsewhere', async () => {
+    const inside = await bashTool.execute({ command: 'echo hi > inside.txt && cat inside.txt' }, sandboxed());
+    expect(inside).toEqual({ content: 'hi\n', is_error: false });
+
+    const outside = await bashTool.execute({ command: `echo hi > ${outsideDir}/x` }, sandboxed());
+    expect(outside.is_error).toBe(true);
+    expect(outside.content).toContain('Sandbox: writes outside the working directory and allowed paths are blocked.');
+    await expect(fs.access(path.join(outsideDir, 'x'))).rejects.toThrow();
+
+    const allowed = await bashTool.execute(
+      { command: `echo hi > ${outsideDir}/x` },
+      sandboxed({ writablePaths: [outsideDir] })
+    );
+    expect(allowed.is_error).toBe(false);
+  });
+
+  it('only blames the sandbox for failed commands with matching stderr', async () => {
+    const succeeded = await bashTool.execute({ command: 'echo "Read-only file system" >&2' }, sandboxed());
+    expect(succeeded).toEqual({ content: 'Read-only file system\n', is_error: false });
+
+    const printed = await bashTool.execute({ command: 'echo "Read-only file system"; exit 1' }, sandboxed());
+    expect(printed).toEqual({ content: 'Read-only file system\n', is_error: true });
+  });
+
+  it('keeps the persistent shell sandboxed and unable to remount', async () => {
+    const context = sandboxed({}, 'sandbox-session');
+    await bashTool.execute({ command: 'cd sub 2>/dev/null || mkdir sub && cd sub' }, context);
+
+    const result = await bashTool.execute({ command: `pwd; mount -o remount,rw / ; touch ${outsideDir}/x` }, context);
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain(path.join(await fs.realpath(workDir), 'sub'));
+    expect(result.content).toContain('Sandbox: writes outside');
+  });
+
+  it('limits CPU time per command in the persistent shell', async () => {
+    const context = sandboxed({ cpuSeconds: 1 }, 'cpu-session');
+    // Spends 0.6s of the shell's own CPU time
+    const burn =
+      'read -r -a s < /proc/$BASHPID/stat; end=$((s[13] + 60)); ' +
+      'until read -r -a s < /proc/$BASHPID/stat; (( s[13] >= end )); do :; done; echo burned';
+
+    await bashTool.execute({ command: 'mkdir sub && cd sub && export KEPT=1 && f() { echo fn; }' }, context);
+    for (let i = 0; i < 3; i++) {
+      expect(await bashTool.execute({ command: burn }, context)).toEqual({ content: 'burned\n', is_error: false });
+    }
+
+    const spin = await bashTool.execute({ command: 'while :; do :; done' }, context);
+    expect(spin.content).toContain('Sandbox: the CPU time limit of 1s was exceeded.');
+
+    const state = await bashTool.execute({ command: 'echo "$KEPT $(f) ${PWD##*/}"' }, context);
+    expect(state).toEqual({ content: '1 fn sub\n', is_error: false });
+  }, 20000);
+
+  it('blocks the network unless allowed', async () => {
+    const result = await bashTool.execute(
+      { command: `node -e "require('net').connect(80, '1.1.1.1').on('error', (e) => { console.error(e.message); process.exit(1); })"` },
+      sandboxed()
+    );
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('Sandbox: network access is blocked.');
+  });
+
+  it('hides host processes', async () => {
+    const result = await bashTool.execute(
+      { command: `kill -0 ${process.pid} 2>/dev/null && echo visible || echo hidden` },
+      sandboxed()
+    );
+
+    expect(result.content).toBe('hidden\n');
+  });
+
+  it('passes only allowlisted environment variables', async () => {
+    process.env.SANDBOX_TEST_SECRET = 'leak';
+    try {
+      const result = await bashTool.execute(
+        { command: 'echo "[$SANDBOX_TEST_SECRET][$EXTRA][${PATH:+path}]"' },
+        { ...sandboxed(), env: { EXTRA: 'given' } }
+      );
+      expect(result.content).toBe('[][given][path]\n');
+    } finally {
+      delete process.env.SANDBOX_TEST_SECRET;
+    }
+  });
+
+  it('enforces CPU and memory limits', async () => {
+    const cpu = await bashTool.execute({ command: 'while :; do :; done' }, sandboxed({ cpuSeconds: 1 }));
+    expect(cpu.is_error).toBe(true);
+    expect(cpu.content).toContain('Sandbox: the CPU time limit of 1s was exceeded.');
+
+    const memory = await bashTool.execute(
+      { command: 'node -e "Buffer.alloc(300 * 1024 * 1024, 1)"' },
+      sandboxed({ memoryMB: 100 })
+    );
+    expect(memory.is_error).toBe(true);
+    expect(memory.content).toContain('memory limit of 100 MB');
+  }, 15000);
+});
+
+describe.skipIf(isSandboxAvailable('bwrap'))('Bash tool sandbox (unavailable)', () => {
+  it('refuses to run commands instead of running them unsandboxed', async () => {
+    const result = await bashTool.execute(
+      { command: 'echo ran' },
+      { workingDir: process.cwd(), sandbox: { backend: 'bwrap' } }
+    );
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('Sandbox unavailable');
+    expect(result.content).not.toContain('ran');
+  });
+});
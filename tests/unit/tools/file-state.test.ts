@@ -0,0 +1,96 @@
+/**
+ * Read-before-write protection tests for Edit and Write.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { readTool } from '../../../src/tools/builtin/read.js';
+import { writeTool } from '../../../src/tools/builtin/write.js';
+import { editTool } from '../../../src/tools/builtin/edit.js';
+import { clearFileState } from '../../../src/tools/builtin/file-state.js';
+import type { ToolContext } from '../../../src/tools/types.js';
+
+let workDir: string;
+let context: ToolContext;
+let file: string;
+
+describe('File state tracking', () => {
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'harness-file-state-'));
+    context = { workingDir: workDir, sessionId: 'file-state-test' };
+    file = path.join(workDir, 'notes.txt');
+    await fs.writeFile(file, 'original text\n');
+  });
+
+  afterEach(async () => {
+    clearFileState('file-state-test');
+    clearFileState('another-session');
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('refuses to edit or overwrite a file that was never read', async () => {
+    const edit = await editTool.execute({ file_path: file, old_string: 'original', new_string: 'new' }, context);
+    expect(edit.is_error).toBe(true);
+    expect(edit.content).toContain('has not been read yet');
+
+    const write = await writeTool.execute({ file_path: file, content: 'clobbered' }, context);
+    expect(write.is_error).toBe(true);
+    expect(await fs.readFile(file, 'utf-8')).toBe('original text\n');
+  });
+
+  it('allows edits after a read, including consecutive edits', async () => {
+    await readTool.execute({ file_path: file }, context);
+
+    const first = await editTool.execute({ file_path: file, old_string: 'original', new_string: 'edited' }, context);
+    const second = await editTool.execute({ file_path: file, old_string: 'text', new_string: 'words' }, context);
+
+    expect(first.is_error).toBe(false);
+    expect(second.is_error).toBe(false);
+    expect(await fs.readFile(file, 'utf-8')).toBe('edited words\n');
+  });
+
+  it('refuses to write a file modified externally since the last read', async () => {
+    await readTool.execute({ file_path: file }, context);
+    await fs.writeFile(file, 'teammate changes\n');
+    await fs.utimes(file, new Date(), new Date(Date.now() + 5000));
+
+    const result = await writeTool.execute({ file_path: file, content: 'stale copy' }, context);
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('has been modified since it was last read');
+    expect(await fs.readFile(file, 'utf-8')).toBe('teammate changes\n');
+  });
+
+  it('ignores mtime changes when the content is unchanged', async () => {
+    await readTool.execute({ file_path: file }, context);
+    await fs.utimes(file, new Date(), new Date(Date.now() + 5000));
+
+    const result = await editTool.execute({ file_path: file, old_string: 'original', new_string: 'new' }, context);
+
+    expect(result.is_error).toBe(false);
+  });
+
+  it('exempts new files', async () => {
+    const newFile = path.join(workDir, 'sub', 'new.txt');
+
+    const created = await writeTool.execute({ file_path: newFile, content: 'hello' }, context);
+    const rewritten = await writeTool.execute({ file_path: newFile, content: 'hello again' }, context);
+
+    expect(created.is_error).toBe(false);
+    expect(rewritten.is_error).toBe(false);
+    expect(await fs.readFile(newFile, 'utf-8')).toBe('hello again');
+  });
+
+  it('tracks files per session', async () => {
+    await readTool.execute({ file_path: file }, context);
+
+    const other = await writeTool.execute(
+      { file_path: file, content: 'other session' },
+      { ...context, sessionId: 'another-session' }
+    );
+
+    expect(other.is_error).toBe(true);
+  });
+});
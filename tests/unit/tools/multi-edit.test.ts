@@ -0,0 +1,106 @@
+/**
+ * MultiEdit tool unit tests.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { multiEditTool } from '../../../src/tools/builtin/multi-edit.js';
+import { readTool } from '../../../src/tools/builtin/read.js';
+import { clearFileState } from '../../../src/tools/builtin/file-state.js';
+import type { ToolContext } from '../../../src/tools/types.js';
+
+let workDir: string;
+let file: string;
+
+describe('MultiEdit tool', () => {
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'harness-multi-edit-'));
+    file = path.join(workDir, 'code.ts');
+    await fs.writeFile(file, 'const foo = 1;\nconst bar = foo + foo;\n');
+  });
+
+  afterEach(async () => {
+    clearFileState('multi-edit-test');
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('applies edits sequentially against the intermediate content', async () => {
+    const result = await multiEditTool.execute(
+      {
+        file_path: file,
+        edits: [
+          { old_string: 'foo', new_string: 'baz', replace_all: true },
+          { old_string: 'const baz = 1;', new_string: 'const baz = 2;' },
+        ],
+      },
+      { workingDir: workDir }
+    );
+
+    expect(result.is_error).toBe(false);
+    expect(result.content).toContain('2 edit(s) (4 replacement(s))');
+    expect(await fs.readFile(file, 'utf-8')).toBe('const baz = 2;\nconst bar = baz + baz;\n');
+  });
+
+  it('leaves the file untouched when a later edit fails', async () => {
+    const result = await multiEditTool.execute(
+      {
+        file_path: file,
+        edits: [
+          { old_string: 'const bar', new_string: 'const qux' },
+          { old_string: 'foo', new_string: 'baz' },
+        ],
+      },
+      { workingDir: workDir }
+    );
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('Error in edit 2 of 2: old_string appears 3 times in the file');
+    expect(result.content).toContain('No edits were applied.');
+    expect(await fs.readFile(file, 'utf-8')).toBe('const foo = 1;\nconst bar = foo + foo;\n');
+  });
+
+  it('validates every edit before reading the file', async () => {
+    const result = await multiEditTool.execute(
+      {
+        file_path: path.join(workDir, 'missing.ts'),
+        edits: [
+          { old_string: 'a', new_string: 'b' },
+          { old_string: 'same', new_string: 'same' },
+        ],
+      },
+      { workingDir: workDir }
+    );
+
+    expect(result.content).toContain('Error in edit 2 of 2: old_string and new_string must be different');
+  });
+
+  it('reports when an edit depends on text removed by an earlier one', async () => {
+    const result = await multiEditTool.execute(
+      {
+        file_path: file,
+        edits: [
+          { old_string: 'const foo = 1;', new_string: 'let foo = 1;' },
+          { old_string: 'const foo', new_string: 'var foo' },
+        ],
+      },
+      { workingDir: workDir }
+    );
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('Error in edit 2 of 2: old_string not found');
+  });
+
+  it('requires the file to have been read in the session', async () => {
+    const context: ToolContext = { workingDir: workDir, sessionId: 'multi-edit-test' };
+    const edits = [{ old_string: 'const bar', new_string: 'const qux' }];
+
+    const before = await multiEditTool.execute({ file_path: file, edits }, context);
+    expect(before.content).toContain('has not been read yet');
+
+    await readTool.execute({ file_path: file }, context);
+    const after = await multiEditTool.execute({ file_path: file, edits }, context);
+    expect(after.is_error).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Usage ledger unit tests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { UsageLedger, findModelPrice, DEFAULT_PRICES, type UsageEntry } from '../../src/agent/usage.js';
+
+function entry(overrides: Partial<UsageEntry> = {}): UsageEntry {
+  return {
+    sessionId: 's1',
+    model: 'claude-sonnet-4-5-20250929',
+    workerId: null,
+    turn: 1,
+    kind: 'turn',
+    causedBy: [],
+    usage: { input_tokens: 1000, output_tokens: 200 },
+    ...overrides,
+  };
+}
+
+describe('findModelPrice', () => {
+  it('matches the longest prefix', () => {
+    expect(findModelPrice('claude-opus-4-5-20251101')).toBe(DEFAULT_PRICES['claude-opus-4-5']);
+    expect(findModelPrice('claude-opus-4-1-20250805')).toBe(DEFAULT_PRICES['claude-opus-4']);
+    expect(findModelPrice('gpt-4')).toBeNull();
+  });
+});
+
+describe('UsageLedger', () => {
+  it('prices each token kind', () => {
+    const ledger = new UsageLedger();
+    const record = ledger.record(
+      entry({
+        usage: {
+          input_tokens: 1_000_000,
+          output_tokens: 1_000_000,
+          cache_creation_input_tokens: 1_000_000,
+          cache_read_input_tokens: 1_000_000,
+        },
+      })
+    );
+
+    expect(record).toMatchObject({ inputTokens: 1_000_000, cacheWriteTokens: 1_000_000, cacheReadTokens: 1_000_000 });
+    expect(record.costUSD).toBeCloseTo(3 + 15 + 3.75 + 0.3);
+  });
+
+  it('aggregates by model, session, worker and tool', () => {
+    const ledger = new UsageLedger({
+      prices: { custom: { inputPerMTok: 1, outputPerMTok: 1, cacheWritePerMTok: 1, cacheReadPerMTok: 1 } },
+    });
+    ledger.record(entry({ model: 'custom' }));
+    ledger.record(entry({ model: 'custom', turn: 2, causedBy: ['Read', 'Read', 'Grep'] }));
+    ledger.record(entry({ model: 'mystery', workerId: 'worker_1' }));
+    ledger.record(entry({ model: 'custom', sessionId: 's2' }));
+
+    const report = ledger.getReport();
+    expect(report.total).toMatchObject({ requests: 4, inputTokens: 4000, outputTokens: 800 });
+    expect(report.total.costUSD).toBeCloseTo(0.0036);
+    expect(report.byModel.custom.requests).toBe(3);
+    expect(report.bySession).toMatchObject({ s1: { requests: 3 }, s2: { requests: 1 } });
+    expect(report.byWorker).toMatchObject({ main: { requests: 3 }, worker_1: { requests: 1, costUSD: 0 } });
+    expect(report.byTool).toMatchObject({ prompt: { requests: 3 }, Read: { requests: 1 }, Grep: { requests: 1 } });
+    expect(report.unpricedModels).toEqual(['mystery']);
+
+    expect(ledger.getReport('s2').total.requests).toBe(1);
+    expect(ledger.getRecords('s1')).toHaveLength(3);
+  });
+
+  it('adds a restored report to the session totals', () => {
+    const earlier = new UsageLedger();
+    earlier.record(entry());
+    earlier.record(entry({ kind: 'compaction' }));
+
+    const ledger = new UsageLedger();
+    ledger.record(entry());
+    ledger.restore('s1', earlier.getReport('s1'));
+    ledger.record(entry({ turn: 3 }));
+
+    const report = ledger.getReport('s1');
+    expect(report.total.requests).toBe(3);
+    expect(report.byModel['claude-sonnet-4-5-20250929'].inputTokens).toBe(3000);
+
+    // Restoring again replaces the baseline rather than adding to it
+    ledger.restore('s1', earlier.getReport('s1'));
+    expect(ledger.getReport('s1').total.requests).toBe(2);
+  });
+});
@@ -5,6 +5,12 @@ export default defineConfig({
     globals: true,
     environment: 'node',
     include: ['tests/**/*.test.ts'],
+    // Type-level assertions (expectTypeOf) only fail when type-checked
+    typecheck: {
+      enabled: true,
+      include: ['tests/unit/define-tool.test.ts'],
+      tsconfig: './tsconfig.test.json'
+    },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],